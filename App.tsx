@@ -2,24 +2,58 @@ import React, { useState, useCallback, useEffect, useRef } from 'react';
 import { Dropzone } from './components/Dropzone';
 import { ControlPanel } from './components/ControlPanel';
 import { RetroCanvas } from './components/RetroCanvas';
-import { RetroSettings, UploadedFile } from './types';
-import { Image as ImageIcon, Video, MonitorPlay } from 'lucide-react';
-
-const DEFAULT_SETTINGS: RetroSettings = {
-  pixelSize: 6,
-  threshold: 110,
-  ditherAmount: 0.25,
-  contrast: 1.1,
-  colorDark: '#1a1a14', // Rich Black
-  colorLight: '#e6e0d4', // Bone/Beige
-  invert: false,
-  gridLine: false,
+import { ExportDialog, ExportTab } from './components/ExportDialog';
+import { BatchQueue } from './components/BatchQueue';
+import { LiveSourcePicker } from './components/LiveSourcePicker';
+import { CompareToolbar, Snapshots, SnapshotSlot } from './components/CompareToolbar';
+import { CompareMode, RetroSettings, UploadedFile } from './types';
+import { extractPalette, QuantizeMethod, samplePixels } from './utils/quantize';
+import { sampleFramePixels, sampleSourcePixels } from './utils/sampleSource';
+import { hexToRgb, rgbToHex } from './utils/dither';
+import { downloadBlob } from './utils/download';
+import { FrameSource } from './utils/render';
+import { SourceFile } from './utils/fileDrop';
+import { DEFAULT_SETTINGS } from './utils/settings';
+import { decodeSettingsHash, encodeSettingsHash } from './utils/presets';
+import { supportsVideoExport } from './utils/videoExport';
+import { routeMediaAudio } from './utils/audioRouting';
+import { useSettingsHistory } from './hooks/useSettingsHistory';
+import { LiveSourceType, stopStream } from './utils/liveSource';
+import { Image as ImageIcon, Video, MonitorPlay, Camera, MonitorUp } from 'lucide-react';
+
+// Wait for a pause in slider drags before rewriting the URL
+const HASH_SYNC_DELAY_MS = 300;
+
+// Settings from a shared link win over the defaults, a broken link is reported once on mount
+const readHashSettings = (): { settings: RetroSettings; error: string | null } => {
+  try {
+    return { settings: decodeSettingsHash(window.location.hash) ?? DEFAULT_SETTINGS, error: null };
+  } catch (err) {
+    return { settings: DEFAULT_SETTINGS, error: (err as Error).message };
+  }
+};
+
+// Live sources hold the camera or screen until stopped
+const releaseSource = (source: UploadedFile) => {
+  if (source.stream) stopStream(source.stream);
+  else URL.revokeObjectURL(source.url);
 };
 
 const App: React.FC = () => {
   const [file, setFile] = useState<UploadedFile | null>(null);
-  const [settings, setSettings] = useState<RetroSettings>(DEFAULT_SETTINGS);
+  const [initialHash] = useState(readHashSettings);
+  const history = useSettingsHistory(initialHash.settings);
+  const { settings, setSettings, undo, redo } = history;
   const [canvasInstance, setCanvasInstance] = useState<HTMLCanvasElement | null>(null);
+  const [sourceElement, setSourceElement] = useState<FrameSource | null>(null);
+  const [exportTab, setExportTab] = useState<ExportTab | null>(null);
+  const [batchFiles, setBatchFiles] = useState<SourceFile[] | null>(null);
+  const [histogram, setHistogram] = useState<Uint32Array | null>(null);
+
+  // Compare against the original and between two pinned looks
+  const [compareMode, setCompareMode] = useState<CompareMode>('off');
+  const [showOriginal, setShowOriginal] = useState(false);
+  const [snapshots, setSnapshots] = useState<Snapshots>({ a: null, b: null });
   
   // Recording State
   const [isRecording, setIsRecording] = useState(false);
@@ -27,10 +61,8 @@ const App: React.FC = () => {
   const chunksRef = useRef<Blob[]>([]);
 
   const handleFileSelect = (selectedFile: File) => {
-    // Revoke old url if exists
-    if (file) {
-      URL.revokeObjectURL(file.url);
-    }
+    // Revoke old url or stop the old stream
+    if (file) releaseSource(file);
     // Reset recording state if changing file
     if (isRecording) stopRecording();
 
@@ -44,12 +76,42 @@ const App: React.FC = () => {
     });
   };
 
+  const handleStreamStart = (stream: MediaStream, type: LiveSourceType, name: string) => {
+    if (file) releaseSource(file);
+    if (isRecording) stopRecording();
+    setFile({ url: '', type, name, stream });
+  };
+
+  const handleCloseSource = () => {
+    if (isRecording) stopRecording();
+    if (file) releaseSource(file);
+    setFile(null);
+  };
+
+  // Ending a screen share from the browser's own UI closes the source
+  useEffect(() => {
+    const stream = file?.stream;
+    const track = stream?.getVideoTracks()[0];
+    if (!stream || !track) return;
+    const handleEnded = () => {
+      // Only the video track ends, a shared tab's audio would keep running
+      stopStream(stream);
+      setFile((current) => (current?.stream === stream ? null : current));
+    };
+    track.addEventListener('ended', handleEnded);
+    return () => track.removeEventListener('ended', handleEnded);
+  }, [file]);
+
   const handleDownloadImage = () => {
-    if (!canvasInstance) return;
-    const link = document.createElement('a');
-    link.download = `retrobit-${Date.now()}.png`;
-    link.href = canvasInstance.toDataURL('image/png');
-    link.click();
+    if (!sourceElement) return;
+    setExportTab('image');
+  };
+
+  const handleExtractPalette = async (method: QuantizeMethod, count: number, locked: string[]) => {
+    if (!file) return locked;
+    // A live source only has the frame on screen
+    const buffers = file.stream && sourceElement ? [sampleFramePixels(sourceElement)] : await sampleSourcePixels(file);
+    return extractPalette(samplePixels(buffers), count, method, locked.map(hexToRgb)).map(rgbToHex);
   };
 
   const startRecording = () => {
@@ -57,9 +119,13 @@ const App: React.FC = () => {
     
     // 30 FPS capture
     const stream = canvasInstance.captureStream(30);
-    const mimeType = MediaRecorder.isTypeSupported('video/webm; codecs=vp9') 
-      ? 'video/webm; codecs=vp9' 
-      : 'video/webm';
+
+    // Mix the source audio in, tapped before the player's volume control
+    if (sourceElement instanceof HTMLVideoElement && file?.type === 'video') {
+        routeMediaAudio(sourceElement).stream.getAudioTracks().forEach((track) => stream.addTrack(track));
+    }
+    const preferred = stream.getAudioTracks().length > 0 ? 'video/webm; codecs=vp9,opus' : 'video/webm; codecs=vp9';
+    const mimeType = MediaRecorder.isTypeSupported(preferred) ? preferred : 'video/webm';
 
     try {
         const recorder = new MediaRecorder(stream, { 
@@ -75,12 +141,7 @@ const App: React.FC = () => {
 
         recorder.onstop = () => {
             const blob = new Blob(chunksRef.current, { type: 'video/webm' });
-            const url = URL.createObjectURL(blob);
-            const a = document.createElement('a');
-            a.href = url;
-            a.download = `retrobit-video-${Date.now()}.webm`;
-            a.click();
-            URL.revokeObjectURL(url);
+            downloadBlob(blob, `retrobit-video-${Date.now()}.webm`);
             chunksRef.current = [];
         };
 
@@ -101,13 +162,94 @@ const App: React.FC = () => {
   };
 
   const toggleRecording = () => {
-    if (isRecording) {
+    // Prefer the deterministic offline render, live capture is the fallback (and the only way for live sources)
+    if (!isRecording && sourceElement && file?.type === 'video' && supportsVideoExport()) {
+        setExportTab('video');
+    } else if (isRecording) {
         stopRecording();
     } else {
         startRecording();
     }
   };
 
+  useEffect(() => {
+    if (initialHash.error) alert(`Could not load the shared settings: ${initialHash.error}`);
+  }, []); // eslint-disable-line react-hooks/exhaustive-deps
+
+  // Keep the address bar a shareable link to the current look
+  useEffect(() => {
+    const timer = window.setTimeout(() => {
+      window.history.replaceState(null, '', encodeSettingsHash(settings));
+    }, HASH_SYNC_DELAY_MS);
+    return () => window.clearTimeout(timer);
+  }, [settings]);
+
+  // A link pasted into this tab only changes the hash, no reload
+  useEffect(() => {
+    const handleHashChange = () => {
+      try {
+        const shared = decodeSettingsHash(window.location.hash);
+        if (shared) setSettings(shared);
+      } catch (err) {
+        alert(`Could not load the shared settings: ${(err as Error).message}`);
+      }
+    };
+    window.addEventListener('hashchange', handleHashChange);
+    return () => window.removeEventListener('hashchange', handleHashChange);
+  }, []);
+
+  // Ctrl+Z / Ctrl+Shift+Z (Cmd on Mac), text fields keep their own undo
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+      const target = e.target as HTMLElement;
+      if (target.isContentEditable || target instanceof HTMLTextAreaElement) return;
+      if (target instanceof HTMLInputElement && !['range', 'checkbox', 'color', 'file'].includes(target.type)) return;
+
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) undo();
+      else if ((key === 'z' && e.shiftKey) || key === 'y') redo();
+      else return;
+      e.preventDefault();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [undo, redo]);
+
+  // Hold \ to peek at the original
+  useEffect(() => {
+    const isPeekKey = (e: KeyboardEvent) =>
+      e.key === '\\' &&
+      !(e.target instanceof HTMLInputElement && e.target.type === 'text') &&
+      !(e.target instanceof HTMLTextAreaElement);
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (isPeekKey(e)) setShowOriginal(true);
+    };
+    const handleKeyUp = (e: KeyboardEvent) => {
+      if (isPeekKey(e)) setShowOriginal(false);
+    };
+    // Releasing the key in another window would leave the original stuck on
+    const handleBlur = () => setShowOriginal(false);
+    window.addEventListener('keydown', handleKeyDown);
+    window.addEventListener('keyup', handleKeyUp);
+    window.addEventListener('blur', handleBlur);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+      window.removeEventListener('keyup', handleKeyUp);
+      window.removeEventListener('blur', handleBlur);
+    };
+  }, []);
+
+  const pinSnapshot = (slot: SnapshotSlot) => {
+    setSnapshots((prev) => ({ ...prev, [slot]: settings }));
+  };
+
+  // Recalling goes through history, so flipping A/B can be undone like any edit
+  const recallSnapshot = (slot: SnapshotSlot) => {
+    const snapshot = snapshots[slot];
+    if (snapshot) setSettings(snapshot);
+  };
+
   // Cleanup URLs on unmount
   useEffect(() => {
     return () => {
@@ -134,7 +276,9 @@ const App: React.FC = () => {
         
         {/* Canvas Area */}
         <div className="flex-1 bg-[#050505] relative flex flex-col">
-          {file ? (
+          {batchFiles ? (
+             <BatchQueue files={batchFiles} settings={settings} onClose={() => setBatchFiles(null)} />
+          ) : file ? (
              <div className="flex-1 relative overflow-hidden p-4 md:p-8 flex items-center justify-center">
                  <div className={`
                     relative w-full h-full max-w-5xl max-h-[80vh] border transition-colors duration-300 bg-black shadow-2xl
@@ -144,12 +288,34 @@ const App: React.FC = () => {
                         file={file} 
                         settings={settings} 
                         onCanvasReady={setCanvasInstance}
+                        onSourceReady={setSourceElement}
+                        compareMode={compareMode}
+                        showOriginal={showOriginal}
+                        onHistogram={setHistogram}
+                        onCropChange={(crop) => setSettings((prev) => ({ ...prev, crop }))}
                     />
+
+                    {/* Compare */}
+                    <div className="absolute top-4 left-1/2 -translate-x-1/2">
+                        <CompareToolbar
+                            mode={compareMode}
+                            onModeChange={setCompareMode}
+                            showOriginal={showOriginal}
+                            onShowOriginalChange={setShowOriginal}
+                            snapshots={snapshots}
+                            settings={settings}
+                            onPin={pinSnapshot}
+                            onRecall={recallSnapshot}
+                        />
+                    </div>
                     
                     {/* Floating Info Badge */}
                     <div className="absolute top-4 left-4 flex gap-2">
                         <div className="bg-black/80 backdrop-blur border border-[#333] px-3 py-1 rounded text-xs font-mono text-gray-400 flex items-center gap-2">
-                            {file.type === 'video' ? <Video size={12}/> : <ImageIcon size={12}/>}
+                            {file.type === 'video' ? <Video size={12}/>
+                                : file.type === 'camera' ? <Camera size={12}/>
+                                : file.type === 'screen' ? <MonitorUp size={12}/>
+                                : <ImageIcon size={12}/>}
                             <span className="uppercase max-w-[150px] truncate">{file.name}</span>
                         </div>
                         {isRecording && (
@@ -161,10 +327,7 @@ const App: React.FC = () => {
                     </div>
 
                     <button 
-                        onClick={() => {
-                            if(isRecording) stopRecording();
-                            setFile(null);
-                        }}
+                        onClick={handleCloseSource}
                         className="absolute top-4 right-4 bg-black/80 hover:bg-red-900/50 backdrop-blur border border-[#333] px-3 py-1 rounded text-xs font-mono text-red-400 transition-colors"
                     >
                         CLOSE
@@ -174,7 +337,8 @@ const App: React.FC = () => {
           ) : (
             <div className="flex-1 flex items-center justify-center p-8">
               <div className="w-full max-w-xl">
-                 <Dropzone onFileSelect={handleFileSelect} />
+                 <Dropzone onFileSelect={handleFileSelect} onFilesSelect={setBatchFiles} />
+                 <LiveSourcePicker onStreamStart={handleStreamStart} />
                  <div className="mt-8 text-center space-y-2">
                     <p className="text-sm font-mono text-gray-600">
                         Try uploading a high contrast photo or a silhouette video for best results.
@@ -194,12 +358,24 @@ const App: React.FC = () => {
         <ControlPanel 
             settings={settings} 
             setSettings={setSettings}
+            history={history}
             onDownloadImage={handleDownloadImage}
             onToggleRecord={toggleRecording}
             isRecording={isRecording}
             fileType={file ? file.type : null}
+            histogram={file ? histogram : null}
+            onExtractPalette={file ? handleExtractPalette : undefined}
         />
       </div>
+
+      {exportTab && file && sourceElement && (
+        <ExportDialog
+            source={sourceElement}
+            settings={settings}
+            initialTab={exportTab}
+            onClose={() => setExportTab(null)}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,6 @@
+#!/usr/bin/env node
+// Installed entry point: tsx loads the TypeScript sources of the CLI directly
+import { register } from 'tsx/esm/api';
+
+register();
+await import('../cli/retrobit.ts');
@@ -0,0 +1,92 @@
+import { Dirent, existsSync, readdirSync, statSync } from 'node:fs';
+import path from 'node:path';
+
+// Minimal glob expansion for shells (and CI runners) that don't expand patterns themselves.
+// Supports *, ?, [abc] / [!abc] and {a,b} within a segment and ** across directories.
+
+const hasMagic = (segment: string) => /[*?[{]/.test(segment);
+
+const segmentRegExp = (segment: string): RegExp => {
+  let source = '';
+  for (let i = 0; i < segment.length; i++) {
+    const c = segment[i];
+    if (c === '*') {
+      source += '[^/]*';
+    } else if (c === '?') {
+      source += '[^/]';
+    } else if (c === '[' && segment.indexOf(']', i + 2) > i) {
+      const end = segment.indexOf(']', i + 2);
+      source += '[' + segment.slice(i + 1, end).replace(/^!/, '^').replace(/\\/g, '\\\\') + ']';
+      i = end;
+    } else if (c === '{' && segment.indexOf('}', i) > i) {
+      const end = segment.indexOf('}', i);
+      const options = segment.slice(i + 1, end).split(',');
+      source += '(?:' + options.map((o) => o.replace(/[.+^${}()|[\]\\]/g, '\\$&')).join('|') + ')';
+      i = end;
+    } else {
+      source += c.replace(/[.+^${}()|\\\]]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${source}$`);
+};
+
+const listDir = (dir: string): Dirent[] => {
+  try {
+    return readdirSync(dir, { withFileTypes: true });
+  } catch {
+    return [];
+  }
+};
+
+const isFile = (file: string) => {
+  try {
+    return statSync(file).isFile();
+  } catch {
+    return false;
+  }
+};
+
+// Literal paths are expected to exist, patterns may legitimately match nothing
+export const isGlobPattern = (pattern: string) => pattern.split(path.sep).join('/').split('/').some(hasMagic);
+
+/**
+ * Expands a glob pattern to the matching files, sorted. Patterns without wildcards are
+ * returned as-is when the file exists. Hidden entries only match patterns that start with a dot.
+ */
+export const expandGlob = (pattern: string): string[] => {
+  const normalized = pattern.split(path.sep).join('/');
+  const segments = normalized.split('/');
+  if (!segments.some(hasMagic)) return existsSync(pattern) ? [pattern] : [];
+
+  // The literal prefix is where the walk starts
+  let first = 0;
+  while (first < segments.length && !hasMagic(segments[first])) first++;
+  const base = segments.slice(0, first).join('/') || (normalized.startsWith('/') ? '/' : '.');
+
+  const results = new Set<string>();
+  const walk = (dir: string, index: number) => {
+    if (index === segments.length) {
+      if (isFile(dir)) results.add(dir);
+      return;
+    }
+
+    const segment = segments[index];
+    if (segment === '**') {
+      // Zero or more directories
+      walk(dir, index + 1);
+      for (const entry of listDir(dir)) {
+        if (entry.isDirectory() && !entry.name.startsWith('.')) walk(path.join(dir, entry.name), index);
+      }
+      return;
+    }
+
+    const matcher = segmentRegExp(segment);
+    for (const entry of listDir(dir)) {
+      if (entry.name.startsWith('.') && !segment.startsWith('.')) continue;
+      if (matcher.test(entry.name)) walk(path.join(dir, entry.name), index + 1);
+    }
+  };
+  walk(base, first);
+
+  return [...results].sort((a, b) => a.localeCompare(b, undefined, { numeric: true }));
+};
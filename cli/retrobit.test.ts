@@ -0,0 +1,115 @@
+import { spawnSync } from 'node:child_process';
+import { existsSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { PNG } from 'pngjs';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+
+const BIN = fileURLToPath(new URL('../bin/retrobit.js', import.meta.url));
+
+// Plain threshold at art resolution, so the output can be predicted pixel for pixel
+const PRESET = {
+  pixelSize: 1,
+  downscale: 'nearest',
+  ditherAmount: 0,
+  contrast: 1,
+  threshold: 128,
+  colorDark: '#000000',
+  colorLight: '#ffffff',
+};
+
+// Every run starts a fresh Node process that loads the TypeScript sources through tsx
+const TIMEOUT = 30000;
+
+let dir = '';
+
+const run = (...args: string[]) => spawnSync(process.execPath, [BIN, ...args], { cwd: dir, encoding: 'utf8' });
+
+// 2x2 gray PNG, one level per pixel
+const writePng = (name: string, levels: number[]) => {
+  const png = new PNG({ width: 2, height: 2 });
+  levels.forEach((level, p) => png.data.set([level, level, level, 255], p * 4));
+  writeFileSync(path.join(dir, name), PNG.sync.write(png));
+};
+
+beforeEach(() => {
+  dir = mkdtempSync(path.join(tmpdir(), 'retrobit-'));
+  writeFileSync(path.join(dir, 'preset.json'), JSON.stringify(PRESET));
+});
+
+afterEach(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+describe('retrobit CLI', () => {
+  it(
+    'converts a PNG and writes it back',
+    () => {
+      writePng('in.png', [0, 200, 100, 255]);
+      const result = run('-p', 'preset.json', '-s', '2', 'in.png');
+      expect(result.stderr).toBe('');
+      expect(result.status).toBe(0);
+
+      const out = PNG.sync.read(readFileSync(path.join(dir, 'retrobit-out', 'in.png')));
+      expect([out.width, out.height]).toEqual([4, 4]);
+      // Top-left pixel of each 2x2 block
+      const pixel = (x: number, y: number) => Array.from(out.data.subarray((y * 4 + x) * 4, (y * 4 + x) * 4 + 4));
+      expect([pixel(0, 0), pixel(2, 0), pixel(0, 2), pixel(2, 2)]).toEqual([
+        [0, 0, 0, 255],
+        [255, 255, 255, 255],
+        [0, 0, 0, 255],
+        [255, 255, 255, 255],
+      ]);
+    },
+    TIMEOUT
+  );
+
+  it(
+    'exits with 2 on invalid settings without converting',
+    () => {
+      writePng('in.png', [0, 0, 0, 0]);
+      writeFileSync(path.join(dir, 'bad.json'), JSON.stringify({ pixelSize: 0 }));
+      const result = run('-p', 'bad.json', 'in.png');
+      expect(result.status).toBe(2);
+      expect(result.stderr).toContain('"pixelSize" must be between 1 and 64');
+      expect(existsSync(path.join(dir, 'retrobit-out'))).toBe(false);
+    },
+    TIMEOUT
+  );
+
+  it(
+    'exits with 1 when a named input is missing, converting the rest',
+    () => {
+      writePng('in.png', [0, 0, 0, 0]);
+      const result = run('in.png', 'missing.png');
+      expect(result.status).toBe(1);
+      expect(result.stderr).toContain('missing.png: no such file');
+      expect(result.stderr).toContain('1 of 2 files failed');
+      expect(existsSync(path.join(dir, 'retrobit-out', 'in.png'))).toBe(true);
+    },
+    TIMEOUT
+  );
+
+  it(
+    'only warns about a pattern that matches nothing',
+    () => {
+      writePng('in.png', [0, 0, 0, 0]);
+      const result = run('in.png', 'sprites/*.png');
+      expect(result.status).toBe(0);
+      expect(result.stderr).toContain('warning: sprites/*.png matched no files');
+    },
+    TIMEOUT
+  );
+
+  it(
+    'exits with 1 on a file it cannot decode',
+    () => {
+      writeFileSync(path.join(dir, 'notes.png'), 'not an image');
+      const result = run('notes.png');
+      expect(result.status).toBe(1);
+      expect(result.stderr).toContain('notes.png: Not a PNG or JPEG file');
+    },
+    TIMEOUT
+  );
+});
@@ -0,0 +1,171 @@
+import { mkdirSync, readFileSync, writeFileSync } from 'node:fs';
+import path from 'node:path';
+import { parseArgs } from 'node:util';
+import { decode as decodeJpeg, encode as encodeJpeg } from 'jpeg-js';
+import { PNG } from 'pngjs';
+import { RetroSettings } from '../types';
+import { quantizePixels, renderIndexed, scaleIndexed } from '../utils/convert';
+import { orientPixels } from '../utils/crop';
+import { getArtSize, getPixelAspect, getSourceRegion } from '../utils/render';
+import { resamplePixels } from '../utils/resample';
+import { DEFAULT_SETTINGS, validateSettings } from '../utils/settings';
+import { indexedToSvg } from '../utils/svg';
+import { expandGlob, isGlobPattern } from './glob';
+
+type OutputFormat = 'png' | 'jpg' | 'svg';
+
+const FORMATS: OutputFormat[] = ['png', 'jpg', 'svg'];
+
+const USAGE = `Usage: retrobit [options] <file or glob>...
+
+Converts images with the same pipeline as the web app.
+
+Options:
+  -p, --preset <file>   RetroSettings JSON, missing keys fall back to the defaults
+  -o, --out <dir>       Output directory (default: retrobit-out)
+  -f, --format <fmt>    png, jpg or svg (default: png)
+  -s, --scale <n>       Integer upscale of the art resolution (default: 1),
+                        non-square pixelAspect presets are stretched on top
+  -q, --quality <n>     JPEG quality 1-100 (default: 90)
+  -h, --help            Show this help
+
+JPEG has no alpha: transparent pixels keep the color of the transparent slot.
+Exits with 1 when any file failed, 2 on bad arguments or settings.`;
+
+// Usage and settings problems, reported without a stack trace
+class UsageError extends Error {}
+
+interface DecodedImage {
+  width: number;
+  height: number;
+  data: Uint8ClampedArray;
+}
+
+const decodeImage = (file: string): DecodedImage => {
+  const buffer = readFileSync(file);
+  // Sniff the signature rather than trusting the extension
+  if (buffer.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))) {
+    const png = PNG.sync.read(buffer);
+    return { width: png.width, height: png.height, data: new Uint8ClampedArray(png.data) };
+  }
+  if (buffer[0] === 0xff && buffer[1] === 0xd8) {
+    const jpeg = decodeJpeg(buffer, { useTArray: true, formatAsRGBA: true });
+    return { width: jpeg.width, height: jpeg.height, data: new Uint8ClampedArray(jpeg.data.buffer, jpeg.data.byteOffset, jpeg.data.byteLength) };
+  }
+  throw new Error('Not a PNG or JPEG file');
+};
+
+const convertFile = (file: string, settings: RetroSettings, format: OutputFormat, scale: number, quality: number) => {
+  const source = decodeImage(file);
+  const { width, height } = getArtSize(source.width, source.height, settings);
+  const region = getSourceRegion(source.width, source.height, settings);
+  const frame = orientPixels(source.data, source.width, source.height, settings, region);
+  const pixels = resamplePixels(frame, region.width, region.height, width, height, settings.downscale);
+  const art = quantizePixels(pixels, width, height, settings);
+  const aspect = getPixelAspect(settings);
+
+  if (format === 'svg') return Buffer.from(indexedToSvg(art, { scale, aspect }));
+
+  const image = scaleIndexed(art, scale * aspect.x, scale * aspect.y);
+  const data = Buffer.from(renderIndexed(image).buffer);
+  if (format === 'jpg') return encodeJpeg({ width: image.width, height: image.height, data }, quality).data;
+  const png = new PNG({ width: image.width, height: image.height });
+  data.copy(png.data);
+  return PNG.sync.write(png);
+};
+
+const parseInteger = (value: string | undefined, name: string, fallback: number, min: number, max: number) => {
+  if (value === undefined) return fallback;
+  const n = Number(value);
+  if (!Number.isInteger(n) || n < min || n > max) throw new UsageError(`--${name} must be a whole number from ${min} to ${max}`);
+  return n;
+};
+
+const loadPreset = (file: string | undefined): RetroSettings => {
+  if (!file) return DEFAULT_SETTINGS;
+  let json: unknown;
+  try {
+    json = JSON.parse(readFileSync(file, 'utf8'));
+  } catch (err) {
+    throw new UsageError(`Cannot read preset ${file}: ${(err as Error).message}`);
+  }
+  try {
+    return validateSettings(json);
+  } catch (err) {
+    throw new UsageError(`${file}: ${(err as Error).message}`);
+  }
+};
+
+const main = (argv: string[]): number => {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      preset: { type: 'string', short: 'p' },
+      out: { type: 'string', short: 'o', default: 'retrobit-out' },
+      format: { type: 'string', short: 'f', default: 'png' },
+      scale: { type: 'string', short: 's' },
+      quality: { type: 'string', short: 'q' },
+      help: { type: 'boolean', short: 'h' },
+    },
+  });
+
+  if (values.help) {
+    console.log(USAGE);
+    return 0;
+  }
+  if (positionals.length === 0) throw new UsageError('No input files given');
+
+  const format = values.format as OutputFormat;
+  if (!FORMATS.includes(format)) throw new UsageError(`--format must be one of ${FORMATS.join(', ')}`);
+  const scale = parseInteger(values.scale, 'scale', 1, 1, 64);
+  const quality = parseInteger(values.quality, 'quality', 90, 1, 100);
+  const settings = loadPreset(values.preset);
+
+  const files: string[] = [];
+  let failed = 0;
+  for (const pattern of positionals) {
+    const matches = expandGlob(pattern);
+    if (matches.length === 0 && isGlobPattern(pattern)) {
+      console.error(`warning: ${pattern} matched no files`);
+    } else if (matches.length === 0) {
+      // A file named outright that isn't there fails like one that can't be read
+      failed++;
+      console.error(`error: ${pattern}: no such file`);
+    }
+    for (const match of matches) if (!files.includes(match)) files.push(match);
+  }
+  if (files.length === 0) throw new UsageError('No input files found');
+  const total = files.length + failed;
+
+  mkdirSync(values.out, { recursive: true });
+  const used = new Set<string>();
+  for (const file of files) {
+    const base = path.basename(file).replace(/\.[^.]+$/, '');
+    let name = `${base}.${format}`;
+    for (let n = 2; used.has(name); n++) name = `${base}-${n}.${format}`;
+    used.add(name);
+
+    try {
+      const output = path.join(values.out, name);
+      writeFileSync(output, convertFile(file, settings, format, scale, quality));
+      console.log(`${file} -> ${output}`);
+    } catch (err) {
+      failed++;
+      console.error(`error: ${file}: ${(err as Error).message}`);
+    }
+  }
+
+  if (failed > 0) console.error(`${failed} of ${total} files failed`);
+  return failed > 0 ? 1 : 0;
+};
+
+try {
+  process.exitCode = main(process.argv.slice(2));
+} catch (err) {
+  // parseArgs throws TypeErrors with a code for unknown or malformed options
+  const usage = err instanceof UsageError || (err as { code?: string }).code?.startsWith('ERR_PARSE_ARGS');
+  console.error(`retrobit: ${(err as Error).message}`);
+  if (usage) console.error(`Run "retrobit --help" for usage.`);
+  process.exitCode = usage ? 2 : 1;
+}
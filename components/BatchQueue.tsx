@@ -0,0 +1,202 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { RetroSettings } from '../types';
+import { BatchItem, batchZipEntries, convertBatchItem, createBatchItems, releaseBatchItems } from '../utils/batch';
+import { SourceFile } from '../utils/fileDrop';
+import { createZip } from '../utils/zip';
+import { downloadBlob } from '../utils/download';
+import { Archive, Check, Loader2, Pin, Play, Square, X, AlertTriangle } from 'lucide-react';
+
+interface BatchQueueProps {
+  files: SourceFile[];
+  settings: RetroSettings;
+  onClose: () => void;
+}
+
+const SCALES = [1, 2, 4, 8];
+
+export const BatchQueue: React.FC<BatchQueueProps> = ({ files, settings, onClose }) => {
+  const [items, setItems] = useState<BatchItem[]>(() => createBatchItems(files));
+  const [scale, setScale] = useState(1);
+  const [isRunning, setIsRunning] = useState(false);
+  const itemsRef = useRef(items);
+  const settingsRef = useRef(settings);
+  const cancelRef = useRef(false);
+
+  itemsRef.current = items;
+  settingsRef.current = settings;
+
+  const updateItem = (id: string, patch: Partial<BatchItem>) => {
+    setItems((prev) => prev.map((item) => (item.id === id ? { ...item, ...patch } : item)));
+  };
+
+  // Results made with other settings are stale, pinned items keep theirs
+  const invalidate = (predicate: (item: BatchItem) => boolean) => {
+    setItems((prev) =>
+      prev.map((item) => {
+        if (item.status !== 'done' || !predicate(item)) return item;
+        if (item.resultUrl) URL.revokeObjectURL(item.resultUrl);
+        return { ...item, status: 'pending', result: undefined, resultUrl: undefined };
+      })
+    );
+  };
+
+  useEffect(() => {
+    invalidate((item) => !item.settings);
+  }, [settings]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  useEffect(() => {
+    invalidate(() => true);
+  }, [scale]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  const handleClose = () => {
+    cancelRef.current = true;
+    releaseBatchItems(itemsRef.current);
+    onClose();
+  };
+
+  const runAll = async () => {
+    cancelRef.current = false;
+    setIsRunning(true);
+    // One at a time, keeps memory flat for large folders
+    for (const { id } of itemsRef.current) {
+      if (cancelRef.current) break;
+      const item = itemsRef.current.find((i) => i.id === id);
+      if (!item || item.status !== 'pending') continue;
+
+      updateItem(id, { status: 'processing' });
+      try {
+        const result = await convertBatchItem(item, settingsRef.current, scale);
+        updateItem(id, { status: 'done', result, resultUrl: URL.createObjectURL(result), error: undefined });
+      } catch (err) {
+        console.error(`Batch conversion failed for ${item.path}`, err);
+        updateItem(id, { status: 'error', error: (err as Error).message });
+      }
+    }
+    setIsRunning(false);
+  };
+
+  const handleDownloadZip = async () => {
+    const entries = await batchZipEntries(items);
+    if (entries.length === 0) return;
+    downloadBlob(createZip(entries), `retrobit-batch-${Date.now()}.zip`);
+  };
+
+  const togglePin = (item: BatchItem) => {
+    if (item.resultUrl) URL.revokeObjectURL(item.resultUrl);
+    updateItem(item.id, {
+      settings: item.settings ? undefined : settings,
+      status: 'pending',
+      result: undefined,
+      resultUrl: undefined,
+    });
+  };
+
+  const removeItem = (item: BatchItem) => {
+    releaseBatchItems([item]);
+    setItems((prev) => prev.filter((i) => i.id !== item.id));
+  };
+
+  const doneCount = items.filter((i) => i.status === 'done').length;
+  const pendingCount = items.filter((i) => i.status === 'pending').length;
+
+  return (
+    <div className="flex-1 flex flex-col overflow-hidden p-4 md:p-8 gap-4">
+      {/* Toolbar */}
+      <div className="flex flex-wrap items-center gap-3">
+        <h2 className="text-sm font-bold font-mono text-[#e6e0d4] tracking-wider">
+          BATCH <span className="text-gray-500">· {doneCount}/{items.length}</span>
+        </h2>
+
+        <div className="flex gap-1 ml-auto">
+          {SCALES.map((s) => (
+            <button
+              key={s}
+              onClick={() => setScale(s)}
+              disabled={isRunning}
+              className={`px-2 py-1 rounded text-xs font-mono border transition-colors ${
+                scale === s ? 'bg-[#e6e0d4] text-[#1a1a1a] border-[#e6e0d4]' : 'border-[#333] text-gray-400 hover:text-[#e6e0d4]'
+              }`}
+            >
+              {s}x
+            </button>
+          ))}
+        </div>
+
+        {isRunning ? (
+          <button
+            onClick={() => (cancelRef.current = true)}
+            className="px-3 py-1.5 bg-[#222] border border-[#333] hover:border-red-400 text-red-400 rounded text-xs font-mono uppercase flex items-center gap-2 transition-colors"
+          >
+            <Square size={12} fill="currentColor" /> Stop
+          </button>
+        ) : (
+          <button
+            onClick={runAll}
+            disabled={pendingCount === 0}
+            className="px-3 py-1.5 bg-[#e6e0d4] text-[#1a1a1a] rounded text-xs font-mono font-bold uppercase flex items-center gap-2 hover:bg-white transition-colors disabled:opacity-40"
+          >
+            <Play size={12} fill="currentColor" /> Convert {pendingCount}
+          </button>
+        )}
+        <button
+          onClick={handleDownloadZip}
+          disabled={doneCount === 0 || isRunning}
+          className="px-3 py-1.5 bg-[#222] border border-[#333] hover:border-[#666] text-[#e6e0d4] rounded text-xs font-mono uppercase flex items-center gap-2 transition-colors disabled:opacity-40"
+        >
+          <Archive size={12} /> Zip
+        </button>
+        <button
+          onClick={handleClose}
+          className="px-3 py-1.5 bg-black/80 hover:bg-red-900/50 border border-[#333] rounded text-xs font-mono text-red-400 transition-colors"
+        >
+          CLOSE
+        </button>
+      </div>
+
+      {/* Queue */}
+      <div className="flex-1 overflow-y-auto grid grid-cols-[repeat(auto-fill,minmax(140px,1fr))] auto-rows-min gap-3">
+        {items.map((item) => (
+          <div key={item.id} className="bg-[#111] border border-[#333] rounded overflow-hidden flex flex-col group">
+            <div className="relative aspect-square bg-black flex items-center justify-center">
+              {item.file.type.startsWith('image/') && (
+                <img
+                  src={item.resultUrl ?? item.url}
+                  alt={item.path}
+                  className="max-w-full max-h-full object-contain"
+                  style={{ imageRendering: item.resultUrl ? 'pixelated' : 'auto' }}
+                />
+              )}
+              <button
+                onClick={() => removeItem(item)}
+                disabled={isRunning}
+                className="absolute top-1 right-1 p-1 rounded bg-black/70 text-gray-500 hover:text-red-400 opacity-0 group-hover:opacity-100 transition-opacity"
+                title="Remove"
+              >
+                <X size={12} />
+              </button>
+              <button
+                onClick={() => togglePin(item)}
+                disabled={isRunning || !item.file.type.startsWith('image/')}
+                className={`absolute top-1 left-1 p-1 rounded bg-black/70 transition-colors ${
+                  item.settings ? 'text-[#e6e0d4]' : 'text-gray-600 hover:text-gray-300 opacity-0 group-hover:opacity-100'
+                }`}
+                title={item.settings ? 'Use shared settings again' : 'Pin current settings to this item'}
+              >
+                <Pin size={12} />
+              </button>
+            </div>
+            <div className="px-2 py-1.5 flex items-center gap-1.5 text-[10px] font-mono">
+              {item.status === 'done' && <Check size={12} className="text-green-500 shrink-0" />}
+              {item.status === 'processing' && <Loader2 size={12} className="text-[#e6e0d4] animate-spin shrink-0" />}
+              {item.status === 'error' && <AlertTriangle size={12} className="text-red-400 shrink-0" />}
+              {item.status === 'pending' && <div className="w-2 h-2 rounded-full bg-[#444] shrink-0 mx-0.5" />}
+              <span className="truncate text-gray-400" title={item.error ?? item.path}>
+                {item.path}
+              </span>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
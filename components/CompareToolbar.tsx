@@ -0,0 +1,96 @@
+import React from 'react';
+import { CompareMode, RetroSettings } from '../types';
+import { Columns2, Eye, Pin, SquareSplitHorizontal, Square } from 'lucide-react';
+
+export type SnapshotSlot = 'a' | 'b';
+
+export type Snapshots = Record<SnapshotSlot, RetroSettings | null>;
+
+interface CompareToolbarProps {
+  mode: CompareMode;
+  onModeChange: (mode: CompareMode) => void;
+  showOriginal: boolean;
+  onShowOriginalChange: (show: boolean) => void;
+  snapshots: Snapshots;
+  settings: RetroSettings;
+  onPin: (slot: SnapshotSlot) => void;
+  onRecall: (slot: SnapshotSlot) => void;
+}
+
+const MODES: { value: CompareMode; label: string; icon: React.ReactNode }[] = [
+  { value: 'off', label: 'Converted only', icon: <Square size={12} /> },
+  { value: 'wipe', label: 'Before/after wipe', icon: <SquareSplitHorizontal size={12} /> },
+  { value: 'side-by-side', label: 'Side by side', icon: <Columns2 size={12} /> },
+];
+
+const sameSettings = (a: RetroSettings, b: RetroSettings) => JSON.stringify(a) === JSON.stringify(b);
+
+export const CompareToolbar: React.FC<CompareToolbarProps> = ({
+  mode,
+  onModeChange,
+  showOriginal,
+  onShowOriginalChange,
+  snapshots,
+  settings,
+  onPin,
+  onRecall,
+}) => (
+  <div className="bg-black/80 backdrop-blur border border-[#333] px-1 py-1 rounded flex items-center gap-1">
+    {MODES.map((m) => (
+      <button
+        key={m.value}
+        onClick={() => onModeChange(m.value)}
+        className={`p-1 rounded transition-colors ${
+          mode === m.value ? 'bg-[#e6e0d4] text-[#1a1a1a]' : 'text-gray-400 hover:text-[#e6e0d4]'
+        }`}
+        title={m.label}
+      >
+        {m.icon}
+      </button>
+    ))}
+
+    {/* Press and hold, like the \ key */}
+    <button
+      onPointerDown={() => onShowOriginalChange(true)}
+      onPointerUp={() => onShowOriginalChange(false)}
+      onPointerLeave={() => onShowOriginalChange(false)}
+      className={`p-1 rounded transition-colors ${showOriginal ? 'text-[#e6e0d4]' : 'text-gray-400 hover:text-[#e6e0d4]'}`}
+      title="Hold to show original (or hold \)"
+    >
+      <Eye size={12} />
+    </button>
+
+    <div className="w-px h-4 bg-[#333] mx-1" />
+
+    {(['a', 'b'] as SnapshotSlot[]).map((slot) => {
+      const snapshot = snapshots[slot];
+      const active = !!snapshot && sameSettings(snapshot, settings);
+      return (
+        <div key={slot} className="flex items-center">
+          <button
+            onClick={() => (snapshot ? onRecall(slot) : onPin(slot))}
+            className={`px-2 py-0.5 rounded text-[10px] font-mono uppercase transition-colors ${
+              active
+                ? 'bg-[#e6e0d4] text-[#1a1a1a]'
+                : snapshot
+                  ? 'text-[#e6e0d4] hover:bg-[#222]'
+                  : 'text-gray-600 hover:text-gray-300'
+            }`}
+            title={snapshot ? `Show snapshot ${slot.toUpperCase()}` : `Pin current settings as ${slot.toUpperCase()}`}
+          >
+            {slot}
+          </button>
+          {snapshot && (
+            <button
+              onClick={() => onPin(slot)}
+              className="p-0.5 text-gray-600 hover:text-[#e6e0d4] transition-colors"
+              title={`Replace ${slot.toUpperCase()} with current settings`}
+            >
+              <Pin size={10} />
+            </button>
+          )}
+        </div>
+      );
+    })}
+  </div>
+);
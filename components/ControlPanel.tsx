@@ -1,14 +1,26 @@
 import React, { useState, useEffect } from 'react';
-import { RetroSettings, FileType } from '../types';
-import { Settings, Grid, Droplet, Sun, Moon, Zap, Pipette, Camera, Video, Square, Hash } from 'lucide-react';
+import { RetroSettings, FileType, DitherMode, PaletteMode, AlphaMode, LevelsMode, LumaMode, DownscaleMode, PixelAspect, TemporalMode, PhosphorMask, CropAspect } from '../types';
+import { PaletteEditor } from './PaletteEditor';
+import { PresetManager } from './PresetManager';
+import { HistoryPanel } from './HistoryPanel';
+import { Histogram } from './Histogram';
+import { SettingsHistory } from '../hooks/useSettingsHistory';
+import { QuantizeMethod } from '../utils/quantize';
+import { isDiffusionMode } from '../utils/dither';
+import { isMotionSource } from '../utils/liveSource';
+import { CROP_RESOLUTIONS, flipView, rotateView } from '../utils/crop';
+import { Settings, Grid, Droplet, Sun, Moon, Zap, Pipette, Camera, Video, Square, Hash, Layers, SlidersHorizontal, Film, Tv, Crop, RotateCcw, RotateCw, FlipHorizontal2, FlipVertical2 } from 'lucide-react';
 
 interface ControlPanelProps {
   settings: RetroSettings;
   setSettings: React.Dispatch<React.SetStateAction<RetroSettings>>;
+  history: SettingsHistory;
   onDownloadImage: () => void;
   onToggleRecord: () => void;
   isRecording: boolean;
   fileType: FileType;
+  onExtractPalette?: (method: QuantizeMethod, count: number, locked: string[]) => Promise<string[]>;
+  histogram?: Uint32Array | null;
 }
 
 // 经典复古配色预设
@@ -21,6 +33,113 @@ const COLOR_PRESETS = [
   { name: 'Sunset', dark: '#2d0000', light: '#ffaa55' },
 ];
 
+const ORDERED_DITHER_MODES: { value: DitherMode; label: string }[] = [
+  { value: 'bayer2', label: 'Bayer 2x2' },
+  { value: 'bayer4', label: 'Bayer 4x4' },
+  { value: 'bayer8', label: 'Bayer 8x8' },
+  { value: 'bayer16', label: 'Bayer 16x16' },
+  { value: 'blue-noise', label: 'Blue Noise' },
+  { value: 'halftone', label: 'Halftone Dots' },
+  { value: 'lines-horizontal', label: 'Horizontal Lines' },
+  { value: 'lines-diagonal', label: 'Diagonal Lines' },
+];
+
+const DIFFUSION_DITHER_MODES: { value: DitherMode; label: string }[] = [
+  { value: 'floyd-steinberg', label: 'Floyd-Steinberg' },
+  { value: 'atkinson', label: 'Atkinson' },
+  { value: 'jarvis', label: 'Jarvis-Judice-Ninke' },
+  { value: 'stucki', label: 'Stucki' },
+  { value: 'sierra', label: 'Sierra' },
+];
+
+const ALPHA_MODES: { value: AlphaMode; label: string }[] = [
+  { value: 'opaque', label: 'Opaque' },
+  { value: 'threshold', label: 'Cut' },
+  { value: 'dither', label: 'Dither' },
+];
+
+const DOWNSCALE_MODES: { value: DownscaleMode; label: string }[] = [
+  { value: 'area', label: 'Area Average' },
+  { value: 'nearest', label: 'Nearest' },
+  { value: 'bilinear', label: 'Bilinear' },
+  { value: 'lanczos', label: 'Lanczos' },
+  { value: 'dominant', label: 'Dominant Color' },
+];
+
+const PIXEL_ASPECTS: PixelAspect[] = ['1:1', '2:1', '1:2'];
+
+const CROP_ASPECTS: { value: CropAspect; label: string; title: string }[] = [
+  { value: 'free', label: 'Free', title: 'Any shape' },
+  { value: '1:1', label: '1:1', title: 'Square' },
+  { value: '4:3', label: '4:3', title: 'Classic TV' },
+  { value: '16:9', label: '16:9', title: 'Widescreen' },
+  { value: 'gameboy', label: 'GB', title: 'Game Boy, 160x144 art pixels' },
+  { value: 'nes', label: 'NES', title: 'NES, 256x240 art pixels' },
+];
+
+const TEMPORAL_MODES: { value: TemporalMode; label: string }[] = [
+  { value: 'off', label: 'Off' },
+  { value: 'hysteresis', label: 'Hold' },
+  { value: 'motion', label: 'Motion' },
+];
+
+const PHOSPHOR_MASKS: { value: PhosphorMask; label: string }[] = [
+  { value: 'none', label: 'No Mask' },
+  { value: 'rgb', label: 'RGB' },
+  { value: 'aperture', label: 'Grille' },
+];
+
+// Strength an effect starts at when switched on
+const EFFECT_ON = 0.5;
+
+const LEVELS_MODES: { value: LevelsMode; label: string }[] = [
+  { value: 'none', label: 'No Levels' },
+  { value: 'auto', label: 'Auto Levels' },
+  { value: 'equalize', label: 'Equalize' },
+  { value: 'clahe', label: 'Local Contrast (CLAHE)' },
+];
+
+const LUMA_MODES: { value: LumaMode; label: string }[] = [
+  { value: 'rec601', label: 'Luma Rec.601' },
+  { value: 'rec709', label: 'Luma Rec.709' },
+  { value: 'average', label: 'RGB Average' },
+  { value: 'red', label: 'Red Channel' },
+  { value: 'green', label: 'Green Channel' },
+  { value: 'blue', label: 'Blue Channel' },
+];
+
+const SliderRow = ({
+  label,
+  value,
+  min,
+  max,
+  step,
+  display,
+  onChange,
+}: {
+  label: string;
+  value: number;
+  min: number;
+  max: number;
+  step: number;
+  display: string;
+  onChange: (val: number) => void;
+}) => (
+  <div className="flex items-center gap-3">
+    <span className="text-xs text-gray-500 font-mono uppercase w-12">{label}</span>
+    <input
+      type="range"
+      min={min}
+      max={max}
+      step={step}
+      value={value}
+      onChange={(e) => onChange(Number(e.target.value))}
+      className="flex-1 h-2 bg-[#333] rounded-lg appearance-none cursor-pointer accent-[#e6e0d4]"
+    />
+    <span className="text-xs text-[#e6e0d4] font-mono w-8 text-right">{display}</span>
+  </div>
+);
+
 const ColorPickerInput = ({ 
   label, 
   value, 
@@ -102,22 +221,70 @@ const ColorPickerInput = ({
   );
 };
 
+// Toggle for an effect whose strength doubles as its on/off state, 0 = off
+const EffectToggle = ({
+  label,
+  value,
+  onChange,
+}: {
+  label: string;
+  value: number;
+  onChange: (val: number) => void;
+}) => (
+  <div className="space-y-2">
+    <label className="flex items-center gap-2 text-sm text-gray-300 font-mono cursor-pointer select-none">
+      <input
+        type="checkbox"
+        checked={value > 0}
+        onChange={(e) => onChange(e.target.checked ? EFFECT_ON : 0)}
+        className="w-4 h-4 rounded bg-[#333] border-gray-600 accent-[#e6e0d4]"
+      />
+      {label}
+    </label>
+    {value > 0 && (
+      <SliderRow
+        label="Amt"
+        value={value}
+        min={0.05}
+        max={1}
+        step={0.05}
+        display={`${Math.round(value * 100)}%`}
+        onChange={onChange}
+      />
+    )}
+  </div>
+);
+
 export const ControlPanel: React.FC<ControlPanelProps> = ({
   settings,
   setSettings,
+  history,
   onDownloadImage,
   onToggleRecord,
   isRecording,
   fileType,
+  onExtractPalette,
+  histogram,
 }) => {
   const handleChange = (key: keyof RetroSettings, value: any) => {
     setSettings((prev) => ({ ...prev, [key]: value }));
   };
 
+  // Colors the current settings can produce, candidates for the transparent slot
+  const activePalette =
+    settings.paletteMode === 'palette' && settings.palette.length > 0
+      ? settings.palette
+      : [settings.colorDark, settings.colorLight];
+
   const applyPreset = (dark: string, light: string) => {
     setSettings(prev => ({ ...prev, colorDark: dark, colorLight: light }));
   };
 
+  // Console presets pin the art resolution, pixel size no longer applies
+  const fixedResolution = CROP_RESOLUTIONS[settings.cropAspect];
+  const isReframed = settings.crop !== null || settings.rotation !== 0 || settings.flipH || settings.flipV;
+  const frameButton = 'flex justify-center py-1.5 bg-[#222] border border-[#333] rounded text-gray-400 hover:text-[#e6e0d4] transition-colors';
+
   return (
     <div className="w-full md:w-80 bg-[#111] border-l border-[#333] p-6 flex flex-col gap-6 overflow-y-auto h-full scrollbar-thin scrollbar-thumb-gray-800">
       <div className="flex items-center gap-2 mb-2 pb-4 border-b border-[#333]">
@@ -125,6 +292,60 @@ export const ControlPanel: React.FC<ControlPanelProps> = ({
         <h2 className="text-xl font-bold text-[#e6e0d4] tracking-tighter">CONTROLS</h2>
       </div>
 
+      {/* Presets */}
+      <PresetManager settings={settings} onApply={setSettings} />
+
+      {/* Undo / Redo */}
+      <HistoryPanel history={history} />
+
+      {/* Crop & Orientation */}
+      <div className="space-y-3">
+        <div className="flex justify-between items-center">
+          <label className="text-sm text-gray-400 font-mono flex items-center gap-2">
+            <Crop size={14} /> Frame
+          </label>
+          {isReframed && (
+            <button
+              onClick={() => setSettings((prev) => ({ ...prev, crop: null, rotation: 0, flipH: false, flipV: false }))}
+              className="text-xs text-gray-500 hover:text-[#e6e0d4] font-mono transition-colors"
+              title="Whole frame, unrotated"
+            >
+              Reset
+            </button>
+          )}
+        </div>
+        <div className="grid grid-cols-3 gap-1 bg-[#222] p-1 rounded border border-[#333]">
+          {CROP_ASPECTS.map((aspect) => (
+            <button
+              key={aspect.value}
+              onClick={() => handleChange('cropAspect', aspect.value)}
+              className={`py-1 rounded text-xs font-mono transition-colors ${
+                settings.cropAspect === aspect.value
+                  ? 'bg-[#e6e0d4] text-[#1a1a1a]'
+                  : 'text-gray-400 hover:text-[#e6e0d4]'
+              }`}
+              title={aspect.title}
+            >
+              {aspect.label}
+            </button>
+          ))}
+        </div>
+        <div className="grid grid-cols-4 gap-1">
+          <button onClick={() => setSettings((prev) => ({ ...prev, ...rotateView(prev, false) }))} className={frameButton} title="Rotate left">
+            <RotateCcw size={14} />
+          </button>
+          <button onClick={() => setSettings((prev) => ({ ...prev, ...rotateView(prev, true) }))} className={frameButton} title="Rotate right">
+            <RotateCw size={14} />
+          </button>
+          <button onClick={() => setSettings((prev) => ({ ...prev, ...flipView(prev, true) }))} className={frameButton} title="Flip horizontally">
+            <FlipHorizontal2 size={14} />
+          </button>
+          <button onClick={() => setSettings((prev) => ({ ...prev, ...flipView(prev, false) }))} className={frameButton} title="Flip vertically">
+            <FlipVertical2 size={14} />
+          </button>
+        </div>
+      </div>
+
       {/* Pixelation */}
       <div className="space-y-3">
         <div className="flex justify-between items-center">
@@ -132,7 +353,7 @@ export const ControlPanel: React.FC<ControlPanelProps> = ({
                 <Grid size={14} /> Resolution
             </label>
             <span className="text-xs text-[#e6e0d4] font-mono bg-[#222] px-2 py-1 rounded">
-                1/{settings.pixelSize}
+                {fixedResolution ? `${fixedResolution.width}x${fixedResolution.height}` : `1/${settings.pixelSize}`}
             </span>
         </div>
         <input
@@ -142,8 +363,37 @@ export const ControlPanel: React.FC<ControlPanelProps> = ({
           step="1"
           value={settings.pixelSize}
           onChange={(e) => handleChange('pixelSize', Number(e.target.value))}
-          className="w-full h-2 bg-[#333] rounded-lg appearance-none cursor-pointer accent-[#e6e0d4]"
+          disabled={!!fixedResolution}
+          title={fixedResolution ? 'Set by the console crop preset' : undefined}
+          className="w-full h-2 bg-[#333] rounded-lg appearance-none cursor-pointer accent-[#e6e0d4] disabled:opacity-40 disabled:cursor-not-allowed"
         />
+        <div className="flex gap-2">
+          <select
+            value={settings.downscale}
+            onChange={(e) => handleChange('downscale', e.target.value as DownscaleMode)}
+            className="flex-1 min-w-0 bg-[#222] border border-[#333] rounded px-2 py-1.5 text-xs font-mono text-[#e6e0d4] focus:border-[#e6e0d4] outline-none"
+            title="Downscale filter"
+          >
+            {DOWNSCALE_MODES.map((mode) => (
+              <option key={mode.value} value={mode.value}>{mode.label}</option>
+            ))}
+          </select>
+          <div className="grid grid-cols-3 gap-1 bg-[#222] p-1 rounded border border-[#333]" title="Pixel aspect ratio">
+            {PIXEL_ASPECTS.map((aspect) => (
+              <button
+                key={aspect}
+                onClick={() => handleChange('pixelAspect', aspect)}
+                className={`px-1.5 py-0.5 rounded text-xs font-mono transition-colors ${
+                  settings.pixelAspect === aspect
+                    ? 'bg-[#e6e0d4] text-[#1a1a1a]'
+                    : 'text-gray-400 hover:text-[#e6e0d4]'
+                }`}
+              >
+                {aspect}
+              </button>
+            ))}
+          </div>
+        </div>
       </div>
 
       {/* Threshold */}
@@ -165,6 +415,7 @@ export const ControlPanel: React.FC<ControlPanelProps> = ({
           onChange={(e) => handleChange('threshold', Number(e.target.value))}
           className="w-full h-2 bg-[#333] rounded-lg appearance-none cursor-pointer accent-[#e6e0d4]"
         />
+        {histogram && <Histogram bins={histogram} threshold={settings.threshold} />}
       </div>
 
       {/* Contrast */}
@@ -188,6 +439,78 @@ export const ControlPanel: React.FC<ControlPanelProps> = ({
         />
       </div>
 
+      {/* Pre-process */}
+      <div className="space-y-3">
+        <label className="text-sm text-gray-400 font-mono flex items-center gap-2">
+            <SlidersHorizontal size={14} /> Adjust
+        </label>
+        <SliderRow
+          label="Bright"
+          value={settings.brightness}
+          min={-100}
+          max={100}
+          step={1}
+          display={`${settings.brightness > 0 ? '+' : ''}${settings.brightness}`}
+          onChange={(val) => handleChange('brightness', val)}
+        />
+        <SliderRow
+          label="Gamma"
+          value={settings.gamma}
+          min={0.2}
+          max={3}
+          step={0.05}
+          display={settings.gamma.toFixed(2)}
+          onChange={(val) => handleChange('gamma', val)}
+        />
+        <SliderRow
+          label="Blur"
+          value={settings.blur}
+          min={0}
+          max={8}
+          step={0.25}
+          display={settings.blur.toFixed(1)}
+          onChange={(val) => handleChange('blur', val)}
+        />
+        <SliderRow
+          label="Sharp"
+          value={settings.sharpen}
+          min={0}
+          max={4}
+          step={0.1}
+          display={settings.sharpen.toFixed(1)}
+          onChange={(val) => handleChange('sharpen', val)}
+        />
+        <SliderRow
+          label="Edges"
+          value={settings.edges}
+          min={0}
+          max={1}
+          step={0.05}
+          display={`${Math.round(settings.edges * 100)}%`}
+          onChange={(val) => handleChange('edges', val)}
+        />
+        <div className="grid grid-cols-2 gap-2">
+          <select
+            value={settings.levels}
+            onChange={(e) => handleChange('levels', e.target.value as LevelsMode)}
+            className="w-full bg-[#222] border border-[#333] rounded px-2 py-1.5 text-xs font-mono text-[#e6e0d4] focus:border-[#e6e0d4] outline-none"
+          >
+            {LEVELS_MODES.map((mode) => (
+              <option key={mode.value} value={mode.value}>{mode.label}</option>
+            ))}
+          </select>
+          <select
+            value={settings.lumaMode}
+            onChange={(e) => handleChange('lumaMode', e.target.value as LumaMode)}
+            className="w-full bg-[#222] border border-[#333] rounded px-2 py-1.5 text-xs font-mono text-[#e6e0d4] focus:border-[#e6e0d4] outline-none"
+          >
+            {LUMA_MODES.map((mode) => (
+              <option key={mode.value} value={mode.value}>{mode.label}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
       {/* Dithering */}
       <div className="space-y-3">
         <div className="flex justify-between items-center">
@@ -207,44 +530,176 @@ export const ControlPanel: React.FC<ControlPanelProps> = ({
           onChange={(e) => handleChange('ditherAmount', Number(e.target.value))}
           className="w-full h-2 bg-[#333] rounded-lg appearance-none cursor-pointer accent-[#e6e0d4]"
         />
+        <select
+          value={settings.ditherMode}
+          onChange={(e) => handleChange('ditherMode', e.target.value as DitherMode)}
+          className="w-full bg-[#222] border border-[#333] rounded px-2 py-1.5 text-xs font-mono text-[#e6e0d4] focus:border-[#e6e0d4] outline-none"
+        >
+          <optgroup label="Ordered">
+            {ORDERED_DITHER_MODES.map((mode) => (
+              <option key={mode.value} value={mode.value}>{mode.label}</option>
+            ))}
+          </optgroup>
+          <optgroup label="Error Diffusion">
+            {DIFFUSION_DITHER_MODES.map((mode) => (
+              <option key={mode.value} value={mode.value}>{mode.label}</option>
+            ))}
+          </optgroup>
+        </select>
+        {!isDiffusionMode(settings.ditherMode) && (
+          <div className="flex items-center gap-3">
+            <span className="text-xs text-gray-500 font-mono uppercase w-12">Scale</span>
+            <input
+              type="range"
+              min="1"
+              max="8"
+              step="1"
+              value={settings.ditherScale}
+              onChange={(e) => handleChange('ditherScale', Number(e.target.value))}
+              className="flex-1 h-2 bg-[#333] rounded-lg appearance-none cursor-pointer accent-[#e6e0d4]"
+            />
+            <span className="text-xs text-[#e6e0d4] font-mono w-8 text-right">{settings.ditherScale}x</span>
+          </div>
+        )}
+        {settings.ditherMode === 'halftone' && (
+          <div className="flex items-center gap-3">
+            <span className="text-xs text-gray-500 font-mono uppercase w-12">Angle</span>
+            <input
+              type="range"
+              min="0"
+              max="90"
+              step="1"
+              value={settings.halftoneAngle}
+              onChange={(e) => handleChange('halftoneAngle', Number(e.target.value))}
+              className="flex-1 h-2 bg-[#333] rounded-lg appearance-none cursor-pointer accent-[#e6e0d4]"
+            />
+            <span className="text-xs text-[#e6e0d4] font-mono w-8 text-right">{settings.halftoneAngle}°</span>
+          </div>
+        )}
+        {isDiffusionMode(settings.ditherMode) && (
+          <label className="flex items-center gap-2 text-sm text-gray-300 font-mono cursor-pointer select-none">
+            <input
+                type="checkbox"
+                checked={settings.serpentine}
+                onChange={(e) => handleChange('serpentine', e.target.checked)}
+                className="w-4 h-4 rounded bg-[#333] border-gray-600 accent-[#e6e0d4]"
+            />
+            Serpentine
+          </label>
+        )}
       </div>
 
+      {/* Temporal stability, video and live sources only */}
+      {isMotionSource(fileType) && (
+        <div className="space-y-3">
+          <label className="text-sm text-gray-400 font-mono flex items-center gap-2">
+              <Film size={14} /> Flicker
+          </label>
+          <div className="grid grid-cols-3 gap-1 bg-[#222] p-1 rounded border border-[#333]">
+              {TEMPORAL_MODES.map((mode) => (
+                  <button
+                      key={mode.value}
+                      onClick={() => handleChange('temporal', mode.value)}
+                      className={`py-1 rounded text-xs font-mono uppercase transition-colors ${
+                          settings.temporal === mode.value
+                              ? 'bg-[#e6e0d4] text-[#1a1a1a]'
+                              : 'text-gray-400 hover:text-[#e6e0d4]'
+                      }`}
+                  >
+                      {mode.label}
+                  </button>
+              ))}
+          </div>
+          {settings.temporal !== 'off' && (
+            <SliderRow
+              label="Band"
+              value={settings.temporalBand}
+              min={0}
+              max={64}
+              step={1}
+              display={`±${settings.temporalBand}`}
+              onChange={(val) => handleChange('temporalBand', val)}
+            />
+          )}
+          {settings.ditherMode === 'blue-noise' && (
+            <label className="flex items-center gap-2 text-sm text-gray-300 font-mono cursor-pointer select-none">
+              <input
+                  type="checkbox"
+                  checked={settings.animateNoise}
+                  onChange={(e) => handleChange('animateNoise', e.target.checked)}
+                  className="w-4 h-4 rounded bg-[#333] border-gray-600 accent-[#e6e0d4]"
+              />
+              Animate Noise
+            </label>
+          )}
+        </div>
+      )}
+
       {/* Colors */}
       <div className="space-y-4 border-t border-[#333] pt-4">
         <label className="text-sm text-gray-400 font-mono flex items-center gap-2 mb-2">
             <Droplet size={14} /> Palette
         </label>
 
-        {/* Presets Grid */}
-        <div className="grid grid-cols-6 gap-2 mb-2">
-            {COLOR_PRESETS.map((preset) => (
+        {/* Mode Toggle */}
+        <div className="grid grid-cols-2 gap-1 bg-[#222] p-1 rounded border border-[#333]">
+            {(['duotone', 'palette'] as PaletteMode[]).map((mode) => (
                 <button
-                    key={preset.name}
-                    onClick={() => applyPreset(preset.dark, preset.light)}
-                    className="w-full aspect-square rounded border border-[#444] hover:border-[#fff] transition-all relative group overflow-hidden"
-                    title={preset.name}
+                    key={mode}
+                    onClick={() => handleChange('paletteMode', mode)}
+                    className={`py-1 rounded text-xs font-mono uppercase transition-colors ${
+                        settings.paletteMode === mode
+                            ? 'bg-[#e6e0d4] text-[#1a1a1a]'
+                            : 'text-gray-400 hover:text-[#e6e0d4]'
+                    }`}
                 >
-                    <div className="absolute inset-0 flex">
-                        <div className="w-1/2 h-full" style={{ backgroundColor: preset.dark }} />
-                        <div className="w-1/2 h-full" style={{ backgroundColor: preset.light }} />
-                    </div>
+                    {mode === 'duotone' ? 'Duotone' : 'Palette'}
                 </button>
             ))}
         </div>
-        
-        {/* Advanced Pickers */}
-        <div className="grid grid-cols-2 gap-3">
-            <ColorPickerInput 
-                label="Dark" 
-                value={settings.colorDark} 
-                onChange={(val) => handleChange('colorDark', val)} 
-            />
-            <ColorPickerInput 
-                label="Light" 
-                value={settings.colorLight} 
-                onChange={(val) => handleChange('colorLight', val)} 
+
+        {settings.paletteMode === 'duotone' ? (
+            <>
+                {/* Presets Grid */}
+                <div className="grid grid-cols-6 gap-2 mb-2">
+                    {COLOR_PRESETS.map((preset) => (
+                        <button
+                            key={preset.name}
+                            onClick={() => applyPreset(preset.dark, preset.light)}
+                            className="w-full aspect-square rounded border border-[#444] hover:border-[#fff] transition-all relative group overflow-hidden"
+                            title={preset.name}
+                        >
+                            <div className="absolute inset-0 flex">
+                                <div className="w-1/2 h-full" style={{ backgroundColor: preset.dark }} />
+                                <div className="w-1/2 h-full" style={{ backgroundColor: preset.light }} />
+                            </div>
+                        </button>
+                    ))}
+                </div>
+
+                {/* Advanced Pickers */}
+                <div className="grid grid-cols-2 gap-3">
+                    <ColorPickerInput 
+                        label="Dark" 
+                        value={settings.colorDark} 
+                        onChange={(val) => handleChange('colorDark', val)} 
+                    />
+                    <ColorPickerInput 
+                        label="Light" 
+                        value={settings.colorLight} 
+                        onChange={(val) => handleChange('colorLight', val)} 
+                    />
+                </div>
+            </>
+        ) : (
+            <PaletteEditor
+                palette={settings.palette}
+                colorSpace={settings.colorSpace}
+                onPaletteChange={(val) => handleChange('palette', val)}
+                onColorSpaceChange={(val) => handleChange('colorSpace', val)}
+                onExtractPalette={onExtractPalette}
             />
-        </div>
+        )}
 
         <div className="flex items-center gap-3 pt-2">
              <label className="flex items-center gap-2 text-sm text-gray-300 font-mono cursor-pointer select-none">
@@ -256,18 +711,154 @@ export const ControlPanel: React.FC<ControlPanelProps> = ({
                 />
                 Invert
             </label>
-             <label className="flex items-center gap-2 text-sm text-gray-300 font-mono cursor-pointer select-none">
-                <input
-                    type="checkbox"
-                    checked={settings.gridLine}
-                    onChange={(e) => handleChange('gridLine', e.target.checked)}
-                    className="w-4 h-4 rounded bg-[#333] border-gray-600 accent-[#e6e0d4]"
-                />
-                Scanlines
-            </label>
         </div>
       </div>
 
+      {/* Alpha */}
+      <div className="space-y-3 border-t border-[#333] pt-4">
+        <label className="text-sm text-gray-400 font-mono flex items-center gap-2">
+            <Layers size={14} /> Alpha
+        </label>
+
+        <div className="grid grid-cols-3 gap-1 bg-[#222] p-1 rounded border border-[#333]">
+            {ALPHA_MODES.map((mode) => (
+                <button
+                    key={mode.value}
+                    onClick={() => handleChange('alphaMode', mode.value)}
+                    className={`py-1 rounded text-xs font-mono uppercase transition-colors ${
+                        settings.alphaMode === mode.value
+                            ? 'bg-[#e6e0d4] text-[#1a1a1a]'
+                            : 'text-gray-400 hover:text-[#e6e0d4]'
+                    }`}
+                >
+                    {mode.label}
+                </button>
+            ))}
+        </div>
+
+        {settings.alphaMode !== 'opaque' && (
+          <div className="flex items-center gap-3">
+            <span className="text-xs text-gray-500 font-mono uppercase w-12">Cut</span>
+            <input
+              type="range"
+              min="1"
+              max="255"
+              step="1"
+              value={settings.alphaThreshold}
+              onChange={(e) => handleChange('alphaThreshold', Number(e.target.value))}
+              className="flex-1 h-2 bg-[#333] rounded-lg appearance-none cursor-pointer accent-[#e6e0d4]"
+            />
+            <span className="text-xs text-[#e6e0d4] font-mono w-8 text-right">{settings.alphaThreshold}</span>
+          </div>
+        )}
+
+        {/* Transparent palette slot */}
+        <div className="space-y-2">
+          <span className="text-xs text-gray-500 font-mono uppercase">Transparent Color</span>
+          <div className="flex flex-wrap gap-1">
+            <button
+              onClick={() => handleChange('transparentColor', null)}
+              className={`px-2 h-6 rounded text-xs font-mono border transition-colors ${
+                settings.transparentColor === null
+                  ? 'bg-[#e6e0d4] text-[#1a1a1a] border-[#e6e0d4]'
+                  : 'border-[#333] text-gray-400 hover:text-[#e6e0d4]'
+              }`}
+            >
+              None
+            </button>
+            {activePalette.map((color, i) => (
+              <button
+                key={`${color}-${i}`}
+                onClick={() => handleChange('transparentColor', color)}
+                title={color}
+                className={`w-6 h-6 rounded border-2 transition-colors ${
+                  settings.transparentColor?.toLowerCase() === color.toLowerCase()
+                    ? 'border-[#e6e0d4]'
+                    : 'border-[#333] hover:border-gray-500'
+                }`}
+                style={{ backgroundColor: color }}
+              />
+            ))}
+          </div>
+        </div>
+      </div>
+
+      {/* Display emulation, drawn over the preview and exports */}
+      <div className="space-y-3 border-t border-[#333] pt-4">
+        <label className="text-sm text-gray-400 font-mono flex items-center gap-2">
+            <Tv size={14} /> Display
+        </label>
+
+        <div className="space-y-2">
+          <label className="flex items-center gap-2 text-sm text-gray-300 font-mono cursor-pointer select-none">
+            <input
+                type="checkbox"
+                checked={settings.gridLine}
+                onChange={(e) => handleChange('gridLine', e.target.checked)}
+                className="w-4 h-4 rounded bg-[#333] border-gray-600 accent-[#e6e0d4]"
+            />
+            Scanlines
+          </label>
+          {settings.gridLine && (
+            <>
+              <SliderRow
+                label="Amt"
+                value={settings.scanlineIntensity}
+                min={0.05}
+                max={1}
+                step={0.05}
+                display={`${Math.round(settings.scanlineIntensity * 100)}%`}
+                onChange={(val) => handleChange('scanlineIntensity', val)}
+              />
+              <SliderRow
+                label="Gap"
+                value={settings.scanlineSpacing}
+                min={2}
+                max={8}
+                step={1}
+                display={`${settings.scanlineSpacing}px`}
+                onChange={(val) => handleChange('scanlineSpacing', val)}
+              />
+            </>
+          )}
+        </div>
+
+        <div className="space-y-2">
+          <div className="grid grid-cols-3 gap-1 bg-[#222] p-1 rounded border border-[#333]">
+              {PHOSPHOR_MASKS.map((mask) => (
+                  <button
+                      key={mask.value}
+                      onClick={() => handleChange('phosphorMask', mask.value)}
+                      className={`py-1 rounded text-xs font-mono uppercase transition-colors ${
+                          settings.phosphorMask === mask.value
+                              ? 'bg-[#e6e0d4] text-[#1a1a1a]'
+                              : 'text-gray-400 hover:text-[#e6e0d4]'
+                      }`}
+                  >
+                      {mask.label}
+                  </button>
+              ))}
+          </div>
+          {settings.phosphorMask !== 'none' && (
+            <SliderRow
+              label="Amt"
+              value={settings.maskIntensity}
+              min={0.05}
+              max={1}
+              step={0.05}
+              display={`${Math.round(settings.maskIntensity * 100)}%`}
+              onChange={(val) => handleChange('maskIntensity', val)}
+            />
+          )}
+        </div>
+
+        <EffectToggle label="Curvature" value={settings.curvature} onChange={(val) => handleChange('curvature', val)} />
+        <EffectToggle label="Vignette" value={settings.vignette} onChange={(val) => handleChange('vignette', val)} />
+        <EffectToggle label="Bloom" value={settings.bloom} onChange={(val) => handleChange('bloom', val)} />
+        <EffectToggle label="Chromatic Aberration" value={settings.chromatic} onChange={(val) => handleChange('chromatic', val)} />
+        <EffectToggle label="LCD Grid" value={settings.lcdGrid} onChange={(val) => handleChange('lcdGrid', val)} />
+      </div>
+
       <div className="mt-auto pt-6 flex flex-col gap-3">
         <button
             onClick={onDownloadImage}
@@ -276,7 +867,7 @@ export const ControlPanel: React.FC<ControlPanelProps> = ({
             <Camera size={16} /> Capture Image
         </button>
 
-        {fileType === 'video' && (
+        {isMotionSource(fileType) && (
             <button
                 onClick={onToggleRecord}
                 className={`
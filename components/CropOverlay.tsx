@@ -0,0 +1,156 @@
+import React, { useRef, useState } from 'react';
+import { CropRect } from '../types';
+import { fitCropRect } from '../utils/crop';
+import { Check, Maximize2 } from 'lucide-react';
+
+interface CropOverlayProps {
+  crop: CropRect; // Fractions of the frame shown underneath
+  ratio: number | null; // Width:height in frame pixels, null for a free crop
+  frameW: number;
+  frameH: number;
+  // Called once per drag, with the finished rect
+  onChange: (crop: CropRect) => void;
+  onReset: () => void;
+  onDone: () => void;
+}
+
+type Handle = 'move' | 'nw' | 'ne' | 'sw' | 'se';
+
+const CORNERS: { handle: Handle; cursor: string; left: string; top: string }[] = [
+  { handle: 'nw', cursor: 'nwse-resize', left: '0%', top: '0%' },
+  { handle: 'ne', cursor: 'nesw-resize', left: '100%', top: '0%' },
+  { handle: 'sw', cursor: 'nesw-resize', left: '0%', top: '100%' },
+  { handle: 'se', cursor: 'nwse-resize', left: '100%', top: '100%' },
+];
+
+// Smallest crop side, as a fraction of the frame
+const MIN_SIDE = 0.02;
+
+// Rule-of-thirds guides, as percentages of the crop
+const THIRDS = ['33.333%', '66.667%'];
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+/**
+ * Crop rectangle over the uncropped source: drag inside to move, drag a corner to resize.
+ * Corners keep the preset's shape when one is chosen. Edits stay local until the drag ends,
+ * so the conversion only reruns once per gesture.
+ */
+export const CropOverlay: React.FC<CropOverlayProps> = ({ crop, ratio, frameW, frameH, onChange, onReset, onDone }) => {
+  const boxRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<{ handle: Handle; x: number; y: number; start: CropRect } | null>(null);
+  const [draft, setDraft] = useState<CropRect | null>(null);
+  const rect = draft ?? crop;
+
+  const startDrag = (handle: Handle) => (e: React.PointerEvent<HTMLDivElement>) => {
+    if (e.button !== 0) return;
+    // Handles sit inside the rect, and nothing underneath may pan
+    e.stopPropagation();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragRef.current = { handle, x: e.clientX, y: e.clientY, start: rect };
+  };
+
+  const handleMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const drag = dragRef.current;
+    const box = boxRef.current?.getBoundingClientRect();
+    if (!drag || !box) return;
+    const dx = (e.clientX - drag.x) / box.width;
+    const dy = (e.clientY - drag.y) / box.height;
+    const { start } = drag;
+
+    if (drag.handle === 'move') {
+      setDraft({
+        ...start,
+        x: clamp(start.x + dx, 0, 1 - start.width),
+        y: clamp(start.y + dy, 0, 1 - start.height),
+      });
+      return;
+    }
+
+    // The opposite corner stays put
+    const west = drag.handle.endsWith('w');
+    const north = drag.handle.startsWith('n');
+    const anchorX = west ? start.x + start.width : start.x;
+    const anchorY = north ? start.y + start.height : start.y;
+    const cornerX = west
+      ? clamp(start.x + dx, 0, anchorX - MIN_SIDE)
+      : clamp(start.x + start.width + dx, anchorX + MIN_SIDE, 1);
+    const cornerY = north
+      ? clamp(start.y + dy, 0, anchorY - MIN_SIDE)
+      : clamp(start.y + start.height + dy, anchorY + MIN_SIDE, 1);
+
+    let width = Math.abs(cornerX - anchorX);
+    let height = Math.abs(cornerY - anchorY);
+    if (ratio) {
+      // Only ever shrinks a side, so the rect stays inside the frame
+      ({ width, height } = fitCropRect({ x: 0, y: 0, width, height }, (ratio * frameH) / frameW));
+    }
+    setDraft({ x: west ? anchorX - width : anchorX, y: north ? anchorY - height : anchorY, width, height });
+  };
+
+  const handleEnd = () => {
+    if (!dragRef.current) return;
+    dragRef.current = null;
+    if (draft) onChange(draft);
+    setDraft(null);
+  };
+
+  return (
+    <div
+      ref={boxRef}
+      className="absolute inset-0 touch-none"
+      style={{ zIndex: 2 }}
+      onPointerMove={handleMove}
+      onPointerUp={handleEnd}
+      onPointerCancel={handleEnd}
+    >
+      <div
+        className="absolute border border-[#e6e0d4] cursor-move"
+        style={{
+          left: `${rect.x * 100}%`,
+          top: `${rect.y * 100}%`,
+          width: `${rect.width * 100}%`,
+          height: `${rect.height * 100}%`,
+          // Shades everything outside the crop
+          boxShadow: '0 0 0 9999px rgba(0,0,0,0.6)',
+        }}
+        onPointerDown={startDrag('move')}
+      >
+        {THIRDS.map((at) => (
+          <React.Fragment key={at}>
+            <div className="absolute top-0 bottom-0 w-px bg-[#e6e0d4]/30 pointer-events-none" style={{ left: at }} />
+            <div className="absolute left-0 right-0 h-px bg-[#e6e0d4]/30 pointer-events-none" style={{ top: at }} />
+          </React.Fragment>
+        ))}
+        {CORNERS.map((corner) => (
+          <div
+            key={corner.handle}
+            className="absolute w-3 h-3 -ml-1.5 -mt-1.5 bg-[#e6e0d4] border border-[#1a1a1a]"
+            style={{ left: corner.left, top: corner.top, cursor: corner.cursor }}
+            onPointerDown={startDrag(corner.handle)}
+          />
+        ))}
+        <span className="absolute top-1 left-1 bg-black/70 px-2 py-0.5 rounded text-[10px] font-mono text-gray-300 pointer-events-none">
+          {Math.round(rect.width * frameW)}×{Math.round(rect.height * frameH)}
+        </span>
+      </div>
+
+      <div className="absolute top-2 right-2 flex gap-1">
+        <button
+          onClick={onReset}
+          className="bg-black/80 border border-[#333] px-2 py-1 rounded text-[10px] font-mono text-gray-400 hover:text-[#e6e0d4] flex items-center gap-1 transition-colors"
+          title="Crop to the whole frame"
+        >
+          <Maximize2 size={10} /> FULL
+        </button>
+        <button
+          onClick={onDone}
+          className="bg-[#e6e0d4] px-2 py-1 rounded text-[10px] font-mono text-[#1a1a1a] flex items-center gap-1"
+          title="Finish cropping"
+        >
+          <Check size={10} /> DONE
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -1,13 +1,32 @@
-import React, { useRef, useState } from 'react';
-import { Upload, FileImage, FileVideo } from 'lucide-react';
+import React, { useEffect, useRef, useState } from 'react';
+import { collectDroppedFiles, fromFileList, isMediaFile, SourceFile } from '../utils/fileDrop';
+import { Upload, FileImage, FileVideo, FolderOpen } from 'lucide-react';
 
 interface DropzoneProps {
   onFileSelect: (file: File) => void;
+  onFilesSelect?: (files: SourceFile[]) => void;
 }
 
-export const Dropzone: React.FC<DropzoneProps> = ({ onFileSelect }) => {
+export const Dropzone: React.FC<DropzoneProps> = ({ onFileSelect, onFilesSelect }) => {
   const [isDragging, setIsDragging] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const folderInputRef = useRef<HTMLInputElement>(null);
+
+  // Not in React's input typings
+  useEffect(() => {
+    folderInputRef.current?.setAttribute('webkitdirectory', '');
+  }, []);
+
+  // One file opens the editor, several (or a folder) go to the batch queue
+  const handleFiles = (files: SourceFile[]) => {
+    const media = files.filter((f) => isMediaFile(f.file));
+    if (media.length === 0) return;
+    if (media.length === 1 || !onFilesSelect) {
+      onFileSelect(media[0].file);
+    } else {
+      onFilesSelect(media);
+    }
+  };
 
   const handleDragOver = (e: React.DragEvent) => {
     e.preventDefault();
@@ -21,9 +40,9 @@ export const Dropzone: React.FC<DropzoneProps> = ({ onFileSelect }) => {
   const handleDrop = (e: React.DragEvent) => {
     e.preventDefault();
     setIsDragging(false);
-    if (e.dataTransfer.files && e.dataTransfer.files.length > 0) {
-      onFileSelect(e.dataTransfer.files[0]);
-    }
+    collectDroppedFiles(e.dataTransfer)
+      .then(handleFiles)
+      .catch((err) => console.error('Failed to read dropped files', err));
   };
 
   const handleClick = () => {
@@ -32,8 +51,10 @@ export const Dropzone: React.FC<DropzoneProps> = ({ onFileSelect }) => {
 
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files && e.target.files.length > 0) {
-      onFileSelect(e.target.files[0]);
+      handleFiles(fromFileList(e.target.files));
     }
+    // Allow picking the same selection again
+    e.target.value = '';
   };
 
   return (
@@ -58,7 +79,9 @@ export const Dropzone: React.FC<DropzoneProps> = ({ onFileSelect }) => {
         onChange={handleInputChange}
         className="hidden"
         accept="image/*,video/*"
+        multiple={!!onFilesSelect}
       />
+      <input type="file" ref={folderInputRef} onChange={handleInputChange} className="hidden" />
       
       <div className={`p-4 rounded-full ${isDragging ? 'bg-[#333]' : 'bg-[#1a1a1a]'}`}>
         <Upload size={32} className="text-[#e6e0d4]" />
@@ -71,6 +94,17 @@ export const Dropzone: React.FC<DropzoneProps> = ({ onFileSelect }) => {
         <p className="text-sm text-gray-500 font-mono">
           Drag & drop or click to browse
         </p>
+        {onFilesSelect && (
+          <button
+            onClick={(e) => {
+              e.stopPropagation();
+              folderInputRef.current?.click();
+            }}
+            className="mt-2 text-xs text-gray-500 font-mono hover:text-[#e6e0d4] transition-colors inline-flex items-center gap-1"
+          >
+            <FolderOpen size={12} /> or convert a whole folder
+          </button>
+        )}
       </div>
 
       <div className="flex gap-4 text-xs text-gray-600 font-mono mt-2">
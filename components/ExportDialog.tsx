@@ -0,0 +1,578 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { RetroSettings } from '../types';
+import {
+  ExportScale,
+  FrameSource,
+  getArtSize,
+  getExportSize,
+  getPixelAspect,
+  getSourceSize,
+  renderArtIndexed,
+  renderExport,
+} from '../utils/render';
+import { AnimationFormat, renderAnimation } from '../utils/animationExport';
+import { renderVideo, supportsVideoExport } from '../utils/videoExport';
+import { supportsAudioExport } from '../utils/audioExport';
+import { detectFrameRate } from '../utils/videoFrames';
+import { indexedToSvg } from '../utils/svg';
+import { hasPostEffects } from '../utils/postEffects';
+import { downloadBlob } from '../utils/download';
+import { Camera, Film, Video, X } from 'lucide-react';
+
+export type ExportTab = 'image' | 'animation' | 'video';
+
+type ImageFormat = 'png' | 'svg';
+
+interface ExportDialogProps {
+  source: FrameSource;
+  settings: RetroSettings;
+  initialTab?: ExportTab;
+  onClose: () => void;
+}
+
+const TAB_LABELS: Record<ExportTab, string> = {
+  image: 'Frame',
+  animation: 'GIF / APNG',
+  video: 'WebM',
+};
+
+const MULTIPLES = [1, 2, 4, 8];
+const FRAME_RATES = [6, 8, 10, 12, 15, 24, 30];
+const VIDEO_FRAME_RATES = [24, 25, 30, 50, 60];
+const BITRATES = [2, 5, 10, 20]; // Mbps
+
+const inputClass =
+  'bg-[#222] border border-[#333] rounded px-2 py-1.5 text-xs font-mono text-[#e6e0d4] focus:border-[#e6e0d4] outline-none';
+
+const toggleClass = (active: boolean) =>
+  `py-1.5 rounded text-xs font-mono border transition-colors ${
+    active ? 'bg-[#e6e0d4] text-[#1a1a1a] border-[#e6e0d4]' : 'border-[#333] text-gray-400 hover:text-[#e6e0d4]'
+  }`;
+
+const primaryButtonClass =
+  'w-full py-3 bg-[#e6e0d4] text-[#1a1a1a] font-bold font-mono text-sm uppercase tracking-wider hover:bg-white transition-colors rounded shadow-[4px_4px_0px_0px_rgba(255,255,255,0.2)] active:shadow-none active:translate-x-[2px] active:translate-y-[2px] disabled:opacity-40 flex items-center justify-center gap-2';
+
+const RangeInputs = ({
+  start,
+  end,
+  duration,
+  disabled,
+  onChange,
+}: {
+  start: number;
+  end: number;
+  duration: number;
+  disabled: boolean;
+  onChange: (start: number, end: number) => void;
+}) => (
+  <div className="grid grid-cols-2 gap-3">
+    <label className="flex flex-col gap-1.5">
+      <span className="text-xs text-gray-500 font-mono uppercase">In (s)</span>
+      <input
+        type="number"
+        min={0}
+        max={end}
+        step={0.1}
+        value={start}
+        disabled={disabled}
+        onChange={(e) => onChange(Math.max(0, Math.min(end, Number(e.target.value) || 0)), end)}
+        className={inputClass}
+      />
+    </label>
+    <label className="flex flex-col gap-1.5">
+      <span className="text-xs text-gray-500 font-mono uppercase">Out (s)</span>
+      <input
+        type="number"
+        min={start}
+        max={duration}
+        step={0.1}
+        value={end}
+        disabled={disabled}
+        onChange={(e) => onChange(start, Math.max(start, Math.min(duration, Number(e.target.value) || 0)))}
+        className={inputClass}
+      />
+    </label>
+  </div>
+);
+
+const ScaleButtons = ({
+  value,
+  disabled,
+  onChange,
+}: {
+  value: number;
+  disabled: boolean;
+  onChange: (factor: number) => void;
+}) => (
+  <div className="space-y-2">
+    <span className="text-xs text-gray-500 font-mono uppercase">Scale</span>
+    <div className="grid grid-cols-4 gap-1">
+      {MULTIPLES.map((factor) => (
+        <button key={factor} onClick={() => onChange(factor)} disabled={disabled} className={toggleClass(value === factor)}>
+          {factor}x
+        </button>
+      ))}
+    </div>
+  </div>
+);
+
+const EffectsCheckbox = ({
+  checked,
+  disabled,
+  onChange,
+}: {
+  checked: boolean;
+  disabled?: boolean;
+  onChange: (checked: boolean) => void;
+}) => (
+  <label className="flex items-center gap-2 text-sm text-gray-300 font-mono cursor-pointer select-none">
+    <input
+      type="checkbox"
+      checked={checked}
+      disabled={disabled}
+      onChange={(e) => onChange(e.target.checked)}
+      className="w-4 h-4 rounded bg-[#333] border-gray-600 accent-[#e6e0d4]"
+    />
+    Display Effects
+  </label>
+);
+
+export const ExportDialog: React.FC<ExportDialogProps> = ({ source, settings, initialTab, onClose }) => {
+  const sourceSize = getSourceSize(source);
+  const art = getArtSize(sourceSize.width, sourceSize.height, settings);
+  const aspect = getPixelAspect(settings);
+  // Live streams can't be seeked, they only get the still tab
+  const isVideo = source instanceof HTMLVideoElement && !source.srcObject;
+  const duration = isVideo && Number.isFinite(source.duration) ? source.duration : 0;
+
+  const tabs: ExportTab[] = ['image'];
+  if (isVideo) tabs.push('animation');
+  if (isVideo && supportsVideoExport()) tabs.push('video');
+  const [tab, setTab] = useState<ExportTab>(initialTab && tabs.includes(initialTab) ? initialTab : 'image');
+
+  // Image options
+  const [scale, setScale] = useState<ExportScale>({ mode: 'multiple', factor: 1 });
+  const [targetWidth, setTargetWidth] = useState(art.width * aspect.x * 4);
+  const [effects, setEffects] = useState(hasPostEffects(settings));
+  const [imageFormat, setImageFormat] = useState<ImageFormat>('png');
+
+  // Animation options
+  const [format, setFormat] = useState<AnimationFormat>('gif');
+  const [animationRange, setAnimationRange] = useState({ start: 0, end: Math.min(duration, 5) });
+  const [fps, setFps] = useState(12);
+  const [loopCount, setLoopCount] = useState(0);
+  const [dedupe, setDedupe] = useState(true);
+  const [animationScale, setAnimationScale] = useState(1);
+
+  // Video options, the whole clip at the source frame rate by default
+  const [videoRange, setVideoRange] = useState({ start: 0, end: duration });
+  // Null while measuring, 'unknown' when the rate couldn't be measured and has to be picked
+  const [sourceFps, setSourceFps] = useState<number | 'unknown' | null>(null);
+  const [videoFps, setVideoFps] = useState<number | null>(null);
+  const [videoScale, setVideoScale] = useState(4);
+  const [bitrate, setBitrate] = useState(5);
+  const [includeAudio, setIncludeAudio] = useState(supportsAudioExport());
+
+  const [progress, setProgress] = useState<number | null>(null);
+  // Still image export, large upscales can take a moment to encode
+  const [exporting, setExporting] = useState(false);
+  const abortRef = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    if (!isVideo || !tabs.includes('video')) return;
+    let cancelled = false;
+    detectFrameRate(source.currentSrc)
+      .then((rate) => {
+        if (!cancelled) setSourceFps(rate ?? 'unknown');
+      })
+      .catch(() => {
+        if (!cancelled) setSourceFps('unknown');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [source]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  const output = getExportSize(art.width, art.height, scale, aspect);
+  const frameCount = Math.max(1, Math.round((animationRange.end - animationRange.start) * fps));
+  const effectiveVideoFps = videoFps ?? (sourceFps === 'unknown' ? null : sourceFps);
+
+  const exportSvg = () => {
+    const svg = indexedToSvg(renderArtIndexed(source, settings), {
+      scale: output.width / (art.width * aspect.x),
+      aspect,
+    });
+    downloadBlob(new Blob([svg], { type: 'image/svg+xml' }), `retrobit-${Date.now()}.svg`);
+  };
+
+  const exportPng = async () => {
+    const canvas = renderExport(source, settings, { scale, effects });
+    const suffix = scale.mode === 'multiple' ? `${scale.factor}x` : `${output.width}w`;
+    const blob = await new Promise<Blob>((resolve, reject) =>
+      canvas.toBlob((b) => (b ? resolve(b) : reject(new Error('PNG encoding failed'))), 'image/png')
+    );
+    downloadBlob(blob, `retrobit-${Date.now()}-${suffix}.png`);
+  };
+
+  const handleExport = async () => {
+    setExporting(true);
+    try {
+      if (imageFormat === 'svg') exportSvg();
+      else await exportPng();
+      onClose();
+    } catch (err) {
+      console.error('Export failed', err);
+      alert(`Export failed: ${(err as Error).message}`);
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  // Shared progress / cancel handling for the offline renders
+  const runRender = async (
+    render: (onProgress: (done: number, total: number) => void, signal: AbortSignal) => Promise<Blob>,
+    fileName: string
+  ) => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setProgress(0);
+    try {
+      const blob = await render((done, total) => setProgress(done / total), controller.signal);
+      downloadBlob(blob, fileName);
+      onClose();
+    } catch (err) {
+      if ((err as Error).name !== 'AbortError') {
+        console.error('Export failed', err);
+        alert(`Export failed: ${(err as Error).message}`);
+      }
+    } finally {
+      abortRef.current = null;
+      setProgress(null);
+    }
+  };
+
+  const handleExportAnimation = () => {
+    if (!isVideo) return;
+    runRender(
+      (onProgress, signal) =>
+        renderAnimation(
+          source.currentSrc,
+          settings,
+          { format, ...animationRange, fps, loopCount, dedupe, scale: animationScale },
+          onProgress,
+          signal
+        ),
+      `retrobit-${Date.now()}.${format === 'gif' ? 'gif' : 'png'}`
+    );
+  };
+
+  const handleExportVideo = () => {
+    if (!isVideo || !effectiveVideoFps) return;
+    runRender(
+      (onProgress, signal) =>
+        renderVideo(
+          source.currentSrc,
+          settings,
+          { ...videoRange, fps: effectiveVideoFps, scale: videoScale, effects, bitrate: bitrate * 1000000, audio: includeAudio },
+          onProgress,
+          signal
+        ),
+      `retrobit-video-${Date.now()}.webm`
+    );
+  };
+
+  const handleClose = () => {
+    abortRef.current?.abort();
+    onClose();
+  };
+
+  const isRendering = progress !== null;
+
+  const progressBar = isRendering && (
+    <div className="space-y-2">
+      <div className="h-2 bg-[#222] rounded overflow-hidden border border-[#333]">
+        <div className="h-full bg-[#e6e0d4] transition-all" style={{ width: `${Math.round(progress * 100)}%` }} />
+      </div>
+      <button
+        onClick={() => abortRef.current?.abort()}
+        className="w-full py-2 bg-[#222] text-red-400 border border-[#333] hover:border-red-400 font-mono text-xs uppercase rounded transition-colors"
+      >
+        Cancel ({Math.round(progress * 100)}%)
+      </button>
+    </div>
+  );
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/70 backdrop-blur-sm flex items-center justify-center p-4" onClick={handleClose}>
+      <div
+        className="w-full max-w-sm bg-[#111] border border-[#333] rounded-lg p-6 flex flex-col gap-5 shadow-2xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between">
+          <h2 className="text-lg font-bold text-[#e6e0d4] tracking-tighter font-mono">EXPORT</h2>
+          <button onClick={handleClose} className="text-gray-500 hover:text-[#e6e0d4] transition-colors">
+            <X size={18} />
+          </button>
+        </div>
+
+        {tabs.length > 1 && (
+          <div className={`grid ${tabs.length === 3 ? 'grid-cols-3' : 'grid-cols-2'} gap-1 bg-[#222] p-1 rounded border border-[#333]`}>
+            {tabs.map((t) => (
+              <button
+                key={t}
+                onClick={() => setTab(t)}
+                disabled={isRendering}
+                className={`py-1 rounded text-xs font-mono uppercase transition-colors ${
+                  tab === t ? 'bg-[#e6e0d4] text-[#1a1a1a]' : 'text-gray-400 hover:text-[#e6e0d4]'
+                }`}
+              >
+                {TAB_LABELS[t]}
+              </button>
+            ))}
+          </div>
+        )}
+
+        {tab === 'image' && (
+          <>
+            {/* Format */}
+            <div className="grid grid-cols-2 gap-1">
+              {(['png', 'svg'] as ImageFormat[]).map((f) => (
+                <button key={f} onClick={() => setImageFormat(f)} className={toggleClass(imageFormat === f)}>
+                  {f.toUpperCase()}
+                </button>
+              ))}
+            </div>
+
+            {/* Scale */}
+            <div className="space-y-2">
+              <span className="text-xs text-gray-500 font-mono uppercase">Scale</span>
+              <div className="grid grid-cols-5 gap-1">
+                {MULTIPLES.map((factor) => (
+                  <button
+                    key={factor}
+                    onClick={() => setScale({ mode: 'multiple', factor })}
+                    className={toggleClass(scale.mode === 'multiple' && scale.factor === factor)}
+                  >
+                    {factor}x
+                  </button>
+                ))}
+                <button
+                  onClick={() => setScale({ mode: 'width', width: targetWidth })}
+                  className={toggleClass(scale.mode === 'width')}
+                >
+                  W
+                </button>
+              </div>
+              {scale.mode === 'width' && (
+                <div className="flex items-center gap-2">
+                  <input
+                    type="number"
+                    min={1}
+                    value={targetWidth}
+                    onChange={(e) => {
+                      const width = Math.max(1, Number(e.target.value) || 1);
+                      setTargetWidth(width);
+                      setScale({ mode: 'width', width });
+                    }}
+                    className={`flex-1 ${inputClass}`}
+                  />
+                  <span className="text-xs text-gray-500 font-mono">PX WIDE</span>
+                </div>
+              )}
+            </div>
+
+            {imageFormat === 'png' ? (
+              <EffectsCheckbox checked={effects} disabled={!hasPostEffects(settings)} onChange={setEffects} />
+            ) : (
+              <p className="text-xs font-mono text-gray-500">
+                One path per color. The transparent color from the Alpha controls is left out.
+              </p>
+            )}
+
+            <div className="text-xs font-mono text-gray-500 space-y-1 border-t border-[#333] pt-4">
+              <div className="flex justify-between">
+                <span>ART PIXELS</span>
+                <span className="text-[#e6e0d4]">{art.width} × {art.height}</span>
+              </div>
+              <div className="flex justify-between">
+                <span>OUTPUT</span>
+                <span className="text-[#e6e0d4]">{output.width} × {output.height}</span>
+              </div>
+            </div>
+
+            <button onClick={handleExport} disabled={exporting} className={primaryButtonClass}>
+              <Camera size={16} /> {exporting ? 'Exporting…' : `Download ${imageFormat.toUpperCase()}`}
+            </button>
+          </>
+        )}
+
+        {tab === 'animation' && (
+          <>
+            {/* Format */}
+            <div className="grid grid-cols-2 gap-1">
+              {(['gif', 'apng'] as AnimationFormat[]).map((f) => (
+                <button key={f} onClick={() => setFormat(f)} disabled={isRendering} className={toggleClass(format === f)}>
+                  {f.toUpperCase()}
+                </button>
+              ))}
+            </div>
+
+            <RangeInputs
+              {...animationRange}
+              duration={duration}
+              disabled={isRendering}
+              onChange={(start, end) => setAnimationRange({ start, end })}
+            />
+
+            <div className="grid grid-cols-2 gap-3">
+              <label className="flex flex-col gap-1.5">
+                <span className="text-xs text-gray-500 font-mono uppercase">Frame Rate</span>
+                <select value={fps} disabled={isRendering} onChange={(e) => setFps(Number(e.target.value))} className={inputClass}>
+                  {FRAME_RATES.map((rate) => (
+                    <option key={rate} value={rate}>{rate} FPS</option>
+                  ))}
+                </select>
+              </label>
+              <label className="flex flex-col gap-1.5">
+                <span className="text-xs text-gray-500 font-mono uppercase">Plays (0 = ∞)</span>
+                <input
+                  type="number"
+                  min={0}
+                  max={65535}
+                  value={loopCount}
+                  disabled={isRendering}
+                  onChange={(e) => setLoopCount(Math.max(0, Math.min(65535, Math.round(Number(e.target.value) || 0))))}
+                  className={inputClass}
+                />
+              </label>
+            </div>
+
+            <ScaleButtons value={animationScale} disabled={isRendering} onChange={setAnimationScale} />
+
+            <label className="flex items-center gap-2 text-sm text-gray-300 font-mono cursor-pointer select-none">
+              <input
+                type="checkbox"
+                checked={dedupe}
+                disabled={isRendering}
+                onChange={(e) => setDedupe(e.target.checked)}
+                className="w-4 h-4 rounded bg-[#333] border-gray-600 accent-[#e6e0d4]"
+              />
+              Merge Duplicate Frames
+            </label>
+
+            <div className="text-xs font-mono text-gray-500 space-y-1 border-t border-[#333] pt-4">
+              <div className="flex justify-between">
+                <span>FRAMES</span>
+                <span className="text-[#e6e0d4]">{frameCount}</span>
+              </div>
+              <div className="flex justify-between">
+                <span>OUTPUT</span>
+                <span className="text-[#e6e0d4]">{art.width * aspect.x * animationScale} × {art.height * aspect.y * animationScale}</span>
+              </div>
+            </div>
+
+            {progressBar || (
+              <button
+                onClick={handleExportAnimation}
+                disabled={animationRange.end <= animationRange.start}
+                className={primaryButtonClass}
+              >
+                <Film size={16} /> Render {format.toUpperCase()}
+              </button>
+            )}
+          </>
+        )}
+
+        {tab === 'video' && (
+          <>
+            <RangeInputs
+              {...videoRange}
+              duration={duration}
+              disabled={isRendering}
+              onChange={(start, end) => setVideoRange({ start, end })}
+            />
+
+            <div className="grid grid-cols-2 gap-3">
+              <label className="flex flex-col gap-1.5">
+                <span className="text-xs text-gray-500 font-mono uppercase">Frame Rate</span>
+                <select
+                  value={videoFps ?? ''}
+                  disabled={isRendering}
+                  onChange={(e) => setVideoFps(e.target.value ? Number(e.target.value) : null)}
+                  className={inputClass}
+                >
+                  <option value="" disabled={sourceFps === 'unknown'}>
+                    Source{sourceFps === 'unknown' ? ' (unknown)' : sourceFps ? ` (${sourceFps})` : '…'}
+                  </option>
+                  {VIDEO_FRAME_RATES.map((rate) => (
+                    <option key={rate} value={rate}>{rate} FPS</option>
+                  ))}
+                </select>
+              </label>
+              <label className="flex flex-col gap-1.5">
+                <span className="text-xs text-gray-500 font-mono uppercase">Bitrate</span>
+                <select value={bitrate} disabled={isRendering} onChange={(e) => setBitrate(Number(e.target.value))} className={inputClass}>
+                  {BITRATES.map((rate) => (
+                    <option key={rate} value={rate}>{rate} Mbps</option>
+                  ))}
+                </select>
+              </label>
+            </div>
+
+            {sourceFps === 'unknown' && !videoFps && (
+              <p className="text-[10px] font-mono text-red-400">
+                Couldn't measure the source frame rate, pick one to export.
+              </p>
+            )}
+
+            <ScaleButtons value={videoScale} disabled={isRendering} onChange={setVideoScale} />
+
+            <EffectsCheckbox
+              checked={effects}
+              disabled={isRendering || !hasPostEffects(settings)}
+              onChange={setEffects}
+            />
+
+            <label className="flex items-center gap-2 text-sm text-gray-300 font-mono cursor-pointer select-none">
+              <input
+                type="checkbox"
+                checked={includeAudio}
+                disabled={isRendering || !supportsAudioExport()}
+                onChange={(e) => setIncludeAudio(e.target.checked)}
+                className="w-4 h-4 rounded bg-[#333] border-gray-600 accent-[#e6e0d4]"
+              />
+              Include Audio
+            </label>
+
+            <div className="text-xs font-mono text-gray-500 space-y-1 border-t border-[#333] pt-4">
+              <div className="flex justify-between">
+                <span>DURATION</span>
+                <span className="text-[#e6e0d4]">{(videoRange.end - videoRange.start).toFixed(2)} S</span>
+              </div>
+              <div className="flex justify-between">
+                <span>FRAMES</span>
+                <span className="text-[#e6e0d4]">
+                  {effectiveVideoFps ? Math.max(1, Math.round((videoRange.end - videoRange.start) * effectiveVideoFps)) : '…'}
+                </span>
+              </div>
+              <div className="flex justify-between">
+                <span>OUTPUT</span>
+                <span className="text-[#e6e0d4]">{art.width * aspect.x * videoScale} × {art.height * aspect.y * videoScale}</span>
+              </div>
+            </div>
+
+            {progressBar || (
+              <button
+                onClick={handleExportVideo}
+                disabled={videoRange.end <= videoRange.start || !effectiveVideoFps}
+                className={primaryButtonClass}
+              >
+                <Video size={16} /> Render WebM
+              </button>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,46 @@
+import React from 'react';
+
+interface HistogramProps {
+  bins: Uint32Array;
+  threshold: number;
+}
+
+const HEIGHT = 48;
+
+// Luma distribution of the current frame with the threshold marked
+export const Histogram: React.FC<HistogramProps> = ({ bins, threshold }) => {
+  // Square root keeps a single huge spike (e.g. a white background) from flattening the rest
+  let max = 0;
+  for (let i = 0; i < bins.length; i++) max = Math.max(max, Math.sqrt(bins[i]));
+
+  let below = 0;
+  let total = 0;
+  for (let i = 0; i < bins.length; i++) {
+    total += bins[i];
+    if (i <= threshold) below += bins[i];
+  }
+
+  let d = `M0 ${HEIGHT}`;
+  for (let i = 0; i < bins.length; i++) {
+    const h = max > 0 ? (Math.sqrt(bins[i]) / max) * HEIGHT : 0;
+    d += `L${i} ${HEIGHT - h}L${i + 1} ${HEIGHT - h}`;
+  }
+  d += `L256 ${HEIGHT}Z`;
+
+  return (
+    <div className="space-y-1">
+      <svg
+        viewBox={`0 0 256 ${HEIGHT}`}
+        preserveAspectRatio="none"
+        className="w-full h-12 bg-[#1a1a1a] rounded border border-[#333]"
+      >
+        <path d={d} fill="#555" />
+        <line x1={threshold} y1={0} x2={threshold} y2={HEIGHT} stroke="#e6e0d4" strokeWidth={1.5} vectorEffect="non-scaling-stroke" />
+      </svg>
+      <div className="flex justify-between text-[10px] font-mono text-gray-600">
+        <span>DARK {total > 0 ? Math.round((below / total) * 100) : 0}%</span>
+        <span>LIGHT {total > 0 ? Math.round(((total - below) / total) * 100) : 0}%</span>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,62 @@
+import React, { useState } from 'react';
+import { SettingsHistory } from '../hooks/useSettingsHistory';
+import { ChevronDown, ChevronRight, Redo2, RotateCcw, Undo2 } from 'lucide-react';
+
+interface HistoryPanelProps {
+  history: SettingsHistory;
+}
+
+export const HistoryPanel: React.FC<HistoryPanelProps> = ({ history }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const { entries, index } = history;
+
+  const iconButton =
+    'p-1.5 rounded border border-[#333] text-gray-400 hover:text-[#e6e0d4] hover:border-[#e6e0d4] disabled:opacity-40 disabled:pointer-events-none transition-colors';
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2">
+        <button
+          onClick={() => setIsOpen((open) => !open)}
+          className="flex-1 flex items-center gap-1 text-xs text-gray-500 hover:text-[#e6e0d4] font-mono uppercase transition-colors"
+        >
+          {isOpen ? <ChevronDown size={12} /> : <ChevronRight size={12} />}
+          History <span className="text-gray-600">· {index + 1}/{entries.length}</span>
+        </button>
+        <button onClick={history.undo} disabled={!history.canUndo} className={iconButton} title="Undo (Ctrl+Z)">
+          <Undo2 size={14} />
+        </button>
+        <button onClick={history.redo} disabled={!history.canRedo} className={iconButton} title="Redo (Ctrl+Shift+Z)">
+          <Redo2 size={14} />
+        </button>
+        <button onClick={history.reset} className={iconButton} title="Reset to default (undoable)">
+          <RotateCcw size={14} />
+        </button>
+      </div>
+
+      {isOpen && (
+        <div className="flex flex-col max-h-40 overflow-y-auto border border-[#333] rounded">
+          {/* Newest first, entries past the current one are redo steps */}
+          {entries
+            .map((entry, i) => ({ entry, i }))
+            .reverse()
+            .map(({ entry, i }) => (
+              <button
+                key={i}
+                onClick={() => history.jumpTo(i)}
+                className={`px-2 py-1 text-left text-xs font-mono truncate transition-colors ${
+                  i === index
+                    ? 'bg-[#e6e0d4] text-[#1a1a1a]'
+                    : i > index
+                      ? 'text-gray-600 hover:text-gray-400'
+                      : 'text-gray-400 hover:text-[#e6e0d4] hover:bg-[#222]'
+                }`}
+              >
+                {entry.label}
+              </button>
+            ))}
+        </div>
+      )}
+    </div>
+  );
+};
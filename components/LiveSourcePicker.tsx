@@ -0,0 +1,102 @@
+import React, { useEffect, useState } from 'react';
+import {
+  listCameras,
+  LiveSourceType,
+  openCamera,
+  openScreen,
+  RESOLUTIONS,
+  streamLabel,
+  supportsCamera,
+  supportsScreenCapture,
+} from '../utils/liveSource';
+import { Camera, Loader2, MonitorUp } from 'lucide-react';
+
+interface LiveSourcePickerProps {
+  onStreamStart: (stream: MediaStream, type: LiveSourceType, name: string) => void;
+}
+
+const selectClass =
+  'min-w-0 bg-[#222] border border-[#333] rounded px-2 py-1.5 text-xs font-mono text-[#e6e0d4] focus:border-[#e6e0d4] outline-none';
+
+const buttonClass =
+  'px-3 py-1.5 bg-[#222] border border-[#333] hover:border-[#666] text-[#e6e0d4] rounded text-xs font-mono uppercase flex items-center gap-2 transition-colors disabled:opacity-40';
+
+export const LiveSourcePicker: React.FC<LiveSourcePickerProps> = ({ onStreamStart }) => {
+  const [cameras, setCameras] = useState<MediaDeviceInfo[]>([]);
+  const [deviceId, setDeviceId] = useState('');
+  const [resolution, setResolution] = useState(RESOLUTIONS[1].label);
+  const [opening, setOpening] = useState<LiveSourceType | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const refreshCameras = () => {
+    listCameras()
+      .then(setCameras)
+      .catch((err) => console.error('Failed to list cameras', err));
+  };
+
+  useEffect(() => {
+    refreshCameras();
+    navigator.mediaDevices?.addEventListener('devicechange', refreshCameras);
+    return () => navigator.mediaDevices?.removeEventListener('devicechange', refreshCameras);
+  }, []);
+
+  if (!supportsCamera() && !supportsScreenCapture()) return null;
+
+  const start = async (type: LiveSourceType) => {
+    const size = RESOLUTIONS.find((r) => r.label === resolution) ?? RESOLUTIONS[1];
+    setOpening(type);
+    setError(null);
+    try {
+      const stream = type === 'camera' ? await openCamera(size, deviceId || undefined) : await openScreen(size);
+      // Device names are only readable once access was granted
+      if (type === 'camera') refreshCameras();
+      onStreamStart(stream, type, streamLabel(stream, type === 'camera' ? 'Camera' : 'Screen'));
+    } catch (err) {
+      // Closing the browser's share prompt isn't an error worth showing
+      if ((err as DOMException).name !== 'AbortError') {
+        console.error(`Failed to open ${type}`, err);
+        setError(
+          (err as DOMException).name === 'NotAllowedError'
+            ? `Access to the ${type} was denied.`
+            : `Could not open the ${type}: ${(err as Error).message}`
+        );
+      }
+    } finally {
+      setOpening(null);
+    }
+  };
+
+  return (
+    <div className="mt-6 space-y-2">
+      <div className="flex flex-wrap items-center justify-center gap-2">
+        <span className="text-xs text-gray-500 font-mono uppercase">Live</span>
+        {supportsCamera() && cameras.length > 1 && (
+          <select value={deviceId} onChange={(e) => setDeviceId(e.target.value)} className={`${selectClass} max-w-[180px]`}>
+            <option value="">Default camera</option>
+            {cameras.map((camera, i) => (
+              <option key={camera.deviceId || i} value={camera.deviceId}>
+                {camera.label || `Camera ${i + 1}`}
+              </option>
+            ))}
+          </select>
+        )}
+        <select value={resolution} onChange={(e) => setResolution(e.target.value)} className={selectClass}>
+          {RESOLUTIONS.map((r) => (
+            <option key={r.label} value={r.label}>{r.label}</option>
+          ))}
+        </select>
+        {supportsCamera() && (
+          <button onClick={() => start('camera')} disabled={opening !== null} className={buttonClass}>
+            {opening === 'camera' ? <Loader2 size={12} className="animate-spin" /> : <Camera size={12} />} Camera
+          </button>
+        )}
+        {supportsScreenCapture() && (
+          <button onClick={() => start('screen')} disabled={opening !== null} className={buttonClass}>
+            {opening === 'screen' ? <Loader2 size={12} className="animate-spin" /> : <MonitorUp size={12} />} Screen
+          </button>
+        )}
+      </div>
+      {error && <p className="text-center text-[10px] font-mono text-red-400">{error}</p>}
+    </div>
+  );
+};
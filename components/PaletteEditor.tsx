@@ -0,0 +1,315 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ColorSpace } from '../types';
+import { BUILTIN_PALETTES, MAX_PALETTE_SIZE } from '../utils/palette';
+import { QuantizeMethod } from '../utils/quantize';
+import { PALETTE_FORMATS, PaletteFormat, parsePaletteFile, serializePalette } from '../utils/paletteFormats';
+import { createUserPalette, loadUserPalettes, saveUserPalettes, UserPalette } from '../utils/paletteLibrary';
+import { downloadBlob } from '../utils/download';
+import { Plus, X, Lock, Wand2, Loader2, Upload, Download, Save } from 'lucide-react';
+
+interface PaletteEditorProps {
+  palette: string[];
+  colorSpace: ColorSpace;
+  onPaletteChange: (palette: string[]) => void;
+  onColorSpaceChange: (space: ColorSpace) => void;
+  // Undefined while there is no source to sample
+  onExtractPalette?: (method: QuantizeMethod, count: number, locked: string[]) => Promise<string[]>;
+}
+
+const QUANTIZE_METHODS: { value: QuantizeMethod; label: string }[] = [
+  { value: 'median-cut', label: 'Median Cut' },
+  { value: 'k-means', label: 'K-Means' },
+  { value: 'octree', label: 'Octree' },
+];
+
+const COLOR_SPACES: { value: ColorSpace; label: string }[] = [
+  { value: 'rgb', label: 'RGB' },
+  { value: 'weighted-rgb', label: 'Weighted RGB' },
+  { value: 'lab', label: 'CIELAB' },
+];
+
+export const PaletteEditor: React.FC<PaletteEditorProps> = ({
+  palette,
+  colorSpace,
+  onPaletteChange,
+  onColorSpaceChange,
+  onExtractPalette,
+}) => {
+  // Indices of entries kept when generating from the source
+  const [locked, setLocked] = useState<Set<number>>(new Set());
+  const [method, setMethod] = useState<QuantizeMethod>('median-cut');
+  const [count, setCount] = useState(8);
+  const [isExtracting, setIsExtracting] = useState(false);
+  const [userPalettes, setUserPalettes] = useState<UserPalette[]>(loadUserPalettes);
+  const [exportFormat, setExportFormat] = useState<PaletteFormat>('gpl');
+  const [importError, setImportError] = useState<string | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    saveUserPalettes(userPalettes);
+  }, [userPalettes]);
+
+  const toggleLock = (index: number) => {
+    setLocked((prev) => {
+      const next = new Set(prev);
+      if (next.has(index)) next.delete(index);
+      else next.add(index);
+      return next;
+    });
+  };
+
+  const applyPreset = (colors: string[]) => {
+    setLocked(new Set());
+    onPaletteChange([...colors]);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Allow picking the same file again after fixing it
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const imported = parsePaletteFile(file.name, await file.arrayBuffer());
+      setImportError(null);
+      setUserPalettes((prev) => [...prev, createUserPalette(imported)]);
+      applyPreset(imported.colors);
+    } catch (err) {
+      setImportError(`${file.name}: ${(err as Error).message}`);
+    }
+  };
+
+  const handleExport = () => {
+    const format = PALETTE_FORMATS.find((f) => f.value === exportFormat)!;
+    downloadBlob(serializePalette({ name: 'RetroBit', colors: palette }, format.value), `retrobit-palette.${format.extension}`);
+  };
+
+  const handleSave = () => {
+    const name = window.prompt('Palette name', `Palette ${userPalettes.length + 1}`);
+    if (!name) return;
+    setUserPalettes((prev) => [...prev, createUserPalette({ name, colors: palette })]);
+  };
+
+  const removeUserPalette = (id: string) => {
+    setUserPalettes((prev) => prev.filter((p) => p.id !== id));
+  };
+
+  const handleExtract = async () => {
+    if (!onExtractPalette) return;
+    const keep = palette.filter((_, i) => locked.has(i));
+    setIsExtracting(true);
+    try {
+      const result = await onExtractPalette(method, Math.max(count, keep.length), keep);
+      // Locked colors come back first
+      setLocked(new Set(keep.map((_, i) => i)));
+      onPaletteChange(result);
+    } catch (e) {
+      console.error('Palette extraction failed', e);
+      alert('Could not read colors from this source.');
+    } finally {
+      setIsExtracting(false);
+    }
+  };
+
+  const updateColor = (index: number, color: string) => {
+    onPaletteChange(palette.map((c, i) => (i === index ? color : c)));
+  };
+
+  const removeColor = (index: number) => {
+    // Keep at least two entries, one color is not a palette
+    if (palette.length <= 2) return;
+    setLocked((prev) => new Set([...prev].filter((i) => i !== index).map((i) => (i > index ? i - 1 : i))));
+    onPaletteChange(palette.filter((_, i) => i !== index));
+  };
+
+  const addColor = () => {
+    if (palette.length >= MAX_PALETTE_SIZE) return;
+    onPaletteChange([...palette, palette[palette.length - 1] ?? '#ffffff']);
+  };
+
+  return (
+    <div className="space-y-3">
+      {/* Built-in Palettes */}
+      <div className="grid grid-cols-2 gap-2">
+        {BUILTIN_PALETTES.map((preset) => (
+          <button
+            key={preset.name}
+            onClick={() => applyPreset(preset.colors)}
+            className="flex flex-col gap-1 p-1.5 rounded border border-[#333] hover:border-[#e6e0d4] transition-colors text-left"
+            title={`${preset.name} (${preset.colors.length} colors)`}
+          >
+            <div className="flex h-3 w-full rounded-sm overflow-hidden">
+              {preset.colors.map((color, i) => (
+                <div key={i} className="flex-1 h-full" style={{ backgroundColor: color }} />
+              ))}
+            </div>
+            <span className="text-[10px] font-mono text-gray-400 uppercase">{preset.name}</span>
+          </button>
+        ))}
+      </div>
+
+      {/* User Library */}
+      {userPalettes.length > 0 && (
+        <div className="grid grid-cols-2 gap-2">
+          {userPalettes.map((preset) => (
+            <div key={preset.id} className="relative group">
+              <button
+                onClick={() => applyPreset(preset.colors)}
+                className="w-full flex flex-col gap-1 p-1.5 rounded border border-dashed border-[#444] hover:border-[#e6e0d4] transition-colors text-left"
+                title={`${preset.name} (${preset.colors.length} colors)`}
+              >
+                <div className="flex h-3 w-full rounded-sm overflow-hidden">
+                  {preset.colors.map((color, i) => (
+                    <div key={i} className="flex-1 h-full" style={{ backgroundColor: color }} />
+                  ))}
+                </div>
+                <span className="text-[10px] font-mono text-gray-400 uppercase truncate">{preset.name}</span>
+              </button>
+              <button
+                onClick={() => removeUserPalette(preset.id)}
+                className="absolute -top-1 -right-1 hidden group-hover:flex w-3.5 h-3.5 items-center justify-center rounded-full bg-black border border-[#444] text-gray-300 hover:text-red-400"
+                title="Delete palette"
+              >
+                <X size={8} />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Import / Export */}
+      <div className="flex items-center gap-2">
+        <input
+          type="file"
+          ref={importInputRef}
+          onChange={handleImport}
+          className="hidden"
+          accept=".gpl,.pal,.hex,.ase,.json"
+        />
+        <button
+          onClick={() => importInputRef.current?.click()}
+          className="p-1.5 rounded border border-[#333] text-gray-400 hover:text-[#e6e0d4] hover:border-[#e6e0d4] transition-colors"
+          title="Import palette file"
+        >
+          <Upload size={14} />
+        </button>
+        <button
+          onClick={handleSave}
+          className="p-1.5 rounded border border-[#333] text-gray-400 hover:text-[#e6e0d4] hover:border-[#e6e0d4] transition-colors"
+          title="Save to my palettes"
+        >
+          <Save size={14} />
+        </button>
+        <select
+          value={exportFormat}
+          onChange={(e) => setExportFormat(e.target.value as PaletteFormat)}
+          className="flex-1 min-w-0 bg-[#222] border border-[#333] rounded px-2 py-1.5 text-xs font-mono text-[#e6e0d4] focus:border-[#e6e0d4] outline-none"
+        >
+          {PALETTE_FORMATS.map((f) => (
+            <option key={f.value} value={f.value}>{f.label}</option>
+          ))}
+        </select>
+        <button
+          onClick={handleExport}
+          className="p-1.5 rounded border border-[#333] text-gray-400 hover:text-[#e6e0d4] hover:border-[#e6e0d4] transition-colors"
+          title="Export palette file"
+        >
+          <Download size={14} />
+        </button>
+      </div>
+      {importError && (
+        <p className="text-[10px] font-mono text-red-400 break-words">{importError}</p>
+      )}
+
+      {/* Current Palette */}
+      <div className="flex justify-between items-center">
+        <span className="text-xs text-gray-500 font-mono uppercase">Colors</span>
+        <span className="text-xs text-[#e6e0d4] font-mono bg-[#222] px-2 py-1 rounded">{palette.length}</span>
+      </div>
+      <div className="grid grid-cols-8 gap-1 max-h-40 overflow-y-auto">
+        {palette.map((color, i) => (
+          <div key={i} className="relative aspect-square group">
+            <input
+              type="color"
+              value={color}
+              onChange={(e) => updateColor(i, e.target.value)}
+              className="absolute inset-0 opacity-0 cursor-pointer w-full h-full z-10"
+              title={color}
+            />
+            <div className="w-full h-full rounded-sm border border-[#444]" style={{ backgroundColor: color }} />
+            <button
+              onClick={() => toggleLock(i)}
+              className={`absolute -bottom-1 -left-1 z-20 w-3.5 h-3.5 items-center justify-center rounded-full bg-black border border-[#444] ${
+                locked.has(i) ? 'flex text-[#e6e0d4]' : 'hidden group-hover:flex text-gray-500 hover:text-[#e6e0d4]'
+              }`}
+              title={locked.has(i) ? 'Unlock color' : 'Lock color when generating'}
+            >
+              <Lock size={8} />
+            </button>
+            {palette.length > 2 && (
+              <button
+                onClick={() => removeColor(i)}
+                className="absolute -top-1 -right-1 z-20 hidden group-hover:flex w-3.5 h-3.5 items-center justify-center rounded-full bg-black border border-[#444] text-gray-300 hover:text-red-400"
+                title="Remove color"
+              >
+                <X size={8} />
+              </button>
+            )}
+          </div>
+        ))}
+        {palette.length < MAX_PALETTE_SIZE && (
+          <button
+            onClick={addColor}
+            className="aspect-square rounded-sm border border-dashed border-[#444] hover:border-[#e6e0d4] text-gray-500 hover:text-[#e6e0d4] flex items-center justify-center transition-colors"
+            title="Add color"
+          >
+            <Plus size={12} />
+          </button>
+        )}
+      </div>
+
+      {/* Generate From Source */}
+      <div className="flex items-center gap-2">
+        <select
+          value={method}
+          onChange={(e) => setMethod(e.target.value as QuantizeMethod)}
+          className="flex-1 min-w-0 bg-[#222] border border-[#333] rounded px-2 py-1.5 text-xs font-mono text-[#e6e0d4] focus:border-[#e6e0d4] outline-none"
+        >
+          {QUANTIZE_METHODS.map((m) => (
+            <option key={m.value} value={m.value}>{m.label}</option>
+          ))}
+        </select>
+        <input
+          type="number"
+          min={2}
+          max={MAX_PALETTE_SIZE}
+          value={count}
+          onChange={(e) => setCount(Math.max(2, Math.min(MAX_PALETTE_SIZE, Number(e.target.value) || 2)))}
+          className="w-14 bg-[#222] border border-[#333] rounded px-2 py-1.5 text-xs font-mono text-[#e6e0d4] focus:border-[#e6e0d4] outline-none"
+          title="Number of colors"
+        />
+        <button
+          onClick={handleExtract}
+          disabled={!onExtractPalette || isExtracting}
+          className="p-1.5 rounded border border-[#333] text-gray-400 hover:text-[#e6e0d4] hover:border-[#e6e0d4] disabled:opacity-40 disabled:pointer-events-none transition-colors"
+          title="Generate palette from source"
+        >
+          {isExtracting ? <Loader2 size={14} className="animate-spin" /> : <Wand2 size={14} />}
+        </button>
+      </div>
+
+      {/* Matching */}
+      <div className="flex items-center gap-3">
+        <span className="text-xs text-gray-500 font-mono uppercase w-12">Match</span>
+        <select
+          value={colorSpace}
+          onChange={(e) => onColorSpaceChange(e.target.value as ColorSpace)}
+          className="flex-1 bg-[#222] border border-[#333] rounded px-2 py-1.5 text-xs font-mono text-[#e6e0d4] focus:border-[#e6e0d4] outline-none"
+        >
+          {COLOR_SPACES.map((space) => (
+            <option key={space.value} value={space.value}>{space.label}</option>
+          ))}
+        </select>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,54 @@
+import React from 'react';
+import { PixelInspection } from '../utils/inspect';
+import { rgbToHex } from '../utils/dither';
+
+interface PixelInspectorProps {
+  info: PixelInspection;
+}
+
+const Swatch = ({ color }: { color: string }) => (
+  <span className="inline-block w-2.5 h-2.5 rounded-sm border border-[#444] align-middle mr-1" style={{ backgroundColor: color }} />
+);
+
+const Row = ({ label, children }: { label: string; children: React.ReactNode }) => (
+  <div className="flex gap-3">
+    <span className="w-12 text-gray-600">{label}</span>
+    <span className="text-gray-300">{children}</span>
+  </div>
+);
+
+export const PixelInspector: React.FC<PixelInspectorProps> = ({ info }) => {
+  const source = rgbToHex(info.color);
+  const output = rgbToHex(info.output);
+  return (
+    <div className="bg-black/80 backdrop-blur border border-[#333] px-3 py-2 rounded text-[10px] font-mono pointer-events-none space-y-0.5">
+      <Row label="ART">
+        {info.x}, {info.y}
+      </Row>
+      <Row label="SOURCE">
+        {info.sourceX}, {info.sourceY}
+      </Row>
+      <Row label="COLOR">
+        <Swatch color={source} />
+        {source.toUpperCase()}
+        {info.alpha < 255 && <span className="text-gray-500"> · α {info.alpha}</span>}
+      </Row>
+      <Row label="LUMA">{info.luma.toFixed(1)}</Row>
+      <Row label="DITHER">
+        {info.offset >= 0 ? '+' : ''}
+        {info.offset.toFixed(1)}
+      </Row>
+      <Row label="INDEX">
+        {info.index}{' '}
+        {info.transparent ? (
+          <span className="text-gray-500">TRANSPARENT</span>
+        ) : (
+          <>
+            <Swatch color={output} />
+            {output.toUpperCase()}
+          </>
+        )}
+      </Row>
+    </div>
+  );
+};
@@ -0,0 +1,161 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { RetroSettings } from '../types';
+import {
+  createPreset,
+  loadPresets,
+  parsePresetFile,
+  presetFileName,
+  savePresets,
+  serializePreset,
+  SettingsPreset,
+} from '../utils/presets';
+import { downloadBlob } from '../utils/download';
+import { Copy, Download, Link, Pencil, Save, Trash2, Upload } from 'lucide-react';
+
+interface PresetManagerProps {
+  settings: RetroSettings;
+  onApply: (settings: RetroSettings) => void;
+}
+
+export const PresetManager: React.FC<PresetManagerProps> = ({ settings, onApply }) => {
+  const [presets, setPresets] = useState<SettingsPreset[]>(loadPresets);
+  const [activeId, setActiveId] = useState<string | null>(null);
+  const [message, setMessage] = useState<{ text: string; error: boolean } | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    savePresets(presets);
+  }, [presets]);
+
+  const apply = (preset: SettingsPreset) => {
+    setActiveId(preset.id);
+    setMessage(null);
+    onApply({ ...preset.settings, palette: [...preset.settings.palette] });
+  };
+
+  const handleSave = () => {
+    const name = window.prompt('Preset name', `Preset ${presets.length + 1}`);
+    if (!name) return;
+    const preset = createPreset(name, settings);
+    setPresets((prev) => [...prev, preset]);
+    setActiveId(preset.id);
+  };
+
+  const handleRename = (preset: SettingsPreset) => {
+    const name = window.prompt('Rename preset', preset.name);
+    if (!name) return;
+    setPresets((prev) => prev.map((p) => (p.id === preset.id ? { ...p, name } : p)));
+  };
+
+  const handleDuplicate = (preset: SettingsPreset) => {
+    const copy = createPreset(`${preset.name} copy`, preset.settings);
+    setPresets((prev) => {
+      const index = prev.findIndex((p) => p.id === preset.id);
+      return [...prev.slice(0, index + 1), copy, ...prev.slice(index + 1)];
+    });
+  };
+
+  const handleDelete = (preset: SettingsPreset) => {
+    if (!window.confirm(`Delete preset "${preset.name}"?`)) return;
+    setPresets((prev) => prev.filter((p) => p.id !== preset.id));
+    if (activeId === preset.id) setActiveId(null);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Allow picking the same file again after fixing it
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const preset = parsePresetFile(file.name, await file.text());
+      setPresets((prev) => [...prev, preset]);
+      apply(preset);
+    } catch (err) {
+      setMessage({ text: `${file.name}: ${(err as Error).message}`, error: true });
+    }
+  };
+
+  const handleExport = () => {
+    const active = presets.find((p) => p.id === activeId);
+    downloadBlob(serializePreset(settings), presetFileName(active?.name ?? 'retrobit-preset'));
+  };
+
+  const handleCopyLink = async () => {
+    try {
+      // The hash is kept in sync with the settings by App
+      await navigator.clipboard.writeText(window.location.href);
+      setMessage({ text: 'Link copied', error: false });
+    } catch (err) {
+      console.error('Failed to copy link', err);
+      setMessage({ text: 'Could not access the clipboard, copy the address bar instead', error: true });
+    }
+  };
+
+  const iconButton =
+    'p-1.5 rounded border border-[#333] text-gray-400 hover:text-[#e6e0d4] hover:border-[#e6e0d4] transition-colors';
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2">
+        <span className="text-xs text-gray-500 font-mono uppercase flex-1">Presets</span>
+        <input
+          type="file"
+          ref={importInputRef}
+          onChange={handleImport}
+          className="hidden"
+          accept=".json,application/json"
+        />
+        <button onClick={handleSave} className={iconButton} title="Save current settings as preset">
+          <Save size={14} />
+        </button>
+        <button onClick={() => importInputRef.current?.click()} className={iconButton} title="Import preset JSON">
+          <Upload size={14} />
+        </button>
+        <button onClick={handleExport} className={iconButton} title="Export current settings as JSON">
+          <Download size={14} />
+        </button>
+        <button onClick={handleCopyLink} className={iconButton} title="Copy link to these settings">
+          <Link size={14} />
+        </button>
+      </div>
+
+      {presets.length > 0 && (
+        <div className="flex flex-col gap-1 max-h-40 overflow-y-auto">
+          {presets.map((preset) => (
+            <div
+              key={preset.id}
+              className={`group flex items-center gap-1 rounded border px-2 py-1 transition-colors ${
+                preset.id === activeId ? 'border-[#e6e0d4]' : 'border-[#333] hover:border-[#666]'
+              }`}
+            >
+              <button
+                onClick={() => apply(preset)}
+                className="flex-1 min-w-0 text-left text-xs font-mono text-gray-300 hover:text-[#e6e0d4] truncate"
+                title={`Apply ${preset.name}`}
+              >
+                {preset.name}
+              </button>
+              <div className="hidden group-hover:flex items-center gap-1 text-gray-500">
+                <button onClick={() => handleRename(preset)} className="hover:text-[#e6e0d4]" title="Rename">
+                  <Pencil size={12} />
+                </button>
+                <button onClick={() => handleDuplicate(preset)} className="hover:text-[#e6e0d4]" title="Duplicate">
+                  <Copy size={12} />
+                </button>
+                <button onClick={() => handleDelete(preset)} className="hover:text-red-400" title="Delete">
+                  <Trash2 size={12} />
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {message && (
+        <p className={`text-[10px] font-mono break-words ${message.error ? 'text-red-400' : 'text-gray-500'}`}>
+          {message.text}
+        </p>
+      )}
+    </div>
+  );
+};
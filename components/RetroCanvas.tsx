@@ -1,17 +1,77 @@
 import React, { useRef, useEffect, useCallback, useState } from 'react';
-import { RetroSettings, UploadedFile } from '../types';
-import { getBayerValue, hexToRgb } from '../utils/dither';
+import { CompareMode, CropRect, RetroSettings, UploadedFile } from '../types';
+import {
+  drawUpscaled,
+  FrameSource,
+  getArtSize,
+  getCropRatio,
+  getPixelAspect,
+  getSourceRegion,
+  readArtPixels,
+} from '../utils/render';
+import { convertPixels } from '../utils/convert';
+import { getOrientedSize, toSourcePoint } from '../utils/crop';
+import { FrameRequest, FrameResponse } from '../utils/workerProtocol';
+import { getAudioRouting, routeMediaAudio } from '../utils/audioRouting';
+import { isMotionSource } from '../utils/liveSource';
+import { analyzeArt, ArtAnalysis, computeHistogram, inspectPixel, PixelInspection } from '../utils/inspect';
+import { createTemporalHistory } from '../utils/temporal';
+import { PixelInspector } from './PixelInspector';
+import { CropOverlay } from './CropOverlay';
+import { Crop, Crosshair, Grid3x3, Maximize, Volume2, VolumeX, ZoomIn, ZoomOut } from 'lucide-react';
 
 interface RetroCanvasProps {
   file: UploadedFile | null;
   settings: RetroSettings;
   onCanvasReady: (canvas: HTMLCanvasElement) => void;
+  onSourceReady?: (source: FrameSource | null) => void;
+  compareMode?: CompareMode;
+  // Temporarily cover the canvas with the original (hold-to-compare)
+  showOriginal?: boolean;
+  onHistogram?: (bins: Uint32Array | null) => void;
+  onCropChange?: (crop: CropRect | null) => void;
 }
 
+interface FrameStats {
+  fps: number;
+  latency: number;
+}
+
+// Shown behind the canvas so transparent art pixels are visible
+const CHECKERBOARD: React.CSSProperties = {
+  backgroundImage: 'repeating-conic-gradient(#2a2a2a 0% 25%, #1a1a1a 0% 50%)',
+  backgroundSize: '16px 16px',
+};
+
+// Space between the panes in side-by-side mode
+const SIDE_BY_SIDE_GAP = 8;
+
+// Zoomed canvases are drawn at full size, this keeps them within browser limits
+const MAX_CANVAS_SIDE = 8192;
+
+// Moving sources refresh the histogram at most this often, stills with every conversion
+const HISTOGRAM_INTERVAL_MS = 500;
+
+// Below this many screen pixels per art pixel the grid would be solid lines
+const MIN_GRID_CELL = 4;
+
+const PIXEL_GRID: React.CSSProperties = {
+  backgroundImage:
+    'linear-gradient(to right, rgba(255,255,255,0.18) 1px, transparent 1px), ' +
+    'linear-gradient(to bottom, rgba(255,255,255,0.18) 1px, transparent 1px)',
+};
+
+const supportsWorker = typeof Worker !== 'undefined' && typeof OffscreenCanvas !== 'undefined';
+
 export const RetroCanvas: React.FC<RetroCanvasProps> = ({
   file,
   settings,
   onCanvasReady,
+  onSourceReady,
+  compareMode = 'off',
+  showOriginal = false,
+  onHistogram,
+  onCropChange,
 }) => {
   const containerRef = useRef<HTMLDivElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
@@ -19,18 +79,89 @@ export const RetroCanvas: React.FC<RetroCanvasProps> = ({
   const imageRef = useRef<HTMLImageElement>(null);
   const requestRef = useRef<number>();
   const [dimensions, setDimensions] = useState({ w: 0, h: 0 });
+  // Wipe divider position, percent of the width showing the original
+  const [wipe, setWipe] = useState(50);
+  const wipeAreaRef = useRef<HTMLDivElement>(null);
+
+  // Zoom in screen pixels per art pixel, null fits the container
+  const [zoom, setZoom] = useState<number | null>(null);
+  const [pan, setPan] = useState({ x: 0, y: 0 });
+  const [artSize, setArtSize] = useState({ w: 0, h: 0 });
+  const artSizeRef = useRef(artSize);
+  const [sourceSize, setSourceSize] = useState({ w: 0, h: 0 });
+  const sourceSizeRef = useRef(sourceSize);
+  const [showPixelGrid, setShowPixelGrid] = useState(false);
+  const dragRef = useRef<{ x: number; y: number; panX: number; panY: number } | null>(null);
+
+  // Hover inspector, analyses the frame on the main thread only while enabled
+  const [isInspecting, setIsInspecting] = useState(false);
+  const [hover, setHover] = useState<PixelInspection | null>(null);
+  const inspectCanvasRef = useRef<HTMLCanvasElement | null>(null);
+  const analysisRef = useRef<{ settings: RetroSettings; time: number; analysis: ArtAnalysis } | null>(null);
+
+  // Crop editing shows the whole rotated source under the crop rectangle
+  const [isCropping, setIsCropping] = useState(false);
+  // Comparing makes no sense while the original is on screen anyway
+  const viewMode = isCropping ? 'off' : compareMode;
+
+  // Worker pipeline state. Only one frame is in flight, frames arriving meanwhile are dropped.
+  const workerRef = useRef<Worker | null>(null);
+  const busyRef = useRef(false);
+  const pendingRef = useRef(false);
+  const frameIdRef = useRef(0);
+  const sentAtRef = useRef(0);
+  const displaySizeRef = useRef({ w: 0, h: 0 });
+  const settingsRef = useRef(settings);
+  const processFrameRef = useRef<() => void>(() => {});
+  // Histogram rides along with a converted frame, throttled for moving sources
+  const onHistogramRef = useRef(onHistogram);
+  const histogramAtRef = useRef(-Infinity);
+
+  // Main-thread fallback canvas, reused between frames
+  const fallbackCanvasRef = useRef<HTMLCanvasElement | null>(null);
+  const temporalHistoryRef = useRef(createTemporalHistory());
+  // Counts sources, a new one starts the temporal history over here and in the worker
+  const sourceRef = useRef<{ file: UploadedFile | null; id: number }>({ file: null, id: 0 });
+
+  // Processing FPS and latency, published once per second
+  const [stats, setStats] = useState<FrameStats | null>(null);
+  const statsRef = useRef({ frames: 0, latencyTotal: 0, since: performance.now() });
+
+  const recordFrame = (latency: number) => {
+    statsRef.current.frames++;
+    statsRef.current.latencyTotal += latency;
+  };
+
+  // Player volume, silent until the user unmutes
+  const [volume, setVolume] = useState(1);
+  const [muted, setMuted] = useState(true);
+
+  settingsRef.current = settings;
+  onHistogramRef.current = onHistogram;
+  const hasTransparency = settings.alphaMode !== 'opaque' || settings.transparentColor !== null;
 
   // Initialize refs based on file type
   useEffect(() => {
     if (!file) return;
 
-    if (file.type === 'video') {
+    if (file.stream) {
+      // Live sources play the stream directly, no looping or audio
+      const video = videoRef.current;
+      if (video) {
+        video.removeAttribute('src');
+        video.srcObject = file.stream;
+        video.muted = true;
+        video.play().catch((e) => console.log('Autoplay prevented', e));
+      }
+    } else if (file.type === 'video') {
       if (videoRef.current) {
+        videoRef.current.srcObject = null;
         videoRef.current.src = file.url;
         videoRef.current.load();
         videoRef.current.play().catch((e) => console.log('Autoplay prevented', e));
         videoRef.current.loop = true;
-        videoRef.current.muted = true;
+        // Once routed through Web Audio the element stays unmuted, the monitor gain mutes it
+        videoRef.current.muted = !getAudioRouting(videoRef.current);
       }
     } else if (file.type === 'image') {
       if (imageRef.current) {
@@ -39,6 +170,61 @@ export const RetroCanvas: React.FC<RetroCanvasProps> = ({
     }
   }, [file]);
 
+  // Spin up the conversion worker
+  useEffect(() => {
+    if (!supportsWorker) return;
+
+    const worker = new Worker(new URL('../utils/convert.worker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (e: MessageEvent<FrameResponse>) => {
+      busyRef.current = false;
+      const response = e.data;
+
+      if (response.type === 'error') {
+        console.error('Frame conversion failed', response.message);
+      } else {
+        const canvas = canvasRef.current;
+        const ctx = canvas?.getContext('2d');
+        // Results for an older frame id are still drawn, they are simply the latest we have
+        if (ctx) {
+          const { w, h } = displaySizeRef.current;
+          drawUpscaled(ctx, response.bitmap, w, h, settingsRef.current);
+        }
+        response.bitmap.close();
+        if (response.histogram) onHistogramRef.current?.(response.histogram);
+        recordFrame(performance.now() - sentAtRef.current);
+      }
+
+      // A settings change came in while we were busy
+      if (pendingRef.current) {
+        pendingRef.current = false;
+        processFrameRef.current();
+      }
+    };
+    // A worker that can't load or can't read our messages is dropped for the main-thread path
+    const abandon = (reason: unknown) => {
+      console.error('Conversion worker failed, converting on the main thread', reason);
+      worker.terminate();
+      if (workerRef.current === worker) workerRef.current = null;
+      busyRef.current = false;
+      pendingRef.current = false;
+      // Redraw the frame that was in flight, video picks up its loop again from here
+      if (requestRef.current) cancelAnimationFrame(requestRef.current);
+      processFrameRef.current();
+    };
+    worker.onerror = (e) => {
+      e.preventDefault();
+      abandon(e.message);
+    };
+    worker.onmessageerror = abandon;
+    workerRef.current = worker;
+
+    return () => {
+      worker.terminate();
+      workerRef.current = null;
+      busyRef.current = false;
+    };
+  }, []);
+
   // The core processing function
   const processFrame = useCallback(() => {
     const canvas = canvasRef.current;
@@ -51,7 +237,7 @@ export const RetroCanvas: React.FC<RetroCanvasProps> = ({
     let sourceW = 0;
     let sourceH = 0;
 
-    if (file?.type === 'video' && videoRef.current) {
+    if (isMotionSource(file?.type ?? null) && videoRef.current) {
       const video = videoRef.current;
       source = video;
       // Wait for video to have dimensions
@@ -70,14 +256,51 @@ export const RetroCanvas: React.FC<RetroCanvasProps> = ({
     }
 
     if (!source || sourceW === 0 || sourceH === 0) return;
+    if (sourceRef.current.file !== file) {
+      sourceRef.current = { file, id: sourceRef.current.id + 1 };
+      temporalHistoryRef.current = createTemporalHistory();
+    }
+    if (sourceSizeRef.current.w !== sourceW || sourceSizeRef.current.h !== sourceH) {
+      sourceSizeRef.current = { w: sourceW, h: sourceH };
+      setSourceSize(sourceSizeRef.current);
+    }
+
+    // 1. Calculate processing resolution (downscaled)
+    // The higher the pixelSize setting, the smaller the processing canvas.
+    // Based on the source, not the display, so exports match the preview exactly.
+    const { width: procW, height: procH } = getArtSize(sourceW, sourceH, settings);
+    if (artSizeRef.current.w !== procW || artSizeRef.current.h !== procH) {
+      artSizeRef.current = { w: procW, h: procH };
+      setArtSize(artSizeRef.current);
+    }
 
     // Calculate aspect ratio aware dimensions for display
-    const containerW = containerRef.current.clientWidth;
+    // Side by side, each pane gets half the width
+    const containerW =
+      viewMode === 'side-by-side'
+        ? (containerRef.current.clientWidth - SIDE_BY_SIDE_GAP) / 2
+        : containerRef.current.clientWidth;
     const containerH = containerRef.current.clientHeight;
-    
-    const scale = Math.min(containerW / sourceW, containerH / sourceH);
-    const displayW = Math.floor(sourceW * scale);
-    const displayH = Math.floor(sourceH * scale);
+
+    let displayW: number;
+    let displayH: number;
+    if (zoom) {
+      // Non-square art pixels are stretched on top of the integer zoom
+      const aspect = getPixelAspect(settings);
+      const stretchedW = procW * aspect.x;
+      const stretchedH = procH * aspect.y;
+      const factor = Math.min(zoom, Math.max(1, Math.floor(MAX_CANVAS_SIDE / Math.max(stretchedW, stretchedH))));
+      displayW = stretchedW * factor;
+      displayH = stretchedH * factor;
+    } else {
+      // Fit the cropped frame, or the whole rotated source while choosing the crop
+      const frame = isCropping
+        ? getOrientedSize(sourceW, sourceH, settings.rotation)
+        : getSourceRegion(sourceW, sourceH, settings);
+      const scale = Math.min(containerW / frame.width, containerH / frame.height);
+      displayW = Math.floor(frame.width * scale);
+      displayH = Math.floor(frame.height * scale);
+    }
 
     // Update canvas size if changed
     if (canvas.width !== displayW || canvas.height !== displayH) {
@@ -88,99 +311,64 @@ export const RetroCanvas: React.FC<RetroCanvasProps> = ({
 
     // --- PROCESSING PIPELINE ---
 
-    // 1. Calculate processing resolution (downscaled)
-    // The higher the pixelSize setting, the smaller the processing canvas
-    // We want a minimum width of roughly 64px for very blocky, up to full res for 1
-    const factor = Math.max(1, settings.pixelSize);
-    const procW = Math.max(1, Math.floor(displayW / factor));
-    const procH = Math.max(1, Math.floor(displayH / factor));
-
-    // Create a temporary offscreen canvas for processing
-    const offCanvas = document.createElement('canvas');
-    offCanvas.width = procW;
-    offCanvas.height = procH;
-    const offCtx = offCanvas.getContext('2d', { willReadFrequently: true });
-    if (!offCtx) return;
-
-    // Draw source to small canvas (this handles the pixelation downscaling)
-    offCtx.drawImage(source, 0, 0, procW, procH);
-
-    // Get raw pixel data
-    const imgData = offCtx.getImageData(0, 0, procW, procH);
-    const data = imgData.data;
-
-    // Parse Colors
-    const rgbDark = hexToRgb(settings.colorDark);
-    const rgbLight = hexToRgb(settings.colorLight);
-    
-    // Swap if inverted
-    const dark = settings.invert ? rgbLight : rgbDark;
-    const light = settings.invert ? rgbDark : rgbLight;
-
-    // Iterate pixels
-    for (let y = 0; y < procH; y++) {
-      for (let x = 0; x < procW; x++) {
-        const i = (y * procW + x) * 4;
-        
-        // Extract RGB
-        const r = data[i];
-        const g = data[i + 1];
-        const b = data[i + 2];
-
-        // 1. Grayscale (Luminance)
-        let luma = 0.299 * r + 0.587 * g + 0.114 * b;
-
-        // 2. Apply Contrast
-        // (val - 128) * contrast + 128
-        luma = (luma - 128) * settings.contrast + 128;
-
-        // 3. Dithering calculation
-        // Get Bayer matrix threshold offset (-128 to 128 approx range effectively)
-        // We map the 0-255 bayer value to a range centered on 0 based on dither amount
-        const ditherVal = getBayerValue(x, y);
-        // Map 0..255 to -127..128
-        const ditherOffset = (ditherVal - 128) * settings.ditherAmount;
-
-        // 4. Thresholding
-        // If luma + dither > threshold, it's white, else black
-        const isLight = (luma + ditherOffset) > settings.threshold;
-
-        // 5. Map to Palette
-        const finalColor = isLight ? light : dark;
-
-        data[i] = finalColor.r;
-        data[i + 1] = finalColor.g;
-        data[i + 2] = finalColor.b;
-        // Alpha stays 255 (or original if we wanted transparency, but retro usually solid)
-        data[i + 3] = 255;
+    const now = performance.now();
+    const wantHistogram =
+      !!onHistogramRef.current && (file.type === 'image' || now - histogramAtRef.current >= HISTOGRAM_INTERVAL_MS);
+    if (wantHistogram) histogramAtRef.current = now;
+
+    const worker = workerRef.current;
+    if (worker) {
+      // 2a. Hand the frame to the worker, or drop it if the previous one is still being converted
+      if (busyRef.current) {
+        pendingRef.current = file.type === 'image';
+      } else {
+        busyRef.current = true;
+        const id = ++frameIdRef.current;
+        sentAtRef.current = performance.now();
+        displaySizeRef.current = { w: displayW, h: displayH };
+        createImageBitmap(source)
+          .then((bitmap) => {
+            const request: FrameRequest = {
+              id,
+              bitmap,
+              width: procW,
+              height: procH,
+              settings,
+              region: getSourceRegion(sourceW, sourceH, settings),
+              continuous: isMotionSource(file.type),
+              source: sourceRef.current.id,
+              histogram: wantHistogram,
+            };
+            worker.postMessage(request, [bitmap]);
+          })
+          .catch((e) => {
+            busyRef.current = false;
+            console.error('Failed to capture frame', e);
+          });
       }
+    } else {
+      // 2b. Main-thread fallback
+      const start = performance.now();
+      const history = isMotionSource(file.type) ? temporalHistoryRef.current : null;
+      const offCanvas = (fallbackCanvasRef.current ??= document.createElement('canvas'));
+      const pixels = readArtPixels(source, settings, offCanvas);
+      if (wantHistogram) onHistogramRef.current?.(computeHistogram(pixels.data, procW, procH, settings));
+      convertPixels(pixels.data, procW, procH, settings, pixels.data, history);
+      offCanvas.getContext('2d')!.putImageData(pixels, 0, 0);
+      drawUpscaled(ctx, offCanvas, displayW, displayH, settings);
+      recordFrame(performance.now() - start);
     }
 
-    // Put processed pixels back to small canvas
-    offCtx.putImageData(imgData, 0, 0);
-
-    // Scale back up to display canvas with nearest-neighbor
-    ctx.imageSmoothingEnabled = false;
-    ctx.drawImage(offCanvas, 0, 0, displayW, displayH);
-
-    // Optional Scanlines
-    if (settings.gridLine) {
-       ctx.globalCompositeOperation = 'overlay';
-       ctx.fillStyle = 'rgba(0,0,0,0.3)';
-       for(let y=0; y<displayH; y+=2) {
-           ctx.fillRect(0, y, displayW, 1);
-       }
-       ctx.globalCompositeOperation = 'source-over';
-    }
-
-    if (file.type === 'video') {
+    if (isMotionSource(file.type)) {
       requestRef.current = requestAnimationFrame(processFrame);
     }
-  }, [file, settings]);
+  }, [file, settings, viewMode, zoom, isCropping]);
+
+  processFrameRef.current = processFrame;
 
   // Handle Video Frame Loop
   useEffect(() => {
-    if (file?.type === 'video') {
+    if (isMotionSource(file?.type ?? null)) {
       requestRef.current = requestAnimationFrame(processFrame);
     } else {
       // For images, run once when dependencies change
@@ -192,6 +380,164 @@ export const RetroCanvas: React.FC<RetroCanvasProps> = ({
     };
   }, [file, settings, processFrame]);
 
+  // Zooming a new source would start off somewhere random
+  useEffect(() => {
+    setZoom(null);
+    setPan({ x: 0, y: 0 });
+    setHover(null);
+    setIsCropping(false);
+    analysisRef.current = null;
+    // A new source gets its histogram with the first frame
+    histogramAtRef.current = -Infinity;
+  }, [file]);
+
+  const fitZoom = () => {
+    setZoom(null);
+    setPan({ x: 0, y: 0 });
+  };
+
+  const toggleCropping = () => {
+    fitZoom();
+    setHover(null);
+    setIsCropping(!isCropping);
+  };
+
+  // Steps through integer scales, keeping the art pixel under the cursor in place
+  const zoomBy = (direction: 1 | -1, anchor = { x: 0, y: 0 }) => {
+    const container = containerRef.current;
+    if (!container || isCropping || artSize.w === 0 || dimensions.w === 0) return;
+
+    const aspect = getPixelAspect(settings);
+    const stretchedW = artSize.w * aspect.x;
+    const stretchedH = artSize.h * aspect.y;
+    const current = dimensions.w / stretchedW;
+    const paneW = viewMode === 'side-by-side' ? (container.clientWidth - SIDE_BY_SIDE_GAP) / 2 : container.clientWidth;
+    const fit = Math.min(paneW / stretchedW, container.clientHeight / stretchedH);
+    const maxZoom = Math.max(1, Math.floor(MAX_CANVAS_SIDE / Math.max(stretchedW, stretchedH)));
+    const next = Math.min(maxZoom, direction > 0 ? Math.floor(current) + 1 : Math.ceil(current) - 1);
+
+    if (next <= fit) {
+      fitZoom();
+      return;
+    }
+    if (next === current) return;
+    const ratio = next / current;
+    setZoom(next);
+    setPan({ x: anchor.x - (anchor.x - pan.x) * ratio, y: anchor.y - (anchor.y - pan.y) * ratio });
+  };
+
+  const handleWheel = (e: React.WheelEvent<HTMLDivElement>) => {
+    if (!file || e.deltaY === 0) return;
+    const rect = e.currentTarget.getBoundingClientRect();
+    zoomBy(e.deltaY < 0 ? 1 : -1, {
+      x: e.clientX - rect.left - rect.width / 2,
+      y: e.clientY - rect.top - rect.height / 2,
+    });
+  };
+
+  const handlePanStart = (e: React.PointerEvent<HTMLDivElement>) => {
+    // Controls on top of the canvas keep their clicks
+    if (!zoom || e.button !== 0 || (e.target as HTMLElement).closest('button, input')) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragRef.current = { x: e.clientX, y: e.clientY, panX: pan.x, panY: pan.y };
+  };
+
+  const handlePanMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    setPan({ x: drag.panX + e.clientX - drag.x, y: drag.panY + e.clientY - drag.y });
+  };
+
+  const handlePanEnd = () => {
+    dragRef.current = null;
+  };
+
+  const inspectAt = (x: number, y: number) => {
+    const source = isMotionSource(file?.type ?? null) ? videoRef.current : imageRef.current;
+    if (!source) return null;
+    const { width: sourceW, height: sourceH } =
+      source instanceof HTMLVideoElement
+        ? { width: source.videoWidth, height: source.videoHeight }
+        : { width: source.naturalWidth, height: source.naturalHeight };
+    if (sourceW === 0) return null;
+
+    // Analysed again only when the settings or the video frame changed
+    const time = source instanceof HTMLVideoElement ? source.currentTime : 0;
+    const cached = analysisRef.current;
+    let analysis = cached && cached.settings === settings && cached.time === time ? cached.analysis : null;
+    if (!analysis) {
+      inspectCanvasRef.current ??= document.createElement('canvas');
+      const pixels = readArtPixels(source, settings, inspectCanvasRef.current);
+      analysis = analyzeArt(pixels.data, pixels.width, pixels.height, settings);
+      analysisRef.current = { settings, time, analysis };
+    }
+    const region = getSourceRegion(sourceW, sourceH, settings);
+    const info = inspectPixel(analysis, x, y, region.width, region.height, settings);
+    if (!info) return null;
+    // Reported in the coordinates of the file, before rotating and cropping
+    const point = toSourcePoint(region.x + info.sourceX, region.y + info.sourceY, sourceW, sourceH, settings);
+    return { ...info, sourceX: point.x, sourceY: point.y };
+  };
+
+  const handleInspectMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!isInspecting || dragRef.current || artSize.w === 0) return;
+    const rect = e.currentTarget.getBoundingClientRect();
+    // The right and bottom edges would land one past the last art pixel
+    const x = Math.min(artSize.w - 1, Math.max(0, Math.floor(((e.clientX - rect.left) / rect.width) * artSize.w)));
+    const y = Math.min(artSize.h - 1, Math.max(0, Math.floor(((e.clientY - rect.top) / rect.height) * artSize.h)));
+    if (hover && hover.x === x && hover.y === y && file?.type === 'image') return;
+    setHover(inspectAt(x, y));
+  };
+
+  // Nothing to show once the source is closed, frames bring their own histogram otherwise
+  useEffect(() => {
+    if (!file) onHistogram?.(null);
+  }, [file, onHistogram]);
+
+  // Keep the readout current while tweaking settings with the cursor parked,
+  // dropping it once the art shrinks out from under the cursor
+  useEffect(() => {
+    if (hover) setHover(inspectAt(hover.x, hover.y));
+  }, [settings]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  const handleWipeMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!e.currentTarget.hasPointerCapture(e.pointerId) || !wipeAreaRef.current) return;
+    const rect = wipeAreaRef.current.getBoundingClientRect();
+    setWipe(Math.max(0, Math.min(100, ((e.clientX - rect.left) / rect.width) * 100)));
+  };
+
+  // Unmuting routes audio through Web Audio, so recordings can tap it regardless of volume
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video || file?.type !== 'video') return;
+    const routing = muted ? getAudioRouting(video) : routeMediaAudio(video);
+    if (routing) routing.monitor.gain.value = muted ? 0 : volume;
+  }, [file, volume, muted]);
+
+  // Stats belong to the current source
+  useEffect(() => {
+    setStats(null);
+    statsRef.current = { frames: 0, latencyTotal: 0, since: performance.now() };
+
+    const interval = setInterval(() => {
+      const s = statsRef.current;
+      if (s.frames === 0) return;
+      const now = performance.now();
+      setStats({ fps: (s.frames * 1000) / (now - s.since), latency: s.latencyTotal / s.frames });
+      statsRef.current = { frames: 0, latencyTotal: 0, since: now };
+    }, 1000);
+
+    return () => clearInterval(interval);
+  }, [file]);
+
+  // Expose the source element for full resolution exports
+  useEffect(() => {
+    if (!onSourceReady) return;
+    if (isMotionSource(file?.type ?? null)) onSourceReady(videoRef.current);
+    else if (file?.type === 'image') onSourceReady(imageRef.current);
+    else onSourceReady(null);
+  }, [file, onSourceReady]);
+
   // Expose canvas for screenshot
   useEffect(() => {
     if (canvasRef.current) {
@@ -199,26 +545,267 @@ export const RetroCanvas: React.FC<RetroCanvasProps> = ({
     }
   }, [onCanvasReady]);
 
+  // The original is drawn by the real source element, so it's always the frame being converted
+  const sideBySide = viewMode === 'side-by-side';
+  const isWiping = viewMode === 'wipe' && !showOriginal;
+  const sourceVisible = isCropping || sideBySide || viewMode === 'wipe' || showOriginal;
+  // Screen pixels per art pixel, per axis since art pixels need not be square
+  const cellW = artSize.w > 0 ? dimensions.w / artSize.w : 0;
+  const cellH = artSize.h > 0 ? dimensions.h / artSize.h : 0;
+  const sourceStyle: React.CSSProperties = {
+    width: dimensions.w,
+    height: dimensions.h,
+    ...(isWiping ? { clipPath: `inset(0 ${100 - wipe}% 0 0)` } : {}),
+    // Above the canvas when covering it
+    zIndex: sideBySide ? undefined : 1,
+  };
+  // Part of the rotated source on screen: the crop, or all of it while cropping
+  const orientedSize = getOrientedSize(sourceSize.w, sourceSize.h, settings.rotation);
+  const region = getSourceRegion(sourceSize.w, sourceSize.h, settings);
+  const shown = isCropping ? { x: 0, y: 0, ...orientedSize } : region;
+  const sourceScale = sourceSize.w > 0 ? dimensions.w / shown.width : 0;
+  // The element is turned and mirrored like the converter sees it, then shifted so `shown` fills the pane
+  const sourceElementStyle: React.CSSProperties = {
+    width: sourceSize.w * sourceScale,
+    height: sourceSize.h * sourceScale,
+    maxWidth: 'none',
+    transformOrigin: '0 0',
+    transform:
+      `translate(${(orientedSize.width / 2 - shown.x) * sourceScale}px, ${(orientedSize.height / 2 - shown.y) * sourceScale}px) ` +
+      `scale(${settings.flipH ? -1 : 1}, ${settings.flipV ? -1 : 1}) rotate(${settings.rotation}deg) translate(-50%, -50%)`,
+  };
+
   return (
-    <div ref={containerRef} className="w-full h-full flex items-center justify-center bg-black overflow-hidden relative">
-      {/* Hidden Source Elements */}
-      <video
-        ref={videoRef}
-        className="hidden"
-        playsInline
-        muted
-        loop
-        crossOrigin="anonymous"
-      />
-      <img ref={imageRef} className="hidden" crossOrigin="anonymous" alt="source" />
-
-      {/* The Display Canvas */}
-      <canvas
-        ref={canvasRef}
-        className="max-w-full max-h-full object-contain shadow-2xl"
-        style={{ imageRendering: 'pixelated' }}
-      />
-      
+    <div
+      ref={containerRef}
+      className={`w-full h-full flex items-center justify-center bg-black overflow-hidden relative ${
+        zoom ? 'cursor-grab active:cursor-grabbing' : ''
+      }`}
+      onWheel={handleWheel}
+      onPointerDown={handlePanStart}
+      onPointerMove={handlePanMove}
+      onPointerUp={handlePanEnd}
+      onPointerCancel={handlePanEnd}
+    >
+      <div
+        ref={wipeAreaRef}
+        className="relative flex justify-end shrink-0"
+        style={{
+          width: sideBySide ? dimensions.w * 2 + SIDE_BY_SIDE_GAP : dimensions.w,
+          height: dimensions.h,
+          transform: `translate(${pan.x}px, ${pan.y}px)`,
+        }}
+        onDoubleClick={fitZoom}
+      >
+        {/* Source elements, hidden unless compared against or cropped */}
+        <div className={sourceVisible ? 'absolute top-0 left-0 overflow-hidden' : 'hidden'} style={sourceStyle}>
+          <video
+            ref={videoRef}
+            className="absolute top-0 left-0"
+            style={sourceElementStyle}
+            playsInline
+            muted
+            loop
+            crossOrigin="anonymous"
+          />
+          <img
+            ref={imageRef}
+            className="absolute top-0 left-0"
+            style={sourceElementStyle}
+            crossOrigin="anonymous"
+            alt="source"
+            onLoad={() => processFrameRef.current()}
+          />
+        </div>
+
+        <div
+          className={`relative ${isInspecting ? 'cursor-crosshair' : ''}`}
+          style={{ width: dimensions.w, height: dimensions.h }}
+          onPointerMove={handleInspectMove}
+          onPointerLeave={() => setHover(null)}
+        >
+          {/* The Display Canvas */}
+          <canvas
+            ref={canvasRef}
+            className="max-w-full max-h-full object-contain shadow-2xl"
+            style={{ imageRendering: 'pixelated', ...(hasTransparency ? CHECKERBOARD : {}) }}
+          />
+
+          {/* Art Pixel Grid */}
+          {showPixelGrid && Math.min(cellW, cellH) >= MIN_GRID_CELL && (
+            <div
+              className="absolute inset-0 pointer-events-none"
+              style={{ ...PIXEL_GRID, backgroundSize: `${cellW}px ${cellH}px` }}
+            />
+          )}
+
+          {/* Inspected Pixel */}
+          {hover && (
+            <div
+              className="absolute border border-[#e6e0d4] pointer-events-none mix-blend-difference"
+              style={{
+                left: hover.x * cellW,
+                top: hover.y * cellH,
+                width: Math.max(cellW, 2),
+                height: Math.max(cellH, 2),
+              }}
+            />
+          )}
+        </div>
+
+        {/* Wipe Divider */}
+        {isWiping && (
+          <div
+            className="absolute top-0 bottom-0 w-4 -ml-2 flex justify-center cursor-ew-resize touch-none"
+            style={{ left: `${wipe}%` }}
+            onPointerDown={(e) => {
+              // Dragging the divider must not pan
+              e.stopPropagation();
+              e.currentTarget.setPointerCapture(e.pointerId);
+            }}
+            onPointerMove={handleWipeMove}
+          >
+            <div className="w-0.5 h-full bg-[#e6e0d4]/80" />
+            <div className="absolute top-1/2 -translate-y-1/2 w-4 h-8 rounded bg-[#e6e0d4] border border-[#1a1a1a]" />
+          </div>
+        )}
+
+        {/* Crop Rectangle */}
+        {isCropping && onCropChange && sourceSize.w > 0 && (
+          <CropOverlay
+            crop={{
+              x: region.x / orientedSize.width,
+              y: region.y / orientedSize.height,
+              width: region.width / orientedSize.width,
+              height: region.height / orientedSize.height,
+            }}
+            ratio={getCropRatio(settings)}
+            frameW={orientedSize.width}
+            frameH={orientedSize.height}
+            onChange={onCropChange}
+            onReset={() => onCropChange(null)}
+            onDone={toggleCropping}
+          />
+        )}
+
+        {file && sourceVisible && !isCropping && dimensions.w > 0 && (
+          <>
+            <span className="absolute bottom-2 left-2 bg-black/70 px-2 py-0.5 rounded text-[10px] font-mono text-gray-300 pointer-events-none">
+              ORIGINAL
+            </span>
+            {!showOriginal && (
+              <span className="absolute bottom-2 right-2 bg-black/70 px-2 py-0.5 rounded text-[10px] font-mono text-gray-300 pointer-events-none">
+                RETRO
+              </span>
+            )}
+          </>
+        )}
+      </div>
+
+      {/* Pixel Readout */}
+      {hover && (
+        <div className="absolute bottom-12 left-4">
+          <PixelInspector info={hover} />
+        </div>
+      )}
+
+      {/* Zoom & Inspect */}
+      {file && (
+        <div className="absolute bottom-4 left-1/2 -translate-x-1/2 bg-black/80 backdrop-blur border border-[#333] px-1 py-1 rounded flex items-center gap-1">
+          <button
+            onClick={() => zoomBy(-1)}
+            className="p-1 rounded text-gray-400 hover:text-[#e6e0d4] transition-colors"
+            title="Zoom out"
+          >
+            <ZoomOut size={12} />
+          </button>
+          <span className="text-[10px] font-mono text-gray-400 w-10 text-center">
+            {zoom ? `${Math.round(dimensions.w / Math.max(1, artSize.w * getPixelAspect(settings).x))}x` : 'FIT'}
+          </span>
+          <button
+            onClick={() => zoomBy(1)}
+            className="p-1 rounded text-gray-400 hover:text-[#e6e0d4] transition-colors"
+            title="Zoom in (or scroll)"
+          >
+            <ZoomIn size={12} />
+          </button>
+          <button
+            onClick={fitZoom}
+            disabled={!zoom}
+            className="p-1 rounded text-gray-400 hover:text-[#e6e0d4] disabled:opacity-40 transition-colors"
+            title="Fit (or double-click)"
+          >
+            <Maximize size={12} />
+          </button>
+          <div className="w-px h-4 bg-[#333] mx-1" />
+          <button
+            onClick={() => setShowPixelGrid(!showPixelGrid)}
+            className={`p-1 rounded transition-colors ${
+              showPixelGrid ? 'bg-[#e6e0d4] text-[#1a1a1a]' : 'text-gray-400 hover:text-[#e6e0d4]'
+            }`}
+            title="Art pixel grid"
+          >
+            <Grid3x3 size={12} />
+          </button>
+          <button
+            onClick={() => {
+              setIsInspecting(!isInspecting);
+              setHover(null);
+            }}
+            className={`p-1 rounded transition-colors ${
+              isInspecting ? 'bg-[#e6e0d4] text-[#1a1a1a]' : 'text-gray-400 hover:text-[#e6e0d4]'
+            }`}
+            title="Inspect pixels on hover"
+          >
+            <Crosshair size={12} />
+          </button>
+          {onCropChange && (
+            <button
+              onClick={toggleCropping}
+              className={`p-1 rounded transition-colors ${
+                isCropping ? 'bg-[#e6e0d4] text-[#1a1a1a]' : 'text-gray-400 hover:text-[#e6e0d4]'
+              }`}
+              title="Crop the source"
+            >
+              <Crop size={12} />
+            </button>
+          )}
+        </div>
+      )}
+
+      {/* Processing Stats */}
+      {file && stats && (
+        <div className="absolute bottom-4 left-4 bg-black/80 backdrop-blur border border-[#333] px-3 py-1 rounded text-[10px] font-mono text-gray-500 pointer-events-none">
+          {isMotionSource(file.type) && <span>{stats.fps.toFixed(0)} FPS · </span>}
+          {stats.latency.toFixed(1)} MS{workerRef.current ? '' : ' · MAIN THREAD'}
+        </div>
+      )}
+
+      {/* Volume */}
+      {file?.type === 'video' && (
+        <div className="absolute bottom-4 right-4 bg-black/80 backdrop-blur border border-[#333] px-2 py-1 rounded flex items-center gap-2">
+          <button
+            onClick={() => setMuted(!muted)}
+            className="text-gray-400 hover:text-[#e6e0d4] transition-colors"
+            title={muted ? 'Unmute' : 'Mute'}
+          >
+            {muted ? <VolumeX size={14} /> : <Volume2 size={14} />}
+          </button>
+          <input
+            type="range"
+            min="0"
+            max="1"
+            step="0.05"
+            value={muted ? 0 : volume}
+            onChange={(e) => {
+              setVolume(parseFloat(e.target.value));
+              setMuted(false);
+            }}
+            className="w-20 h-1 bg-[#333] rounded-lg appearance-none cursor-pointer accent-[#e6e0d4]"
+          />
+        </div>
+      )}
+
       {!file && (
         <div className="absolute inset-0 flex items-center justify-center pointer-events-none opacity-20">
             <p className="font-mono text-[#e6e0d4]">NO SIGNAL</p>
@@ -226,4 +813,4 @@ export const RetroCanvas: React.FC<RetroCanvasProps> = ({
       )}
     </div>
   );
-};
\ No newline at end of file
+};
@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_SETTINGS } from '../utils/settings';
+import { createHistory, HistoryState, moveInHistory, recordSettings } from './useSettingsHistory';
+
+const START = createHistory(DEFAULT_SETTINGS);
+
+// Replays edits of single settings, each `[key, value, time]`
+const edit = (state: HistoryState, ...steps: [string, unknown, number][]) =>
+  steps.reduce(
+    (s, [key, value, now]) => recordSettings(s, { ...s.entries[s.index].settings, [key]: value }, now),
+    state
+  );
+
+const current = (state: HistoryState) => state.entries[state.index].settings;
+
+describe('recordSettings', () => {
+  it('adds a labelled step for each change', () => {
+    const state = edit(START, ['pixelSize', 5, 1000], ['contrast', 1.5, 5000]);
+    expect(state.entries.map((e) => e.label)).toEqual(['Start', 'Pixel size', 'Contrast']);
+    expect(state.index).toBe(2);
+    expect(current(state)).toEqual({ ...DEFAULT_SETTINGS, pixelSize: 5, contrast: 1.5 });
+  });
+
+  it('ignores an edit that changes nothing', () => {
+    expect(recordSettings(START, { ...DEFAULT_SETTINGS }, 1000)).toBe(START);
+    expect(recordSettings(START, { ...DEFAULT_SETTINGS, palette: [...DEFAULT_SETTINGS.palette] }, 1000)).toBe(START);
+  });
+
+  it('folds a slider drag into one step', () => {
+    const state = edit(START, ['pixelSize', 5, 1000], ['pixelSize', 6, 1200], ['pixelSize', 7, 1700], ['pixelSize', 8, 2200]);
+    expect(state.entries).toHaveLength(2);
+    expect(current(state).pixelSize).toBe(8);
+  });
+
+  it('starts a new step after a pause or on another setting', () => {
+    const paused = edit(START, ['pixelSize', 5, 1000], ['pixelSize', 6, 1600]);
+    expect(paused.entries.map((e) => e.settings.pixelSize)).toEqual([DEFAULT_SETTINGS.pixelSize, 5, 6]);
+
+    const other = edit(START, ['pixelSize', 5, 1000], ['contrast', 1.5, 1100], ['pixelSize', 6, 1200]);
+    expect(other.entries).toHaveLength(4);
+  });
+
+  it('never folds into a named step', () => {
+    const reset = recordSettings(edit(START, ['pixelSize', 5, 1000]), DEFAULT_SETTINGS, 1100, 'Reset to default');
+    const state = edit(reset, ['pixelSize', 7, 1200]);
+    expect(state.entries.map((e) => e.label)).toEqual(['Start', 'Pixel size', 'Reset to default', 'Pixel size']);
+  });
+
+  it('drops the redo steps on a new edit', () => {
+    const undone = moveInHistory(edit(START, ['pixelSize', 5, 1000], ['contrast', 1.5, 5000]), 1);
+    const state = edit(undone, ['sharpen', 1, 5100]);
+    expect(state.entries.map((e) => e.label)).toEqual(['Start', 'Pixel size', 'Sharpen']);
+    expect(state.index).toBe(2);
+    expect(current(state).contrast).toBe(DEFAULT_SETTINGS.contrast);
+  });
+
+  it('keeps at most 100 steps, dropping the oldest', () => {
+    let state = START;
+    for (let i = 1; i <= 120; i++) state = edit(state, ['pixelSize', (i % 60) + 1, i * 1000]);
+    expect(state.entries).toHaveLength(100);
+    expect(state.index).toBe(99);
+    expect(state.entries[0].settings.pixelSize).toBe((21 % 60) + 1);
+  });
+});
+
+describe('moveInHistory', () => {
+  const three = edit(START, ['pixelSize', 5, 1000], ['pixelSize', 6, 5000]);
+
+  it('undoes and redoes one step at a time', () => {
+    const back = moveInHistory(three, 1);
+    expect(current(back).pixelSize).toBe(5);
+    expect(current(moveInHistory(back, 0))).toEqual(DEFAULT_SETTINGS);
+    expect(current(moveInHistory(back, 2)).pixelSize).toBe(6);
+  });
+
+  it('stays put past either end', () => {
+    const first = moveInHistory(three, 0);
+    expect(moveInHistory(first, -1)).toBe(first);
+    expect(moveInHistory(three, 3)).toBe(three);
+  });
+
+  it('keeps an entry it landed on from absorbing the next edit', () => {
+    // Redo to the newest step, then drag the same slider right away
+    const redone = moveInHistory(moveInHistory(three, 1), 2);
+    const state = edit(redone, ['pixelSize', 7, 5100]);
+    expect(state.entries.map((e) => e.settings.pixelSize)).toEqual([DEFAULT_SETTINGS.pixelSize, 5, 6, 7]);
+  });
+
+  it('leaves the entries alone', () => {
+    const back = moveInHistory(three, 0);
+    expect(back.entries.map((e) => e.settings)).toEqual(three.entries.map((e) => e.settings));
+  });
+});
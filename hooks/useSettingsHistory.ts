@@ -0,0 +1,130 @@
+import { Dispatch, SetStateAction, useCallback, useRef, useState } from 'react';
+import { RetroSettings } from '../types';
+import { DEFAULT_SETTINGS } from '../utils/settings';
+
+// Edits to the same settings closer together than this merge into one step (slider drags)
+const COALESCE_MS = 600;
+
+// Oldest steps are dropped past this
+const MAX_ENTRIES = 100;
+
+export interface HistoryEntry {
+  settings: RetroSettings;
+  label: string;
+  // Changed keys and time of the last edit folded into this entry
+  keys: string;
+  time: number;
+}
+
+export interface HistoryState {
+  entries: HistoryEntry[];
+  index: number;
+}
+
+export interface SettingsHistory {
+  settings: RetroSettings;
+  setSettings: Dispatch<SetStateAction<RetroSettings>>;
+  entries: HistoryEntry[];
+  index: number;
+  canUndo: boolean;
+  canRedo: boolean;
+  undo: () => void;
+  redo: () => void;
+  jumpTo: (index: number) => void;
+  reset: () => void;
+}
+
+const changedKeys = (a: RetroSettings, b: RetroSettings) =>
+  (Object.keys(b) as (keyof RetroSettings)[]).filter((key) =>
+    key === 'palette' ? a.palette.join() !== b.palette.join() : a[key] !== b[key]
+  );
+
+// 'ditherAmount' -> 'Dither amount'
+const keyLabel = (key: string) => {
+  const words = key.replace(/([A-Z])/g, ' $1').toLowerCase();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+};
+
+const describe = (keys: string[]) => (keys.length <= 2 ? keys.map(keyLabel).join(', ') : `${keys.length} settings`);
+
+export const createHistory = (settings: RetroSettings): HistoryState => ({
+  entries: [{ settings, label: 'Start', keys: '', time: 0 }],
+  index: 0,
+});
+
+/**
+ * `state` with `next` recorded as an edit made at `now` (ms). Returns `state` itself when
+ * nothing changed. A label marks a named step that never absorbs later edits.
+ */
+export const recordSettings = (state: HistoryState, next: RetroSettings, now: number, label?: string): HistoryState => {
+  const { entries, index } = state;
+  const current = entries[index];
+  const keys = changedKeys(current.settings, next);
+  if (keys.length === 0) return state;
+
+  const keyId = keys.join();
+  // Only the newest entry may absorb edits, never one we came back to with undo
+  if (!label && index > 0 && index === entries.length - 1 && current.keys === keyId && now - current.time < COALESCE_MS) {
+    return { entries: [...entries.slice(0, index), { ...current, settings: next, time: now }], index };
+  }
+
+  const kept = entries.slice(Math.max(0, index + 2 - MAX_ENTRIES), index + 1);
+  const entry = { settings: next, label: label ?? describe(keys), keys: label ? '' : keyId, time: now };
+  return { entries: [...kept, entry], index: kept.length };
+};
+
+/** `state` moved to entry `target`, or `state` itself when there is no such entry. */
+export const moveInHistory = (state: HistoryState, target: number): HistoryState => {
+  const { entries } = state;
+  if (target < 0 || target >= entries.length) return state;
+  // Stop the landed-on entry from absorbing the next edit
+  return { entries: entries.map((e, i) => (i === target ? { ...e, time: 0 } : e)), index: target };
+};
+
+/**
+ * Settings state with an undo/redo stack. Drop-in for useState: `setSettings` records a step
+ * for every real change, folding rapid edits of the same settings into the step before.
+ */
+export const useSettingsHistory = (initial: RetroSettings): SettingsHistory => {
+  const [history, setHistory] = useState<HistoryState>(() => createHistory(initial));
+  // Source of truth between renders, so several updates in one tick see each other
+  const historyRef = useRef(history);
+
+  const update = useCallback((next: HistoryState) => {
+    if (next === historyRef.current) return;
+    historyRef.current = next;
+    setHistory(next);
+  }, []);
+
+  const commit = useCallback(
+    (next: RetroSettings, label?: string) => update(recordSettings(historyRef.current, next, Date.now(), label)),
+    [update]
+  );
+
+  const setSettings = useCallback<Dispatch<SetStateAction<RetroSettings>>>(
+    (action) => {
+      const { entries, index } = historyRef.current;
+      commit(typeof action === 'function' ? action(entries[index].settings) : action);
+    },
+    [commit]
+  );
+
+  const jumpTo = useCallback((target: number) => update(moveInHistory(historyRef.current, target)), [update]);
+
+  const undo = useCallback(() => jumpTo(historyRef.current.index - 1), [jumpTo]);
+  const redo = useCallback(() => jumpTo(historyRef.current.index + 1), [jumpTo]);
+  const reset = useCallback(() => commit(DEFAULT_SETTINGS, 'Reset to default'), [commit]);
+
+  return {
+    settings: history.entries[history.index].settings,
+    setSettings,
+    entries: history.entries,
+    index: history.index,
+    canUndo: history.index > 0,
+    canRedo: history.index < history.entries.length - 1,
+    undo,
+    redo,
+    jumpTo,
+    reset,
+  };
+};
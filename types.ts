@@ -1,20 +1,116 @@
+export type OrderedDitherMode =
+  | 'bayer2'
+  | 'bayer4'
+  | 'bayer8'
+  | 'bayer16'
+  | 'blue-noise'
+  | 'halftone'
+  | 'lines-horizontal'
+  | 'lines-diagonal';
+
+export type DiffusionDitherMode =
+  | 'floyd-steinberg'
+  | 'atkinson'
+  | 'jarvis'
+  | 'stucki'
+  | 'sierra';
+
+export type DitherMode = OrderedDitherMode | DiffusionDitherMode;
+
+export type PaletteMode = 'duotone' | 'palette';
+
+export type ColorSpace = 'rgb' | 'weighted-rgb' | 'lab';
+
+export type AlphaMode = 'opaque' | 'threshold' | 'dither';
+
+export type LevelsMode = 'none' | 'auto' | 'equalize' | 'clahe';
+
+// Weights turning RGB into the luma that is thresholded, or a single channel
+export type LumaMode = 'rec601' | 'rec709' | 'average' | 'red' | 'green' | 'blue';
+
+// Filter shrinking the source to art resolution
+export type DownscaleMode = 'nearest' | 'area' | 'bilinear' | 'lanczos' | 'dominant';
+
+// How video frames build on the previous one: not at all, hysteresis in place, or following motion
+export type TemporalMode = 'off' | 'hysteresis' | 'motion';
+
+// Phosphor layout multiplied over the output: staggered RGB triads or aperture grille stripes
+export type PhosphorMask = 'none' | 'rgb' | 'aperture';
+
+// Width:height of one art pixel, wide pixels give the C64 multicolor / CGA low-res look
+export type PixelAspect = '1:1' | '2:1' | '1:2';
+
+// Quarter turns clockwise, applied to the source before cropping
+export type Rotation = 0 | 90 | 180 | 270;
+
+// Shape the crop is held to; the console presets also fix the art resolution
+export type CropAspect = 'free' | '1:1' | '4:3' | '16:9' | 'gameboy' | 'nes';
+
+// Part of the rotated and flipped source that is converted, as fractions of its width and height
+export interface CropRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
 export interface RetroSettings {
+  rotation: Rotation;
+  flipH: boolean; // Mirrors the rotated source left to right
+  flipV: boolean;
+  crop: CropRect | null; // null for the whole frame
+  cropAspect: CropAspect;
   pixelSize: number; // 1 to 20
+  pixelAspect: PixelAspect; // The longer side of an art pixel covers pixelSize times the ratio
+  downscale: DownscaleMode;
   threshold: number; // 0 to 255
-  ditherAmount: number; // 0 to 1 (mix between solid threshold and dither)
+  ditherMode: DitherMode;
+  ditherAmount: number; // 0 to 1 (mix between solid threshold and dither, or share of error diffused)
+  serpentine: boolean; // Alternate scan direction per row (error diffusion only)
+  ditherScale: number; // 1 to 8, art pixels per threshold map cell (ordered only)
+  halftoneAngle: number; // 0 to 90 degrees (halftone only)
+  animateNoise: boolean; // New blue noise offset every video frame instead of a fixed pattern
+  temporal: TemporalMode; // Keeps dither state between video frames to stop static areas boiling
+  temporalBand: number; // 0 to 64, how far past the threshold a pixel must move to flip
   contrast: number; // 0.5 to 2.0
+  brightness: number; // -100 to 100, applied before everything else
+  gamma: number; // 0.2 to 5, above 1 lifts the midtones
+  levels: LevelsMode; // Tone stretch from the frame's own histogram
+  blur: number; // 0 to 8, Gaussian sigma in art pixels
+  sharpen: number; // 0 to 4, unsharp mask amount
+  edges: number; // 0 to 1, darkens Sobel edges
+  lumaMode: LumaMode; // Luma weights (duotone and histogram)
+  paletteMode: PaletteMode; // Dark/light pair or N-color palette
   colorDark: string; // Hex
   colorLight: string; // Hex
+  palette: string[]; // Hex, 1 to 256 entries (palette mode only)
+  colorSpace: ColorSpace; // Nearest-color metric (palette mode only)
   invert: boolean;
-  gridLine: boolean;
+  alphaMode: AlphaMode; // Ignore source alpha, or cut it to transparent/opaque
+  alphaThreshold: number; // 1 to 255, source alpha at or above counts as opaque
+  transparentColor: string | null; // Hex, palette color drawn fully transparent
+  gridLine: boolean; // Scanlines
+  scanlineIntensity: number; // 0 to 1
+  scanlineSpacing: number; // 2 to 8 output pixels per line
+  phosphorMask: PhosphorMask;
+  maskIntensity: number; // 0 to 1
+  curvature: number; // 0 to 1, barrel distortion of the whole picture
+  vignette: number; // 0 to 1
+  bloom: number; // 0 to 1
+  chromatic: number; // 0 to 1, red/blue fringing
+  lcdGrid: number; // 0 to 1, gaps between art pixels
 }
 
-export type FileType = 'image' | 'video' | null;
+export type FileType = 'image' | 'video' | 'camera' | 'screen' | null;
+
+// How the original source is shown next to the converted canvas
+export type CompareMode = 'off' | 'wipe' | 'side-by-side';
 
 export interface UploadedFile {
-  url: string;
+  url: string; // Object URL, empty for live sources
   type: FileType;
   name: string;
+  stream?: MediaStream; // Camera or screen capture
 }
 
 // Add EyeDropper API type support
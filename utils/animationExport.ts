@@ -0,0 +1,56 @@
+import { RetroSettings } from '../types';
+import { quantizePixels, scaleIndexed } from './convert';
+import { dedupeFrames, encodeGif, AnimationFrame } from './gif';
+import { encodeApng } from './apng';
+import { getPixelAspect, readArtPixels } from './render';
+import { createTemporalHistory } from './temporal';
+import { forEachVideoFrame } from './videoFrames';
+
+export type AnimationFormat = 'gif' | 'apng';
+
+export interface AnimationExportOptions {
+  format: AnimationFormat;
+  start: number; // Seconds
+  end: number; // Seconds
+  fps: number;
+  loopCount: number; // 0 = forever
+  dedupe: boolean;
+  scale: number; // Integer multiple of the art resolution
+}
+
+/**
+ * Steps through the video between start and end, converts every frame with the current
+ * settings and encodes the result. Frames are kept as palette indices at art resolution.
+ */
+export const renderAnimation = async (
+  url: string,
+  settings: RetroSettings,
+  options: AnimationExportOptions,
+  onProgress?: (done: number, total: number) => void,
+  signal?: AbortSignal
+): Promise<Blob> => {
+  const canvas = document.createElement('canvas');
+  const delayMs = 1000 / options.fps;
+  const aspect = getPixelAspect(settings);
+  const history = createTemporalHistory();
+  let frames: AnimationFrame[] = [];
+
+  await forEachVideoFrame(
+    url,
+    { start: options.start, end: options.end, fps: options.fps, signal, onProgress },
+    (video) => {
+      const pixels = readArtPixels(video, settings, canvas);
+      const image = quantizePixels(pixels.data, pixels.width, pixels.height, settings, null, history);
+      // Non-square pixels are stretched here, the encoders only know uniform scales
+      frames.push({ image: scaleIndexed(image, aspect.x, aspect.y), delayMs });
+    }
+  );
+
+  if (options.dedupe) frames = dedupeFrames(frames);
+  const encodeOptions = { loopCount: options.loopCount, scale: options.scale };
+
+  if (options.format === 'gif') {
+    return new Blob([encodeGif(frames, encodeOptions)], { type: 'image/gif' });
+  }
+  return new Blob([await encodeApng(frames, encodeOptions)], { type: 'image/apng' });
+};
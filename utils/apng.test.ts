@@ -0,0 +1,95 @@
+import { inflateSync } from 'node:zlib';
+import { PNG } from 'pngjs';
+import { describe, expect, it } from 'vitest';
+import { encodeApng } from './apng';
+import { IndexedImage } from './convert';
+
+const PALETTE = [
+  { r: 10, g: 20, b: 30 },
+  { r: 200, g: 100, b: 50 },
+  { r: 0, g: 255, b: 0 },
+];
+
+const image = (width: number, height: number, seed: number, transparentIndex: number | null = null): IndexedImage => ({
+  width,
+  height,
+  indices: new Uint8Array(width * height).map((_, p) => (p * 7 + seed) % PALETTE.length),
+  palette: PALETTE,
+  transparentIndex,
+});
+
+// Splits the file into chunks, the way an APNG-aware reader walks it
+const readChunks = (bytes: Uint8Array) => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const chunks: { type: string; data: Uint8Array }[] = [];
+  for (let offset = 8; offset < bytes.length; ) {
+    const length = view.getUint32(offset);
+    const type = String.fromCharCode(...bytes.subarray(offset + 4, offset + 8));
+    chunks.push({ type, data: bytes.subarray(offset + 8, offset + 8 + length) });
+    offset += 12 + length;
+  }
+  return chunks;
+};
+
+// Undoes the filter-0 scanlines back into one index per pixel
+const unfilter = (data: Uint8Array, width: number, height: number) => {
+  const raw = inflateSync(data);
+  const indices = new Uint8Array(width * height);
+  for (let y = 0; y < height; y++) {
+    expect(raw[y * (width + 1)]).toBe(0);
+    indices.set(raw.subarray(y * (width + 1) + 1, (y + 1) * (width + 1)), y * width);
+  }
+  return indices;
+};
+
+describe('encodeApng', () => {
+  it('writes a standard PNG that plain decoders read as the first frame', async () => {
+    const first = image(6, 4, 0, 2);
+    const bytes = await encodeApng([{ image: first, delayMs: 100 }, { image: image(6, 4, 1, 2), delayMs: 100 }], { loopCount: 0 });
+    const png = PNG.sync.read(Buffer.from(bytes));
+    expect([png.width, png.height]).toEqual([6, 4]);
+    for (let p = 0; p < 24; p++) {
+      const color = PALETTE[first.indices[p]];
+      expect(Array.from(png.data.subarray(p * 4, p * 4 + 4))).toEqual([color.r, color.g, color.b, first.indices[p] === 2 ? 0 : 255]);
+    }
+  });
+
+  it('round-trips every frame, delay and the loop count', async () => {
+    const frames = [
+      { image: image(5, 3, 0), delayMs: 100 },
+      { image: image(5, 3, 1), delayMs: 33 },
+      { image: image(5, 3, 2), delayMs: 70000 },
+    ];
+    const chunks = readChunks(await encodeApng(frames, { loopCount: 4, scale: 2 }));
+    expect(chunks[0].type).toBe('IHDR');
+    expect(chunks[chunks.length - 1].type).toBe('IEND');
+
+    const actl = new DataView(chunks.find((c) => c.type === 'acTL')!.data.slice().buffer);
+    expect([actl.getUint32(0), actl.getUint32(4)]).toEqual([3, 4]);
+
+    const controls = chunks.filter((c) => c.type === 'fcTL').map((c) => new DataView(c.data.slice().buffer));
+    const delays = controls.map((view) => view.getUint16(20) / view.getUint16(22));
+    expect(delays[0]).toBeCloseTo(0.1);
+    expect(delays[1]).toBeCloseTo(0.033);
+    expect(delays[2]).toBeCloseTo(70);
+    expect(controls.map((view) => [view.getUint32(4), view.getUint32(8)])).toEqual([[10, 6], [10, 6], [10, 6]]);
+
+    const data = [
+      chunks.find((c) => c.type === 'IDAT')!.data,
+      ...chunks.filter((c) => c.type === 'fdAT').map((c) => c.data.subarray(4)),
+    ];
+    // fcTL and fdAT share one increasing sequence
+    const sequences = chunks
+      .filter((c) => c.type === 'fcTL' || c.type === 'fdAT')
+      .map((c) => new DataView(c.data.slice().buffer).getUint32(0));
+    expect(sequences).toEqual([0, 1, 2, 3, 4]);
+
+    data.forEach((chunk, i) => {
+      const decoded = unfilter(chunk, 10, 6);
+      const source = frames[i].image.indices;
+      for (let y = 0; y < 6; y++) {
+        for (let x = 0; x < 10; x++) expect(decoded[y * 10 + x]).toBe(source[Math.floor(y / 2) * 5 + Math.floor(x / 2)]);
+      }
+    });
+  });
+});
@@ -0,0 +1,111 @@
+import { IndexedImage, scaleIndexed } from './convert';
+import { concatBytes } from './bytes';
+import { crc32 } from './crc32';
+import { AnimationFrame, AnimationOptions } from './gif';
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+// zlib stream (RFC 1950), which is what PNG expects inside IDAT/fdAT
+export const zlibCompress = async (data: Uint8Array): Promise<Uint8Array> => {
+  const stream = new Blob([data]).stream().pipeThrough(new CompressionStream('deflate'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+const chunk = (type: string, data: Uint8Array): Uint8Array => {
+  const out = new Uint8Array(12 + data.length);
+  const view = new DataView(out.buffer);
+  view.setUint32(0, data.length);
+  for (let i = 0; i < 4; i++) out[4 + i] = type.charCodeAt(i);
+  out.set(data, 8);
+  // CRC covers type + data
+  view.setUint32(8 + data.length, crc32(out.subarray(4, 8 + data.length)));
+  return out;
+};
+
+const u32Bytes = (...values: number[]): Uint8Array => {
+  const out = new Uint8Array(values.length * 4);
+  const view = new DataView(out.buffer);
+  values.forEach((v, i) => view.setUint32(i * 4, v));
+  return out;
+};
+
+// Scanlines with filter type 0 (None), one byte per palette index
+const rawScanlines = (image: IndexedImage): Uint8Array => {
+  const out = new Uint8Array((image.width + 1) * image.height);
+  for (let y = 0; y < image.height; y++) {
+    out.set(image.indices.subarray(y * image.width, (y + 1) * image.width), y * (image.width + 1) + 1);
+  }
+  return out;
+};
+
+// Frame delay as a fraction, milliseconds over 1000 reduced to fit 16 bits
+const delayFraction = (ms: number): [number, number] => {
+  let num = Math.round(ms);
+  let den = 1000;
+  while (num > 0xffff) {
+    num = Math.round(num / 10);
+    den = Math.round(den / 10);
+  }
+  return [num, Math.max(1, den)];
+};
+
+/**
+ * Encodes indexed frames as an APNG in palette color mode (PLTE holds the active palette).
+ */
+export const encodeApng = async (frames: AnimationFrame[], options: AnimationOptions): Promise<Uint8Array> => {
+  if (frames.length === 0) throw new Error('No frames to encode');
+  const scale = options.scale ?? 1;
+  const { palette } = frames[0].image;
+  const width = frames[0].image.width * scale;
+  const height = frames[0].image.height * scale;
+
+  const ihdr = new Uint8Array(13);
+  const ihdrView = new DataView(ihdr.buffer);
+  ihdrView.setUint32(0, width);
+  ihdrView.setUint32(4, height);
+  ihdr[8] = 8; // Bit depth
+  ihdr[9] = 3; // Color type: indexed
+
+  const plte = new Uint8Array(palette.length * 3);
+  palette.forEach((c, i) => plte.set([c.r, c.g, c.b], i * 3));
+
+  const parts: Uint8Array[] = [new Uint8Array(PNG_SIGNATURE), chunk('IHDR', ihdr), chunk('PLTE', plte)];
+
+  // tRNS: alpha per palette entry, entries past the end stay opaque
+  const { transparentIndex } = frames[0].image;
+  if (transparentIndex !== null) {
+    const trns = new Uint8Array(transparentIndex + 1).fill(255);
+    trns[transparentIndex] = 0;
+    parts.push(chunk('tRNS', trns));
+  }
+  parts.push(chunk('acTL', u32Bytes(frames.length, options.loopCount)));
+
+  // fcTL and fdAT share one sequence counter
+  let sequence = 0;
+  for (let i = 0; i < frames.length; i++) {
+    const [num, den] = delayFraction(frames[i].delayMs);
+    const fctl = new Uint8Array(26);
+    const view = new DataView(fctl.buffer);
+    view.setUint32(0, sequence++);
+    view.setUint32(4, width);
+    view.setUint32(8, height);
+    view.setUint32(12, 0); // x offset
+    view.setUint32(16, 0); // y offset
+    view.setUint16(20, num);
+    view.setUint16(22, den);
+    fctl[24] = 0; // Dispose: none
+    fctl[25] = 0; // Blend: source, replaces alpha too
+    parts.push(chunk('fcTL', fctl));
+
+    const data = await zlibCompress(rawScanlines(scaleIndexed(frames[i].image, scale)));
+    if (i === 0) {
+      // The first frame doubles as the static image for non-APNG viewers
+      parts.push(chunk('IDAT', data));
+    } else {
+      parts.push(chunk('fdAT', concatBytes([u32Bytes(sequence++), data])));
+    }
+  }
+
+  parts.push(chunk('IEND', new Uint8Array(0)));
+  return concatBytes(parts);
+};
@@ -0,0 +1,110 @@
+import { WebmAudioTrack, WebmFrame } from './webm';
+
+// Opus only runs at 48 kHz, decode straight to that rate
+const SAMPLE_RATE = 48000;
+const MAX_CHANNELS = 2;
+const BITRATE = 128000;
+
+// libopus encoder lookahead at 48 kHz, samples the decoder drops from the start
+const OPUS_PRE_SKIP = 312;
+
+// Samples handed to the encoder per AudioData
+const BLOCK_FRAMES = 4800;
+
+export interface EncodedAudio {
+  track: WebmAudioTrack;
+  frames: WebmFrame[];
+}
+
+export const supportsAudioExport = () => typeof AudioEncoder !== 'undefined' && typeof AudioData !== 'undefined';
+
+/**
+ * Decodes the audio track of a media file, resampled to 48 kHz. Resolves to null when the
+ * file has no audio the browser can decode.
+ */
+export const decodeAudio = async (url: string): Promise<AudioBuffer | null> => {
+  const data = await (await fetch(url)).arrayBuffer();
+  const context = new OfflineAudioContext(MAX_CHANNELS, 1, SAMPLE_RATE);
+  try {
+    return await context.decodeAudioData(data);
+  } catch {
+    return null;
+  }
+};
+
+// Opus identification header, the CodecPrivate Matroska expects for A_OPUS
+const opusHead = (channels: number, preSkip: number): Uint8Array => {
+  const head = new Uint8Array(19);
+  const view = new DataView(head.buffer);
+  head.set(new TextEncoder().encode('OpusHead'));
+  head[8] = 1; // Version
+  head[9] = channels;
+  view.setUint16(10, preSkip, true);
+  view.setUint32(12, SAMPLE_RATE, true);
+  view.setInt16(16, 0, true); // Output gain
+  head[18] = 0; // Channel mapping family
+  return head;
+};
+
+/**
+ * Encodes the samples between start and end (seconds) as Opus. Timestamps start at zero so
+ * they line up with video frames rendered from the same start.
+ */
+export const encodeAudioRange = async (buffer: AudioBuffer, start: number, end: number): Promise<EncodedAudio> => {
+  const channels = Math.min(MAX_CHANNELS, buffer.numberOfChannels);
+  const first = Math.min(buffer.length, Math.round(start * buffer.sampleRate));
+  const last = Math.min(buffer.length, Math.round(end * buffer.sampleRate));
+
+  const frames: WebmFrame[] = [];
+  let description: Uint8Array | null = null;
+  let encodeError: Error | null = null;
+  const encoder = new AudioEncoder({
+    output: (chunk, metadata) => {
+      const data = new Uint8Array(chunk.byteLength);
+      chunk.copyTo(data);
+      frames.push({ data, timestampUs: chunk.timestamp, keyframe: true });
+      const desc = metadata?.decoderConfig?.description;
+      if (desc && !description) {
+        description = desc instanceof ArrayBuffer ? new Uint8Array(desc) : new Uint8Array(desc.buffer, desc.byteOffset, desc.byteLength);
+      }
+    },
+    error: (e) => {
+      encodeError = e;
+    },
+  });
+
+  try {
+    encoder.configure({ codec: 'opus', sampleRate: buffer.sampleRate, numberOfChannels: channels, bitrate: BITRATE });
+    for (let offset = first; offset < last; offset += BLOCK_FRAMES) {
+      const count = Math.min(BLOCK_FRAMES, last - offset);
+      const planes = new Float32Array(count * channels);
+      for (let c = 0; c < channels; c++) {
+        planes.set(buffer.getChannelData(c).subarray(offset, offset + count), c * count);
+      }
+      const audio = new AudioData({
+        format: 'f32-planar',
+        sampleRate: buffer.sampleRate,
+        numberOfFrames: count,
+        numberOfChannels: channels,
+        timestamp: Math.round(((offset - first) / buffer.sampleRate) * 1e6),
+        data: planes,
+      });
+      encoder.encode(audio);
+      audio.close();
+    }
+    await encoder.flush();
+  } finally {
+    if (encoder.state !== 'closed') encoder.close();
+  }
+  if (encodeError) throw encodeError;
+
+  return {
+    track: {
+      codecId: 'A_OPUS',
+      sampleRate: buffer.sampleRate,
+      channels,
+      codecPrivate: description ?? opusHead(channels, OPUS_PRE_SKIP),
+    },
+    frames,
+  };
+};
@@ -0,0 +1,41 @@
+// Web Audio graph for a playing <video>: one branch to the speakers through a volume
+// control, one untouched branch for recording, so muting the preview never mutes the export.
+
+export interface AudioRouting {
+  context: AudioContext;
+  monitor: GainNode;
+  stream: MediaStream;
+}
+
+// createMediaElementSource can only be called once per element
+const routings = new WeakMap<HTMLMediaElement, AudioRouting>();
+
+export const getAudioRouting = (media: HTMLMediaElement): AudioRouting | undefined => routings.get(media);
+
+/**
+ * Routes the element's audio through Web Audio (once) and returns the graph. Must be called
+ * from a user gesture, otherwise the context starts suspended.
+ */
+export const routeMediaAudio = (media: HTMLMediaElement): AudioRouting => {
+  const existing = routings.get(media);
+  if (existing) {
+    existing.context.resume();
+    return existing;
+  }
+
+  const context = new AudioContext();
+  const source = context.createMediaElementSource(media);
+  const monitor = context.createGain();
+  // Silent until the player asks for sound
+  monitor.gain.value = 0;
+  const recorder = context.createMediaStreamDestination();
+  source.connect(monitor).connect(context.destination);
+  source.connect(recorder);
+
+  // A muted element feeds silence into the graph
+  media.muted = false;
+
+  const routing = { context, monitor, stream: recorder.stream };
+  routings.set(media, routing);
+  return routing;
+};
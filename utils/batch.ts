@@ -0,0 +1,62 @@
+import { RetroSettings } from '../types';
+import { SourceFile } from './fileDrop';
+import { loadImage, renderExport } from './render';
+import { ZipEntry } from './zip';
+
+export type BatchStatus = 'pending' | 'processing' | 'done' | 'error';
+
+export interface BatchItem extends SourceFile {
+  id: string;
+  url: string; // Object URL of the source, also its thumbnail
+  status: BatchStatus;
+  error?: string;
+  result?: Blob;
+  resultUrl?: string;
+  // Per-item settings, the shared settings apply when unset
+  settings?: RetroSettings;
+}
+
+export const createBatchItems = (files: SourceFile[]): BatchItem[] =>
+  files.map((f, i) => ({
+    ...f,
+    id: `${Date.now()}-${i}`,
+    url: URL.createObjectURL(f.file),
+    status: f.file.type.startsWith('image/') ? 'pending' : 'error',
+    error: f.file.type.startsWith('image/') ? undefined : 'Only images can be batch converted',
+  }));
+
+export const releaseBatchItems = (items: BatchItem[]) => {
+  for (const item of items) {
+    URL.revokeObjectURL(item.url);
+    if (item.resultUrl) URL.revokeObjectURL(item.resultUrl);
+  }
+};
+
+/**
+ * Converts one image file to a PNG at an integer multiple of its art resolution.
+ */
+export const convertBatchItem = async (item: BatchItem, settings: RetroSettings, scale: number): Promise<Blob> => {
+  const image = await loadImage(item.url);
+  const canvas = renderExport(image, item.settings ?? settings, {
+    scale: { mode: 'multiple', factor: scale },
+    effects: false,
+  });
+  return new Promise((resolve, reject) =>
+    canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error('PNG encoding failed'))), 'image/png')
+  );
+};
+
+// Same folder layout as the input, extensions swapped for .png, clashes numbered
+export const batchZipEntries = async (items: BatchItem[]): Promise<ZipEntry[]> => {
+  const used = new Set<string>();
+  const entries: ZipEntry[] = [];
+  for (const item of items) {
+    if (!item.result) continue;
+    const base = item.path.replace(/\.[^./]+$/, '');
+    let name = `${base}.png`;
+    for (let n = 2; used.has(name); n++) name = `${base}-${n}.png`;
+    used.add(name);
+    entries.push({ name, data: new Uint8Array(await item.result.arrayBuffer()) });
+  }
+  return entries;
+};
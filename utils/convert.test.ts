@@ -0,0 +1,186 @@
+import { describe, expect, it } from 'vitest';
+import { DitherMode, RetroSettings } from '../types';
+import { convertPixels, quantizePixels, renderIndexed } from './convert';
+import { createScratchBuffers } from './scratch';
+import { DEFAULT_SETTINGS } from './settings';
+
+const DITHER_MODES: DitherMode[] = [
+  'bayer2',
+  'bayer4',
+  'bayer8',
+  'bayer16',
+  'blue-noise',
+  'halftone',
+  'lines-horizontal',
+  'lines-diagonal',
+  'floyd-steinberg',
+  'atkinson',
+  'jarvis',
+  'stucki',
+  'sierra',
+];
+
+// Neutral tone settings and a pure black/white pair, so expected pixels can be worked out by hand
+const settingsFor = (overrides: Partial<RetroSettings>): RetroSettings => ({
+  ...DEFAULT_SETTINGS,
+  contrast: 1,
+  threshold: 128,
+  colorDark: '#000000',
+  colorLight: '#ffffff',
+  serpentine: false,
+  ...overrides,
+});
+
+// RGBA buffer of gray levels, one entry per pixel, with optional alpha per pixel
+const grays = (levels: number[], alpha: number[] = levels.map(() => 255)) =>
+  new Uint8ClampedArray(levels.flatMap((level, p) => [level, level, level, alpha[p]]));
+
+const flat = (level: number, count: number, alpha = 255) => grays(new Array(count).fill(level), new Array(count).fill(alpha));
+
+const BLACK = [0, 0, 0, 255];
+const WHITE = [255, 255, 255, 255];
+const CLEAR = [0, 0, 0, 0];
+
+describe('convertPixels golden pixels', () => {
+  it('cuts luma strictly above the threshold without dithering', () => {
+    const out = convertPixels(grays([0, 127, 128, 129]), 4, 1, settingsFor({ ditherAmount: 0 }));
+    expect(Array.from(out)).toEqual([...BLACK, ...BLACK, ...BLACK, ...WHITE]);
+  });
+
+  it('turns gray 160 into a checkerboard with Bayer 2x2', () => {
+    // Offsets (M / 4 * 255 - 128) for M = [[0, 2], [3, 1]]: -128, -0.5, 63.25, -64.25
+    const out = convertPixels(flat(160, 4), 2, 2, settingsFor({ ditherMode: 'bayer2', ditherAmount: 1 }));
+    expect(Array.from(out)).toEqual([...BLACK, ...WHITE, ...WHITE, ...BLACK]);
+  });
+
+  it('diffuses error with Floyd-Steinberg weights', () => {
+    // (0,0) 100 -> dark, pushes 43.75 right: (1,0) 143.75 -> light, pushes -111.25.
+    // (0,1) 100 + 31.25 - 20.86 = 110.39 -> dark, (1,1) ends at 119.78 -> dark.
+    const out = convertPixels(flat(100, 4), 2, 2, settingsFor({ ditherMode: 'floyd-steinberg', ditherAmount: 1 }));
+    expect(Array.from(out)).toEqual([...BLACK, ...WHITE, ...BLACK, ...BLACK]);
+  });
+
+  it('picks the nearest palette color in RGB', () => {
+    const data = new Uint8ClampedArray([10, 10, 10, 255, 120, 130, 128, 255, 250, 240, 245, 255, 200, 0, 0, 255]);
+    const settings = settingsFor({
+      paletteMode: 'palette',
+      palette: ['#000000', '#808080', '#ffffff'],
+      colorSpace: 'rgb',
+      ditherAmount: 0,
+    });
+    // Pure red is 37952 from gray, 40000 from black
+    expect(quantizePixels(data, 4, 1, settings).indices).toEqual(new Uint8Array([0, 1, 2, 1]));
+    expect(Array.from(convertPixels(data, 4, 1, settings))).toEqual([
+      ...BLACK,
+      128, 128, 128, 255,
+      ...WHITE,
+      128, 128, 128, 255,
+    ]);
+  });
+
+  it('cuts alpha at the threshold into an extra transparent slot', () => {
+    const settings = settingsFor({ alphaMode: 'threshold', alphaThreshold: 128, ditherAmount: 0 });
+    const image = quantizePixels(grays([255, 255, 255, 255], [0, 127, 128, 255]), 4, 1, settings);
+    expect(image.palette).toHaveLength(3);
+    expect(image.transparentIndex).toBe(2);
+    expect(image.indices).toEqual(new Uint8Array([2, 2, 1, 1]));
+    expect(Array.from(renderIndexed(image))).toEqual([...CLEAR, ...CLEAR, ...WHITE, ...WHITE]);
+  });
+
+  it('dithers alpha with the ordered map', () => {
+    // Alpha 160 with the Bayer 2x2 offsets above: 32, 159.5, 223.25, 95.75 against 128
+    const settings = settingsFor({ alphaMode: 'dither', ditherMode: 'bayer2', ditherAmount: 1 });
+    const out = convertPixels(flat(255, 4, 160), 2, 2, settings);
+    expect(Array.from(out)).toEqual([...CLEAR, ...WHITE, ...WHITE, ...CLEAR]);
+  });
+
+  it('ignores alpha in opaque mode', () => {
+    const out = convertPixels(grays([255, 0], [0, 0]), 2, 1, settingsFor({ ditherAmount: 0 }));
+    expect(Array.from(out)).toEqual([...WHITE, ...BLACK]);
+  });
+
+  it('makes the marked palette color transparent', () => {
+    const out = convertPixels(grays([0, 255]), 2, 1, settingsFor({ ditherAmount: 0, transparentColor: '#FFFFFF' }));
+    // The slot keeps its color, only the alpha is cleared
+    expect(Array.from(out)).toEqual([...BLACK, 255, 255, 255, 0]);
+  });
+});
+
+describe('every dither mode', () => {
+  for (const ditherMode of DITHER_MODES) {
+    it(`${ditherMode} keeps black and white solid and lights part of mid gray`, () => {
+      const size = 16;
+      const count = size * size;
+      const settings = settingsFor({ ditherMode, ditherAmount: 0.5 });
+      expect(quantizePixels(flat(0, count), size, size, settings).indices.every((i) => i === 0)).toBe(true);
+      expect(quantizePixels(flat(255, count), size, size, settings).indices.every((i) => i === 1)).toBe(true);
+
+      // Bayer 2x2 only has four levels and lights a quarter, the finer maps land near half
+      const gray = quantizePixels(flat(128, count), size, size, { ...settings, ditherAmount: 1 });
+      const lit = gray.indices.reduce((sum, i) => sum + i, 0) / count;
+      expect(lit).toBeGreaterThanOrEqual(0.25);
+      expect(lit).toBeLessThanOrEqual(0.75);
+    });
+
+    it(`${ditherMode} clears fully transparent pixels in every alpha mode but opaque`, () => {
+      const data = grays([255, 255, 0, 0], [0, 255, 0, 255]);
+      for (const alphaMode of ['threshold', 'dither'] as const) {
+        const image = quantizePixels(data, 2, 2, settingsFor({ ditherMode, alphaMode, ditherAmount: 0.5 }));
+        expect(Array.from(image.indices, (i) => i === image.transparentIndex)).toEqual([true, false, true, false]);
+      }
+      expect(quantizePixels(data, 2, 2, settingsFor({ ditherMode, ditherAmount: 0.5 })).transparentIndex).toBeNull();
+    });
+  }
+});
+
+describe('renderIndexed', () => {
+  it('expands indices to palette colors with the transparent slot cleared', () => {
+    const rgba = renderIndexed({
+      width: 3,
+      height: 1,
+      indices: new Uint8Array([0, 1, 2]),
+      palette: [
+        { r: 1, g: 2, b: 3 },
+        { r: 250, g: 251, b: 252 },
+        { r: 0, g: 0, b: 0 },
+      ],
+      transparentIndex: 2,
+    });
+    expect(Array.from(rgba)).toEqual([1, 2, 3, 255, 250, 251, 252, 255, 0, 0, 0, 0]);
+  });
+
+  it('writes into the given buffer', () => {
+    const out = new Uint8ClampedArray(4);
+    const image = { width: 1, height: 1, indices: new Uint8Array([0]), palette: [{ r: 9, g: 8, b: 7 }], transparentIndex: null };
+    expect(renderIndexed(image, out)).toBe(out);
+    expect(Array.from(out)).toEqual([9, 8, 7, 255]);
+  });
+});
+
+describe('quantizePixels', () => {
+  it('leaves the input untouched', () => {
+    const data = grays([0, 60, 120, 180, 240, 255]);
+    const copy = data.slice();
+    quantizePixels(data, 3, 2, settingsFor({ ditherMode: 'floyd-steinberg', sharpen: 1 }));
+    expect(data).toEqual(copy);
+  });
+
+  it('gives the same result with scratch buffers left over from another frame', () => {
+    const scratch = createScratchBuffers();
+    for (const settings of [
+      settingsFor({ ditherMode: 'atkinson', alphaMode: 'dither' }),
+      settingsFor({ paletteMode: 'palette', ditherMode: 'floyd-steinberg', alphaMode: 'threshold' }),
+    ]) {
+      const first = grays([0, 60, 120, 180, 240, 255], [255, 255, 100, 0, 255, 255]);
+      const second = grays([255, 200, 30, 90, 10, 140], [0, 255, 255, 255, 200, 255]);
+      quantizePixels(first, 3, 2, settings, null, null, scratch);
+      expect(quantizePixels(second, 3, 2, settings, null, null, scratch)).toEqual(quantizePixels(second, 3, 2, settings));
+    }
+  });
+
+  it('swaps the pair when inverted', () => {
+    const image = quantizePixels(grays([0]), 1, 1, settingsFor({ ditherAmount: 0, invert: true }));
+    expect(image.indices[0]).toBe(0);
+    expect(image.palette[0]).toEqual({ r: 255, g: 255, b: 255 });
+  });
+});
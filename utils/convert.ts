@@ -0,0 +1,341 @@
+import { DiffusionDitherMode, RetroSettings } from '../types';
+import { diffusionKernels, hexToRgb, isDiffusionMode, rgbToHex } from './dither';
+import { createPaletteMatcher, MAX_PALETTE_SIZE, parsePalette, Rgb } from './palette';
+import { getThresholdMap } from './thresholdMaps';
+import { LUMA_WEIGHTS, preprocessPixels } from './preprocess';
+import { ScratchBuffers, takeScratch } from './scratch';
+import { beginTemporalFrame, endTemporalFrame, holdBias, holdIndex, TemporalFrame, TemporalHistory } from './temporal';
+
+// Result of quantization: one palette index per art pixel
+export interface IndexedImage {
+  width: number;
+  height: number;
+  indices: Uint8Array;
+  palette: Rgb[];
+  transparentIndex: number | null; // Palette entry drawn fully transparent
+}
+
+// Rec.601 luma of a single RGB triple
+export const getLuma = (r: number, g: number, b: number): number => {
+  return 0.299 * r + 0.587 * g + 0.114 * b;
+};
+
+// (val - 128) * contrast + 128
+export const applyContrast = (luma: number, contrast: number): number => {
+  return (luma - 128) * contrast + 128;
+};
+
+// Ordered dithering: each pixel is decided on its own against a threshold map
+const ditherOrdered = (
+  luma: Float32Array,
+  width: number,
+  height: number,
+  settings: RetroSettings,
+  offsets: Float32Array | null,
+  temporal: TemporalFrame | null
+): Uint8Array => {
+  const thresholdMap = getThresholdMap(settings, temporal?.frame);
+  const bits = new Uint8Array(width * height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const p = y * width + x;
+      // Map the 0..1 threshold map value to -128..127, scaled by dither amount
+      const ditherOffset = (thresholdMap(x, y) * 255 - 128) * settings.ditherAmount;
+      bits[p] = luma[p] + ditherOffset > settings.threshold + holdBias(temporal, p) ? 1 : 0;
+      if (offsets) offsets[p] = ditherOffset;
+    }
+  }
+  return bits;
+};
+
+// Error diffusion: the quantization error of each pixel is pushed onto unvisited neighbours
+const ditherDiffusion = (
+  luma: Float32Array,
+  width: number,
+  height: number,
+  settings: RetroSettings,
+  mask: Uint8Array | null,
+  offsets: Float32Array | null,
+  temporal: TemporalFrame | null,
+  scratch: ScratchBuffers | null
+): Uint8Array => {
+  const kernel = diffusionKernels[settings.ditherMode as DiffusionDitherMode];
+  const bits = new Uint8Array(width * height);
+  // Work on a copy, the error accumulates in place
+  const buf = takeScratch(scratch, 'diffusion', Float32Array, luma.length);
+  buf.set(luma);
+
+  for (let y = 0; y < height; y++) {
+    const reverse = settings.serpentine && y % 2 === 1;
+    const dir = reverse ? -1 : 1;
+
+    for (let step = 0; step < width; step++) {
+      const x = reverse ? width - 1 - step : step;
+      const p = y * width + x;
+      // Transparent pixels neither take nor spread error
+      if (mask && !mask[p]) continue;
+
+      const value = buf[p];
+      const isLight = value > settings.threshold + holdBias(temporal, p);
+      bits[p] = isLight ? 1 : 0;
+      // Error only flows forward, so this is everything the pixel received
+      if (offsets) offsets[p] = value - luma[p];
+
+      // ditherAmount scales how much of the error gets spread (0 = plain threshold)
+      const error = (value - (isLight ? 255 : 0)) * settings.ditherAmount;
+      if (error === 0) continue;
+
+      for (const [dx, dy, weight] of kernel.taps) {
+        const nx = x + dx * dir;
+        const ny = y + dy;
+        if (nx < 0 || nx >= width || ny >= height) continue;
+        buf[ny * width + nx] += (error * weight) / kernel.divisor;
+      }
+    }
+  }
+
+  return bits;
+};
+
+// Two-tone mode: luma against threshold, index 0 = dark, 1 = light
+const quantizeDuotone = (
+  data: Uint8ClampedArray,
+  width: number,
+  height: number,
+  settings: RetroSettings,
+  mask: Uint8Array | null,
+  offsets: Float32Array | null,
+  temporal: TemporalFrame | null,
+  scratch: ScratchBuffers | null
+): IndexedImage => {
+  // 1. Grayscale (Luminance) + Contrast
+  const [wr, wg, wb] = LUMA_WEIGHTS[settings.lumaMode];
+  const luma = takeScratch(scratch, 'luma', Float32Array, width * height);
+  for (let p = 0; p < luma.length; p++) {
+    const i = p * 4;
+    luma[p] = applyContrast(data[i] * wr + data[i + 1] * wg + data[i + 2] * wb, settings.contrast);
+  }
+
+  // 2. Dithering + Thresholding
+  const indices = isDiffusionMode(settings.ditherMode)
+    ? ditherDiffusion(luma, width, height, settings, mask, offsets, temporal, scratch)
+    : ditherOrdered(luma, width, height, settings, offsets, temporal);
+
+  // 3. Palette, swapped if inverted
+  const rgbDark = hexToRgb(settings.colorDark);
+  const rgbLight = hexToRgb(settings.colorLight);
+  const palette = settings.invert ? [rgbLight, rgbDark] : [rgbDark, rgbLight];
+
+  return { width, height, indices, palette, transparentIndex: null };
+};
+
+// N-color mode: nearest palette entry in the chosen color space, dithering in RGB
+const quantizePalette = (
+  data: Uint8ClampedArray,
+  width: number,
+  height: number,
+  settings: RetroSettings,
+  mask: Uint8Array | null,
+  offsets: Float32Array | null,
+  temporal: TemporalFrame | null,
+  scratch: ScratchBuffers | null
+): IndexedImage => {
+  const palette = parsePalette(settings.palette);
+  const match = createPaletteMatcher(palette, settings.colorSpace);
+  const indices = new Uint8Array(width * height);
+
+  // Threshold acts as a brightness bias around the neutral 128
+  const bias = 128 - settings.threshold;
+
+  // 1. Source color with invert + contrast + bias applied
+  const rgb = takeScratch(scratch, 'rgb', Float32Array, width * height * 3);
+  for (let p = 0; p < width * height; p++) {
+    for (let c = 0; c < 3; c++) {
+      const value = data[p * 4 + c];
+      rgb[p * 3 + c] = applyContrast(settings.invert ? 255 - value : value, settings.contrast) + bias;
+    }
+  }
+
+  if (isDiffusionMode(settings.ditherMode)) {
+    // 2a. Error diffusion on all three channels
+    const kernel = diffusionKernels[settings.ditherMode];
+    const initial = offsets ? new Float32Array(rgb) : null;
+    for (let y = 0; y < height; y++) {
+      const reverse = settings.serpentine && y % 2 === 1;
+      const dir = reverse ? -1 : 1;
+
+      for (let step = 0; step < width; step++) {
+        const x = reverse ? width - 1 - step : step;
+        const p = y * width + x;
+        if (mask && !mask[p]) continue;
+        const o = p * 3;
+
+        const index = holdIndex(temporal, p, palette, rgb[o], rgb[o + 1], rgb[o + 2], match(rgb[o], rgb[o + 1], rgb[o + 2]));
+        indices[p] = index;
+        if (offsets && initial) {
+          offsets[p] = (rgb[o] - initial[o] + rgb[o + 1] - initial[o + 1] + rgb[o + 2] - initial[o + 2]) / 3;
+        }
+
+        const chosen = palette[index];
+        const er = (rgb[o] - chosen.r) * settings.ditherAmount;
+        const eg = (rgb[o + 1] - chosen.g) * settings.ditherAmount;
+        const eb = (rgb[o + 2] - chosen.b) * settings.ditherAmount;
+        if (er === 0 && eg === 0 && eb === 0) continue;
+
+        for (const [dx, dy, weight] of kernel.taps) {
+          const nx = x + dx * dir;
+          const ny = y + dy;
+          if (nx < 0 || nx >= width || ny >= height) continue;
+          const n = (ny * width + nx) * 3;
+          const w = weight / kernel.divisor;
+          rgb[n] += er * w;
+          rgb[n + 1] += eg * w;
+          rgb[n + 2] += eb * w;
+        }
+      }
+    }
+  } else {
+    // 2b. Ordered: shift all channels by the threshold map, smaller steps for larger palettes
+    const thresholdMap = getThresholdMap(settings, temporal?.frame);
+    const spread = settings.ditherAmount / Math.cbrt(palette.length);
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const p = y * width + x;
+        const o = p * 3;
+        const offset = (thresholdMap(x, y) * 255 - 128) * spread;
+        const r = rgb[o] + offset;
+        const g = rgb[o + 1] + offset;
+        const b = rgb[o + 2] + offset;
+        indices[p] = holdIndex(temporal, p, palette, r, g, b, match(r, g, b));
+        if (offsets) offsets[p] = offset;
+      }
+    }
+  }
+
+  return { width, height, indices, palette, transparentIndex: null };
+};
+
+// 1 = opaque, 0 = transparent. Dithered mode shifts the cut by an ordered threshold map.
+const alphaMask = (
+  data: Uint8ClampedArray,
+  width: number,
+  height: number,
+  settings: RetroSettings,
+  scratch: ScratchBuffers | null
+): Uint8Array => {
+  const thresholdMap =
+    settings.alphaMode === 'dither'
+      ? getThresholdMap(isDiffusionMode(settings.ditherMode) ? { ...settings, ditherMode: 'bayer4' } : settings)
+      : null;
+  const mask = takeScratch(scratch, 'mask', Uint8Array, width * height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const p = y * width + x;
+      const alpha = data[p * 4 + 3];
+      const offset = thresholdMap ? (thresholdMap(x, y) * 255 - 128) * settings.ditherAmount : 0;
+      // Fully opaque and fully transparent source pixels are never dithered
+      mask[p] = alpha === 255 || (alpha > 0 && alpha + offset >= settings.alphaThreshold) ? 1 : 0;
+    }
+  }
+  return mask;
+};
+
+// Resolves the transparent palette slot: the marked color, or an extra entry for cut-out pixels
+const applyTransparency = (image: IndexedImage, mask: Uint8Array | null, settings: RetroSettings): IndexedImage => {
+  const marked = settings.transparentColor ? rgbToHex(hexToRgb(settings.transparentColor)) : null;
+  let transparentIndex = marked ? image.palette.findIndex((c) => rgbToHex(c) === marked) : -1;
+  let palette = image.palette;
+
+  if (mask && transparentIndex < 0) {
+    // Always added in alpha mode, so every frame of an animation shares the same palette.
+    // A full palette gives up its last entry instead.
+    if (palette.length < MAX_PALETTE_SIZE) palette = [...palette, { r: 0, g: 0, b: 0 }];
+    transparentIndex = palette.length - 1;
+  }
+  if (transparentIndex < 0) return image;
+
+  if (mask) {
+    for (let p = 0; p < mask.length; p++) {
+      if (!mask[p]) image.indices[p] = transparentIndex;
+    }
+  }
+  return { ...image, palette, transparentIndex };
+};
+
+/**
+ * Reduces an RGBA buffer to palette indices according to the settings.
+ * Pure function: no DOM access, so it runs the same in the browser, a worker or Node.
+ * `offsets`, when given, receives the dither offset each pixel was quantized with (for the inspector).
+ * `history` links consecutive video frames for temporal stability and animated noise.
+ * `scratch` keeps the working buffers for the next call, the preview passes one per worker.
+ */
+export const quantizePixels = (
+  data: Uint8ClampedArray,
+  width: number,
+  height: number,
+  settings: RetroSettings,
+  offsets: Float32Array | null = null,
+  history: TemporalHistory | null = null,
+  scratch: ScratchBuffers | null = null
+): IndexedImage => {
+  const mask = settings.alphaMode === 'opaque' ? null : alphaMask(data, width, height, settings, scratch);
+  const adjusted = preprocessPixels(data, width, height, settings);
+  const temporal = history ? beginTemporalFrame(history, adjusted, width, height, settings) : null;
+  const image = applyTransparency(
+    settings.paletteMode === 'palette' && settings.palette.length > 0
+      ? quantizePalette(adjusted, width, height, settings, mask, offsets, temporal, scratch)
+      : quantizeDuotone(adjusted, width, height, settings, mask, offsets, temporal, scratch),
+    mask,
+    settings
+  );
+  if (history) endTemporalFrame(history, image.indices);
+  return image;
+};
+
+// Expands an indexed image back into RGBA, into `out` when given so callers can reuse buffers
+export const renderIndexed = (
+  image: IndexedImage,
+  out = new Uint8ClampedArray(image.width * image.height * 4)
+): Uint8ClampedArray => {
+  for (let p = 0; p < image.indices.length; p++) {
+    const i = p * 4;
+    const color = image.palette[image.indices[p]];
+    out[i] = color.r;
+    out[i + 1] = color.g;
+    out[i + 2] = color.b;
+    // Solid except for the transparent slot
+    out[i + 3] = image.indices[p] === image.transparentIndex ? 0 : 255;
+  }
+  return out;
+};
+
+// Nearest-neighbor integer upscale of an indexed image, `factorY` differs for non-square pixels
+export const scaleIndexed = (image: IndexedImage, factor: number, factorY = factor): IndexedImage => {
+  if (factor === 1 && factorY === 1) return image;
+  const width = image.width * factor;
+  const height = image.height * factorY;
+  const indices = new Uint8Array(width * height);
+  for (let y = 0; y < height; y++) {
+    const row = Math.floor(y / factorY) * image.width;
+    for (let x = 0; x < width; x++) {
+      indices[y * width + x] = image.indices[row + Math.floor(x / factor)];
+    }
+  }
+  return { ...image, width, height, indices };
+};
+
+/**
+ * Converts an RGBA buffer into the retro look.
+ * Writes into `out` if given, otherwise returns a new buffer. The input is left untouched.
+ */
+export const convertPixels = (
+  data: Uint8ClampedArray,
+  width: number,
+  height: number,
+  settings: RetroSettings,
+  out?: Uint8ClampedArray,
+  history: TemporalHistory | null = null,
+  scratch: ScratchBuffers | null = null
+): Uint8ClampedArray => {
+  return renderIndexed(quantizePixels(data, width, height, settings, null, history, scratch), out);
+};
@@ -0,0 +1,80 @@
+import { convertPixels } from './convert';
+import { orientPixels } from './crop';
+import { computeHistogram } from './inspect';
+import { resamplePixels } from './resample';
+import { createScratchBuffers } from './scratch';
+import { createTemporalHistory } from './temporal';
+import { FrameRequest, FrameResponse } from './workerProtocol';
+
+// The project compiles against the DOM lib only, so type the worker scope by hand
+const scope = self as unknown as {
+  onmessage: ((e: MessageEvent<FrameRequest>) => void) | null;
+  postMessage: (message: FrameResponse, transfer?: Transferable[]) => void;
+};
+
+// Reused between frames, only reallocated when the source or art resolution changes.
+// The full-size readback is the exception, getImageData always returns a new buffer.
+let canvas: OffscreenCanvas | null = null;
+let ctx: OffscreenCanvasRenderingContext2D | null = null;
+let sourceCanvas: OffscreenCanvas | null = null;
+let sourceCtx: OffscreenCanvasRenderingContext2D | null = null;
+let output: ImageData | null = null;
+const scratch = createScratchBuffers();
+
+// Settings and size changes reset it by themselves, a new source has to be told
+let history = createTemporalHistory();
+let historySource = -1;
+
+scope.onmessage = (e) => {
+  const { id, bitmap, width, height, settings, region, continuous, source, histogram } = e.data;
+  const start = performance.now();
+
+  try {
+    if (!canvas || !ctx) {
+      canvas = new OffscreenCanvas(width, height);
+      ctx = canvas.getContext('2d', { willReadFrequently: true });
+      if (!ctx) throw new Error('OffscreenCanvas 2D context unavailable');
+    } else if (canvas.width !== width || canvas.height !== height) {
+      canvas.width = width;
+      canvas.height = height;
+    }
+
+    if (!sourceCanvas || !sourceCtx) {
+      sourceCanvas = new OffscreenCanvas(bitmap.width, bitmap.height);
+      sourceCtx = sourceCanvas.getContext('2d', { willReadFrequently: true });
+      if (!sourceCtx) throw new Error('OffscreenCanvas 2D context unavailable');
+    } else if (sourceCanvas.width !== bitmap.width || sourceCanvas.height !== bitmap.height) {
+      sourceCanvas.width = bitmap.width;
+      sourceCanvas.height = bitmap.height;
+    }
+
+    // Full resolution readback, shrunk by the chosen filter rather than the browser's
+    sourceCtx.clearRect(0, 0, bitmap.width, bitmap.height);
+    sourceCtx.drawImage(bitmap, 0, 0);
+    const full = sourceCtx.getImageData(0, 0, bitmap.width, bitmap.height);
+    const frame = orientPixels(full.data, bitmap.width, bitmap.height, settings, region, scratch);
+    const input = resamplePixels(frame, region.width, region.height, width, height, settings.downscale, scratch);
+
+    if (!output || output.width !== width || output.height !== height) {
+      output = new ImageData(width, height);
+    }
+    // From the art pixels before conversion, so the main thread never reads the full frame for it
+    const bins = histogram ? computeHistogram(input, width, height, settings) : null;
+    if (source !== historySource) {
+      history = createTemporalHistory();
+      historySource = source;
+    }
+    convertPixels(input, width, height, settings, output.data, continuous ? history : null, scratch);
+    ctx.putImageData(output, 0, 0);
+
+    const result = canvas.transferToImageBitmap();
+    scope.postMessage(
+      { type: 'result', id, bitmap: result, histogram: bins, processingMs: performance.now() - start },
+      bins ? [result, bins.buffer] : [result]
+    );
+  } catch (err) {
+    scope.postMessage({ type: 'error', id, message: (err as Error).message });
+  } finally {
+    bitmap.close();
+  }
+};
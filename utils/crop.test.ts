@@ -0,0 +1,156 @@
+import { describe, expect, it } from 'vitest';
+import { CropRect, RetroSettings, Rotation } from '../types';
+import { fitCropRect, flipView, getCropRegion, orientPixels, rotateView, toSourcePoint } from './crop';
+import { DEFAULT_SETTINGS } from './settings';
+
+const ROTATIONS: Rotation[] = [0, 90, 180, 270];
+
+// Every orientation the settings can describe
+const ORIENTATIONS = ROTATIONS.flatMap((rotation) =>
+  [false, true].flatMap((flipH) => [false, true].map((flipV) => ({ rotation, flipH, flipV })))
+);
+
+const settingsFor = (overrides: Partial<RetroSettings>): RetroSettings => ({ ...DEFAULT_SETTINGS, ...overrides });
+
+// Pixels numbered 0, 1, 2... in the red channel, in reading order
+const numbered = (width: number, height: number) =>
+  new Uint8ClampedArray(Array.from({ length: width * height }, (_, p) => [p, 0, 0, 255]).flat());
+
+const ids = (data: Uint8ClampedArray) => Array.from(data.filter((_, i) => i % 4 === 0));
+
+const orient = (width: number, height: number, overrides: Partial<RetroSettings>) => {
+  const settings = settingsFor(overrides);
+  return ids(orientPixels(numbered(width, height), width, height, settings, getCropRegion(width, height, settings, null)));
+};
+
+describe('orientPixels', () => {
+  // The 3x2 source:
+  // 0 1 2
+  // 3 4 5
+  it('rotates clockwise by quarter turns', () => {
+    expect(orient(3, 2, { rotation: 90 })).toEqual([3, 0, 4, 1, 5, 2]);
+    expect(orient(3, 2, { rotation: 180 })).toEqual([5, 4, 3, 2, 1, 0]);
+    expect(orient(3, 2, { rotation: 270 })).toEqual([2, 5, 1, 4, 0, 3]);
+  });
+
+  it('mirrors the frame', () => {
+    expect(orient(3, 2, { flipH: true })).toEqual([2, 1, 0, 5, 4, 3]);
+    expect(orient(3, 2, { flipV: true })).toEqual([3, 4, 5, 0, 1, 2]);
+  });
+
+  it('flips after rotating', () => {
+    expect(orient(3, 2, { rotation: 90, flipH: true })).toEqual([0, 3, 1, 4, 2, 5]);
+    expect(orient(3, 2, { rotation: 90, flipV: true })).toEqual([5, 2, 4, 1, 3, 0]);
+  });
+
+  it('cuts the crop out of the rotated frame', () => {
+    // Right two pixels of the bottom row
+    expect(orient(3, 2, { crop: { x: 1 / 3, y: 0.5, width: 2 / 3, height: 0.5 } })).toEqual([4, 5]);
+    // Right column of the 2x3 rotated frame, lower two rows
+    expect(orient(3, 2, { rotation: 90, crop: { x: 0.5, y: 1 / 3, width: 0.5, height: 2 / 3 } })).toEqual([1, 2]);
+  });
+
+  it('hands back the source when there is nothing to do', () => {
+    const data = numbered(3, 2);
+    const settings = settingsFor({ crop: { x: 0, y: 0, width: 1, height: 1 } });
+    expect(orientPixels(data, 3, 2, settings, getCropRegion(3, 2, settings, null))).toBe(data);
+  });
+});
+
+describe('toSourcePoint', () => {
+  it('finds the source pixel orientPixels put at each spot', () => {
+    for (const orientation of ORIENTATIONS) {
+      const settings = settingsFor(orientation);
+      const out = orient(4, 3, orientation);
+      const frameW = orientation.rotation % 180 === 0 ? 4 : 3;
+      out.forEach((id, p) => {
+        const { x, y } = toSourcePoint(p % frameW, Math.floor(p / frameW), 4, 3, settings);
+        expect(y * 4 + x).toBe(id);
+      });
+    }
+  });
+});
+
+describe('getCropRegion', () => {
+  it('is the whole frame without a crop, sides swapped on quarter turns', () => {
+    expect(getCropRegion(40, 30, settingsFor({}), null)).toEqual({ x: 0, y: 0, width: 40, height: 30 });
+    expect(getCropRegion(40, 30, settingsFor({ rotation: 270 }), null)).toEqual({ x: 0, y: 0, width: 30, height: 40 });
+  });
+
+  it('rounds the crop to whole pixels', () => {
+    const crop = { x: 0.1, y: 0.25, width: 0.333, height: 0.5 };
+    expect(getCropRegion(100, 10, settingsFor({ crop }), null)).toEqual({ x: 10, y: 3, width: 33, height: 5 });
+  });
+
+  it('shrinks the crop to the ratio around its center', () => {
+    expect(getCropRegion(100, 50, settingsFor({}), 1)).toEqual({ x: 25, y: 0, width: 50, height: 50 });
+    expect(getCropRegion(100, 50, settingsFor({}), 4)).toEqual({ x: 0, y: 13, width: 100, height: 25 });
+  });
+
+  it('keeps at least one pixel inside the frame', () => {
+    const crop = { x: 0.99, y: 1, width: 0.001, height: 0.5 };
+    expect(getCropRegion(10, 10, settingsFor({ crop }), null)).toEqual({ x: 9, y: 9, width: 1, height: 1 });
+  });
+});
+
+describe('fitCropRect', () => {
+  it('trims the long side evenly', () => {
+    expect(fitCropRect({ x: 10, y: 0, width: 40, height: 10 }, 2)).toEqual({ x: 20, y: 0, width: 20, height: 10 });
+    expect(fitCropRect({ x: 0, y: 10, width: 10, height: 40 }, 0.5)).toEqual({ x: 0, y: 20, width: 10, height: 20 });
+  });
+});
+
+describe('rotateView and flipView', () => {
+  // Edges on whole pixels of a 12x12 source in every orientation, so rounding can't shift them
+  const crop: CropRect = { x: 0.25, y: 0, width: 0.5, height: 2 / 3 };
+
+  // Source pixels showing inside the crop, in any order
+  const shown = (settings: RetroSettings) => {
+    const region = getCropRegion(12, 12, settings, null);
+    return ids(orientPixels(numbered(12, 12), 12, 12, settings, region)).sort((a, b) => a - b);
+  };
+
+  it('turns the picture a quarter turn either way', () => {
+    expect(rotateView(settingsFor({}), true).rotation).toBe(90);
+    expect(rotateView(settingsFor({}), false).rotation).toBe(270);
+  });
+
+  it('keeps the crop on the same content through every turn and flip', () => {
+    for (const orientation of ORIENTATIONS) {
+      const settings = settingsFor({ ...orientation, crop });
+      const before = shown(settings);
+      for (const next of [
+        rotateView(settings, true),
+        rotateView(settings, false),
+        flipView(settings, true),
+        flipView(settings, false),
+      ]) {
+        expect(shown({ ...settings, ...next })).toEqual(before);
+      }
+    }
+  });
+
+  it('mirrors the view the way it looks, whatever the rotation', () => {
+    // A horizontal flip of the view reverses each row of what is shown
+    for (const orientation of ORIENTATIONS) {
+      const settings = settingsFor(orientation);
+      const flipped = orient(4, 3, { ...settings, ...flipView(settings, true) });
+      const frameW = orientation.rotation % 180 === 0 ? 4 : 3;
+      const rows = (list: number[]) =>
+        Array.from({ length: list.length / frameW }, (_, r) => list.slice(r * frameW, (r + 1) * frameW));
+      expect(rows(flipped)).toEqual(rows(orient(4, 3, orientation)).map((row) => row.reverse()));
+    }
+  });
+
+  it('comes back to the start after four turns', () => {
+    let settings = settingsFor({ rotation: 90, flipH: true, crop });
+    for (let i = 0; i < 4; i++) settings = { ...settings, ...rotateView(settings, true) };
+    expect(settings.rotation).toBe(90);
+    expect(settings.flipH).toBe(true);
+    expect(settings.flipV).toBe(false);
+    expect(settings.crop!.x).toBeCloseTo(crop.x, 10);
+    expect(settings.crop!.y).toBeCloseTo(crop.y, 10);
+    expect(settings.crop!.width).toBeCloseTo(crop.width, 10);
+    expect(settings.crop!.height).toBeCloseTo(crop.height, 10);
+  });
+});
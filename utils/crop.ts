@@ -0,0 +1,155 @@
+import { CropAspect, CropRect, RetroSettings, Rotation } from '../types';
+import { ScratchBuffers, takeScratch } from './scratch';
+
+export const FULL_FRAME: CropRect = { x: 0, y: 0, width: 1, height: 1 };
+
+// Width:height the crop is held to, null for a free crop
+export const CROP_RATIOS: Record<CropAspect, number | null> = {
+  free: null,
+  '1:1': 1,
+  '4:3': 4 / 3,
+  '16:9': 16 / 9,
+  gameboy: 160 / 144,
+  nes: 256 / 240,
+};
+
+// Presets that convert to an exact console screen instead of following pixelSize
+export const CROP_RESOLUTIONS: Partial<Record<CropAspect, { width: number; height: number }>> = {
+  gameboy: { width: 160, height: 144 },
+  nes: { width: 256, height: 240 },
+};
+
+// Source size once rotated, quarter turns swap the sides
+export const getOrientedSize = (width: number, height: number, rotation: Rotation) =>
+  rotation % 180 === 0 ? { width, height } : { width: height, height: width };
+
+// Largest rect of the given width:height ratio centered in `rect`, in the rect's own units
+export const fitCropRect = (rect: CropRect, ratio: number): CropRect => {
+  if (rect.width / rect.height > ratio) {
+    const width = rect.height * ratio;
+    return { ...rect, x: rect.x + (rect.width - width) / 2, width };
+  }
+  const height = rect.width / ratio;
+  return { ...rect, y: rect.y + (rect.height - height) / 2, height };
+};
+
+/**
+ * The crop in whole pixels of the rotated and flipped source, shrunk to `ratio` around its
+ * center when given. The ratio is enforced here rather than when editing, so a saved crop
+ * keeps its shape on sources of any size.
+ */
+export const getCropRegion = (sourceW: number, sourceH: number, settings: RetroSettings, ratio: number | null) => {
+  const frame = getOrientedSize(sourceW, sourceH, settings.rotation);
+  const crop = settings.crop ?? FULL_FRAME;
+  let rect: CropRect = {
+    x: crop.x * frame.width,
+    y: crop.y * frame.height,
+    width: crop.width * frame.width,
+    height: crop.height * frame.height,
+  };
+  if (ratio) rect = fitCropRect(rect, ratio);
+
+  const x = Math.min(frame.width - 1, Math.max(0, Math.round(rect.x)));
+  const y = Math.min(frame.height - 1, Math.max(0, Math.round(rect.y)));
+  return {
+    x,
+    y,
+    width: Math.min(frame.width - x, Math.max(1, Math.round(rect.width))),
+    height: Math.min(frame.height - y, Math.max(1, Math.round(rect.height))),
+  };
+};
+
+export type CropRegion = ReturnType<typeof getCropRegion>;
+
+/**
+ * Rotates and flips RGBA pixels, then cuts out `region` (from getCropRegion).
+ * Returns `data` itself when the region is the untouched source. The result is written to
+ * a buffer from `scratch` when given, it is only valid until the next call.
+ */
+export const orientPixels = (
+  data: Uint8ClampedArray,
+  width: number,
+  height: number,
+  settings: RetroSettings,
+  region: CropRegion,
+  scratch: ScratchBuffers | null = null
+): Uint8ClampedArray => {
+  const { rotation, flipH, flipV } = settings;
+  if (
+    rotation === 0 &&
+    !flipH &&
+    !flipV &&
+    region.x === 0 &&
+    region.y === 0 &&
+    region.width === width &&
+    region.height === height
+  ) {
+    return data;
+  }
+
+  // Source index of rotated pixel (u, v) is base + u * du + v * dv
+  const [base, du, dv] = {
+    0: [0, 1, width],
+    90: [(height - 1) * width, -width, 1],
+    180: [height * width - 1, -1, -width],
+    270: [width - 1, width, -1],
+  }[rotation];
+  const frame = getOrientedSize(width, height, rotation);
+
+  const from = new Uint32Array(data.buffer, data.byteOffset, width * height);
+  const output = takeScratch(scratch, 'orient', Uint8ClampedArray, region.width * region.height * 4);
+  const to = new Uint32Array(output.buffer);
+  for (let y = 0; y < region.height; y++) {
+    const v = flipV ? frame.height - 1 - (region.y + y) : region.y + y;
+    for (let x = 0; x < region.width; x++) {
+      const u = flipH ? frame.width - 1 - (region.x + x) : region.x + x;
+      to[y * region.width + x] = from[base + u * du + v * dv];
+    }
+  }
+  return output;
+};
+
+// Source pixel shown at (u, v) of the rotated and flipped frame
+export const toSourcePoint = (u: number, v: number, width: number, height: number, settings: RetroSettings) => {
+  const frame = getOrientedSize(width, height, settings.rotation);
+  const x = settings.flipH ? frame.width - 1 - u : u;
+  const y = settings.flipV ? frame.height - 1 - v : v;
+  switch (settings.rotation) {
+    case 90:
+      return { x: y, y: height - 1 - x };
+    case 180:
+      return { x: width - 1 - x, y: height - 1 - y };
+    case 270:
+      return { x: width - 1 - y, y: x };
+    default:
+      return { x, y };
+  }
+};
+
+/**
+ * Settings for turning the current view a quarter turn. Flips are applied after the rotation,
+ * so they trade places, and the crop turns with the picture to stay on the same content.
+ */
+export const rotateView = (settings: RetroSettings, clockwise: boolean): Partial<RetroSettings> => {
+  const crop = settings.crop;
+  return {
+    rotation: ((settings.rotation + (clockwise ? 90 : 270)) % 360) as Rotation,
+    flipH: settings.flipV,
+    flipV: settings.flipH,
+    crop: crop && {
+      x: clockwise ? 1 - crop.y - crop.height : crop.y,
+      y: clockwise ? crop.x : 1 - crop.x - crop.width,
+      width: crop.height,
+      height: crop.width,
+    },
+  };
+};
+
+// Settings for mirroring the current view, the crop follows the content
+export const flipView = (settings: RetroSettings, horizontal: boolean): Partial<RetroSettings> => {
+  const crop = settings.crop;
+  if (horizontal) {
+    return { flipH: !settings.flipH, crop: crop && { ...crop, x: 1 - crop.x - crop.width } };
+  }
+  return { flipV: !settings.flipV, crop: crop && { ...crop, y: 1 - crop.y - crop.height } };
+};
@@ -1,18 +1,4 @@
-// Standard Bayer 4x4 matrix
-export const bayerMatrix4x4 = [
-  [0, 8, 2, 10],
-  [12, 4, 14, 6],
-  [3, 11, 1, 9],
-  [15, 7, 13, 5],
-];
-
-export const getBayerValue = (x: number, y: number): number => {
-  const matrixSize = 4;
-  // Normalize matrix value (0-15) to 0-255 range effectively
-  // (value / 16) * 255 roughly, but used as an offset
-  const value = bayerMatrix4x4[y % matrixSize][x % matrixSize];
-  return (value / 16) * 255;
-};
+import { DiffusionDitherMode, DitherMode } from '../types';
 
 export const hexToRgb = (hex: string): { r: number; g: number; b: number } => {
   const result = /^#?([a-f\d]{2})([a-f\d]{2})([a-f\d]{2})$/i.exec(hex);
@@ -24,3 +10,59 @@ export const hexToRgb = (hex: string): { r: number; g: number; b: number } => {
       }
     : { r: 0, g: 0, b: 0 };
 };
+
+export const rgbToHex = ({ r, g, b }: { r: number; g: number; b: number }): string =>
+  '#' + [r, g, b].map((v) => Math.max(0, Math.min(255, Math.round(v))).toString(16).padStart(2, '0')).join('');
+
+// Error diffusion kernels: [dx, dy, weight], weights are divided by `divisor`.
+// dx is relative to the scan direction, so it gets mirrored on serpentine rows.
+export interface DiffusionKernel {
+  divisor: number;
+  taps: [number, number, number][];
+}
+
+export const diffusionKernels: Record<DiffusionDitherMode, DiffusionKernel> = {
+  'floyd-steinberg': {
+    divisor: 16,
+    taps: [
+      [1, 0, 7],
+      [-1, 1, 3], [0, 1, 5], [1, 1, 1],
+    ],
+  },
+  // Only spreads 6/8 of the error, which gives the high contrast "Mac" look
+  atkinson: {
+    divisor: 8,
+    taps: [
+      [1, 0, 1], [2, 0, 1],
+      [-1, 1, 1], [0, 1, 1], [1, 1, 1],
+      [0, 2, 1],
+    ],
+  },
+  jarvis: {
+    divisor: 48,
+    taps: [
+      [1, 0, 7], [2, 0, 5],
+      [-2, 1, 3], [-1, 1, 5], [0, 1, 7], [1, 1, 5], [2, 1, 3],
+      [-2, 2, 1], [-1, 2, 3], [0, 2, 5], [1, 2, 3], [2, 2, 1],
+    ],
+  },
+  stucki: {
+    divisor: 42,
+    taps: [
+      [1, 0, 8], [2, 0, 4],
+      [-2, 1, 2], [-1, 1, 4], [0, 1, 8], [1, 1, 4], [2, 1, 2],
+      [-2, 2, 1], [-1, 2, 2], [0, 2, 4], [1, 2, 2], [2, 2, 1],
+    ],
+  },
+  sierra: {
+    divisor: 32,
+    taps: [
+      [1, 0, 5], [2, 0, 3],
+      [-2, 1, 2], [-1, 1, 4], [0, 1, 5], [1, 1, 4], [2, 1, 2],
+      [-1, 2, 2], [0, 2, 3], [1, 2, 2],
+    ],
+  },
+};
+
+export const isDiffusionMode = (mode: DitherMode): mode is DiffusionDitherMode =>
+  mode in diffusionKernels;
@@ -0,0 +1,10 @@
+// Triggers a browser download for generated content
+export const downloadBlob = (blob: Blob, fileName: string): void => {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  a.click();
+  // Some browsers only start reading the URL after click() returns
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
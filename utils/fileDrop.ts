@@ -0,0 +1,45 @@
+// Turns drops and file inputs into a flat file list, walking into dropped folders
+
+export interface SourceFile {
+  file: File;
+  path: string; // Relative path, folders included
+}
+
+const readEntries = (reader: FileSystemDirectoryReader): Promise<FileSystemEntry[]> =>
+  new Promise((resolve, reject) => reader.readEntries(resolve, reject));
+
+const entryFile = (entry: FileSystemFileEntry): Promise<File> =>
+  new Promise((resolve, reject) => entry.file(resolve, reject));
+
+const walkEntry = async (entry: FileSystemEntry, out: SourceFile[]) => {
+  if (entry.isFile) {
+    out.push({ file: await entryFile(entry as FileSystemFileEntry), path: entry.fullPath.replace(/^\//, '') });
+  } else if (entry.isDirectory) {
+    const reader = (entry as FileSystemDirectoryEntry).createReader();
+    // Directory contents arrive in batches until an empty one
+    for (let batch = await readEntries(reader); batch.length > 0; batch = await readEntries(reader)) {
+      for (const child of batch) await walkEntry(child, out);
+    }
+  }
+};
+
+export const isMediaFile = (file: File) => file.type.startsWith('image/') || file.type.startsWith('video/');
+
+export const collectDroppedFiles = async (dataTransfer: DataTransfer): Promise<SourceFile[]> => {
+  // Entries have to be taken before the first await, the DataTransfer is cleared after the event
+  const entries = Array.from(dataTransfer.items)
+    .map((item) => item.webkitGetAsEntry())
+    .filter((entry): entry is FileSystemEntry => entry !== null);
+  if (entries.length === 0) {
+    return Array.from(dataTransfer.files).map((file) => ({ file, path: file.name }));
+  }
+
+  const out: SourceFile[] = [];
+  for (const entry of entries) await walkEntry(entry, out);
+  return out.sort((a, b) => a.path.localeCompare(b.path, undefined, { numeric: true }));
+};
+
+export const fromFileList = (files: FileList): SourceFile[] =>
+  Array.from(files)
+    .map((file) => ({ file, path: file.webkitRelativePath || file.name }))
+    .sort((a, b) => a.path.localeCompare(b.path, undefined, { numeric: true }));
@@ -0,0 +1,89 @@
+import { GifReader } from 'omggif';
+import { describe, expect, it } from 'vitest';
+import { IndexedImage } from './convert';
+import { AnimationFrame, dedupeFrames, encodeGif } from './gif';
+
+const PALETTE = [
+  { r: 0, g: 0, b: 0 },
+  { r: 255, g: 0, b: 0 },
+  { r: 0, g: 255, b: 0 },
+  { r: 0, g: 0, b: 255 },
+  { r: 255, g: 255, b: 255 },
+];
+
+// Seeded noise, so the LZW dictionary fills up and gets reset on the larger frames
+const image = (width: number, height: number, seed: number, transparentIndex: number | null = null): IndexedImage => {
+  let state = seed;
+  const indices = new Uint8Array(width * height).map(() => {
+    state = (state * 1103515245 + 12345) % 2147483648;
+    return state % PALETTE.length;
+  });
+  return { width, height, indices, palette: PALETTE, transparentIndex };
+};
+
+// Decodes every frame back to palette indices
+const decode = (bytes: Uint8Array) => {
+  const reader = new GifReader(bytes);
+  return Array.from({ length: reader.numFrames() }, (_, i) => {
+    const rgba = new Uint8Array(reader.width * reader.height * 4);
+    reader.decodeAndBlitFrameRGBA(i, rgba);
+    const indices = new Uint8Array(reader.width * reader.height);
+    for (let p = 0; p < indices.length; p++) {
+      const alpha = rgba[p * 4 + 3];
+      indices[p] = alpha === 0 ? 255 : PALETTE.findIndex((c) => c.r === rgba[p * 4] && c.g === rgba[p * 4 + 1] && c.b === rgba[p * 4 + 2]);
+    }
+    return { indices, info: reader.frameInfo(i), loopCount: reader.loopCount(), width: reader.width, height: reader.height };
+  });
+};
+
+describe('encodeGif', () => {
+  it('round-trips frames, delays and loop count', () => {
+    const frames: AnimationFrame[] = [
+      { image: image(64, 48, 1), delayMs: 100 },
+      { image: image(64, 48, 2), delayMs: 40 },
+      { image: image(64, 48, 3), delayMs: 1000 },
+    ];
+    const decoded = decode(encodeGif(frames, { loopCount: 3 }));
+    expect(decoded).toHaveLength(3);
+    decoded.forEach((frame, i) => expect(frame.indices).toEqual(frames[i].image.indices));
+    expect(decoded.map((frame) => frame.info.delay)).toEqual([10, 4, 100]);
+    // NETSCAPE2.0 counts repeats after the first play
+    expect(decoded[0].loopCount).toBe(2);
+  });
+
+  it('round-trips a frame large enough to reset the LZW dictionary', () => {
+    const frame = image(256, 256, 7);
+    const [decoded] = decode(encodeGif([{ image: frame, delayMs: 100 }], { loopCount: 0 }));
+    expect(decoded.indices).toEqual(frame.indices);
+  });
+
+  it('scales frames and keeps the transparent slot', () => {
+    const frame = image(5, 3, 4, 0);
+    const [decoded] = decode(encodeGif([{ image: frame, delayMs: 50 }], { loopCount: 0, scale: 2 }));
+    expect([decoded.width, decoded.height]).toEqual([10, 6]);
+    expect(decoded.info.transparent_index).toBe(0);
+    for (let y = 0; y < 6; y++) {
+      for (let x = 0; x < 10; x++) {
+        const source = frame.indices[Math.floor(y / 2) * 5 + Math.floor(x / 2)];
+        expect(decoded.indices[y * 10 + x]).toBe(source === 0 ? 255 : source);
+      }
+    }
+  });
+
+  it('refuses an empty animation', () => {
+    expect(() => encodeGif([], { loopCount: 0 })).toThrow('No frames');
+  });
+});
+
+describe('dedupeFrames', () => {
+  it('merges identical neighbours into one longer frame', () => {
+    const a = image(4, 4, 1);
+    const b = image(4, 4, 2);
+    const merged = dedupeFrames([
+      { image: a, delayMs: 10 },
+      { image: a, delayMs: 20 },
+      { image: b, delayMs: 30 },
+    ]);
+    expect(merged.map((frame) => frame.delayMs)).toEqual([30, 30]);
+  });
+});
@@ -0,0 +1,221 @@
+import { IndexedImage, scaleIndexed } from './convert';
+import { Rgb } from './palette';
+
+export interface AnimationFrame {
+  image: IndexedImage;
+  delayMs: number;
+}
+
+export interface AnimationOptions {
+  // 0 = loop forever, n = play n times
+  loopCount: number;
+  // Integer upscale applied per frame while encoding, keeps only art-size frames in memory
+  scale?: number;
+}
+
+// Growable byte sink
+class ByteWriter {
+  private buffer = new Uint8Array(1024);
+  length = 0;
+
+  private ensure(extra: number) {
+    if (this.length + extra <= this.buffer.length) return;
+    let size = this.buffer.length * 2;
+    while (size < this.length + extra) size *= 2;
+    const next = new Uint8Array(size);
+    next.set(this.buffer.subarray(0, this.length));
+    this.buffer = next;
+  }
+
+  byte(value: number) {
+    this.ensure(1);
+    this.buffer[this.length++] = value & 0xff;
+  }
+
+  u16(value: number) {
+    this.byte(value);
+    this.byte(value >> 8);
+  }
+
+  bytes(values: ArrayLike<number>) {
+    this.ensure(values.length);
+    this.buffer.set(values, this.length);
+    this.length += values.length;
+  }
+
+  text(value: string) {
+    for (let i = 0; i < value.length; i++) this.byte(value.charCodeAt(i));
+  }
+
+  result(): Uint8Array {
+    return this.buffer.slice(0, this.length);
+  }
+}
+
+// Variable-length-code LZW as specified by GIF89a, packed LSB first into 255-byte sub-blocks
+const lzwEncode = (writer: ByteWriter, indices: Uint8Array, minCodeSize: number) => {
+  const clearCode = 1 << minCodeSize;
+  const endCode = clearCode + 1;
+  const dictionary = new Map<number, number>();
+
+  let codeSize = minCodeSize + 1;
+  let nextCode = endCode + 1;
+
+  const block: number[] = [];
+  let bitBuffer = 0;
+  let bitCount = 0;
+
+  const flushBlock = () => {
+    if (block.length === 0) return;
+    writer.byte(block.length);
+    writer.bytes(block);
+    block.length = 0;
+  };
+
+  const emit = (code: number) => {
+    bitBuffer |= code << bitCount;
+    bitCount += codeSize;
+    while (bitCount >= 8) {
+      block.push(bitBuffer & 0xff);
+      if (block.length === 255) flushBlock();
+      bitBuffer >>>= 8;
+      bitCount -= 8;
+    }
+  };
+
+  writer.byte(minCodeSize);
+  emit(clearCode);
+
+  let prefix = indices.length > 0 ? indices[0] : 0;
+  for (let i = 1; i < indices.length; i++) {
+    const k = indices[i];
+    const key = prefix * 256 + k;
+    const existing = dictionary.get(key);
+    if (existing !== undefined) {
+      prefix = existing;
+      continue;
+    }
+
+    emit(prefix);
+    if (nextCode < 4096) {
+      dictionary.set(key, nextCode++);
+      // The decoder widens one code later than the encoder adds it
+      if (nextCode > 1 << codeSize && codeSize < 12) codeSize++;
+    } else {
+      emit(clearCode);
+      dictionary.clear();
+      codeSize = minCodeSize + 1;
+      nextCode = endCode + 1;
+    }
+    prefix = k;
+  }
+
+  emit(prefix);
+  emit(endCode);
+  if (bitCount > 0) {
+    block.push(bitBuffer & 0xff);
+  }
+  flushBlock();
+  writer.byte(0);
+};
+
+// Smallest power-of-two table (2..256) that holds the palette
+const tableBits = (size: number): number => {
+  let bits = 1;
+  while (1 << bits < size) bits++;
+  return bits;
+};
+
+/**
+ * Encodes indexed frames as an animated GIF. All frames share one palette, written
+ * straight into the global color table, so colors come out exactly as converted.
+ */
+export const encodeGif = (frames: AnimationFrame[], options: AnimationOptions): Uint8Array => {
+  if (frames.length === 0) throw new Error('No frames to encode');
+  const scale = options.scale ?? 1;
+  const { palette } = frames[0].image;
+  const width = frames[0].image.width * scale;
+  const height = frames[0].image.height * scale;
+  const bits = tableBits(palette.length);
+  const writer = new ByteWriter();
+
+  // Header + Logical Screen Descriptor
+  writer.text('GIF89a');
+  writer.u16(width);
+  writer.u16(height);
+  writer.byte(0x80 | ((bits - 1) << 4) | (bits - 1));
+  writer.byte(0); // Background color index
+  writer.byte(0); // Pixel aspect ratio
+
+  // Global Color Table, padded to a power of two
+  for (let i = 0; i < 1 << bits; i++) {
+    const color: Rgb = palette[i] ?? { r: 0, g: 0, b: 0 };
+    writer.byte(color.r);
+    writer.byte(color.g);
+    writer.byte(color.b);
+  }
+
+  // NETSCAPE2.0 looping extension, counts repeats after the first play
+  if (frames.length > 1 && options.loopCount !== 1) {
+    writer.bytes([0x21, 0xff, 0x0b]);
+    writer.text('NETSCAPE2.0');
+    writer.bytes([0x03, 0x01]);
+    writer.u16(options.loopCount === 0 ? 0 : options.loopCount - 1);
+    writer.byte(0);
+  }
+
+  // Delays are in centiseconds, carry the rounding error so long animations keep their length
+  let elapsedMs = 0;
+  let writtenCs = 0;
+  for (const frame of frames) {
+    elapsedMs += frame.delayMs;
+    const delayCs = Math.max(1, Math.round(elapsedMs / 10) - writtenCs);
+    writtenCs += delayCs;
+
+    // Graphic Control Extension. With transparency each frame is disposed to the background,
+    // otherwise transparent pixels would show the previous frame.
+    const transparentIndex = frame.image.transparentIndex;
+    writer.bytes([0x21, 0xf9, 0x04]);
+    writer.byte(transparentIndex === null ? 0x04 : 0x08 | 0x01);
+    writer.u16(delayCs);
+    writer.byte(transparentIndex ?? 0);
+    writer.byte(0);
+
+    // Image Descriptor, full frame, no local color table
+    writer.byte(0x2c);
+    writer.u16(0);
+    writer.u16(0);
+    writer.u16(width);
+    writer.u16(height);
+    writer.byte(0);
+
+    lzwEncode(writer, scaleIndexed(frame.image, scale).indices, Math.max(2, bits));
+  }
+
+  writer.byte(0x3b);
+  return writer.result();
+};
+
+const sameIndices = (a: Uint8Array, b: Uint8Array): boolean => {
+  if (a.length !== b.length) return false;
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] !== b[i]) return false;
+  }
+  return true;
+};
+
+/**
+ * Merges consecutive identical frames into one longer frame.
+ */
+export const dedupeFrames = (frames: AnimationFrame[]): AnimationFrame[] => {
+  const result: AnimationFrame[] = [];
+  for (const frame of frames) {
+    const last = result[result.length - 1];
+    if (last && sameIndices(last.image.indices, frame.image.indices)) {
+      last.delayMs += frame.delayMs;
+    } else {
+      result.push({ ...frame });
+    }
+  }
+  return result;
+};
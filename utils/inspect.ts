@@ -0,0 +1,99 @@
+import { RetroSettings } from '../types';
+import { applyContrast, IndexedImage, quantizePixels } from './convert';
+import { Rgb } from './palette';
+import { LUMA_WEIGHTS, preprocessPixels } from './preprocess';
+
+// One converted frame kept around for hover lookups
+export interface ArtAnalysis {
+  data: Uint8ClampedArray; // Art resolution input
+  adjusted: Uint8ClampedArray; // After pre-processing
+  image: IndexedImage;
+  offsets: Float32Array;
+}
+
+export interface PixelInspection {
+  x: number; // Art pixel
+  y: number;
+  sourceX: number; // Top-left of the source block the art pixel averages
+  sourceY: number;
+  color: Rgb; // Averaged source color the converter saw
+  alpha: number;
+  luma: number; // After pre-processing and contrast
+  offset: number; // Added by dithering before quantizing
+  index: number; // Final palette index
+  output: Rgb;
+  transparent: boolean;
+}
+
+export const analyzeArt = (
+  data: Uint8ClampedArray,
+  width: number,
+  height: number,
+  settings: RetroSettings
+): ArtAnalysis => {
+  const offsets = new Float32Array(width * height);
+  return {
+    data,
+    adjusted: preprocessPixels(data, width, height, settings),
+    image: quantizePixels(data, width, height, settings, offsets),
+    offsets,
+  };
+};
+
+// Luma after pre-processing and contrast, the value `threshold` is compared against
+const adjustedLuma = (adjusted: Uint8ClampedArray, p: number, settings: RetroSettings) => {
+  const [wr, wg, wb] = LUMA_WEIGHTS[settings.lumaMode];
+  const i = p * 4;
+  return applyContrast(adjusted[i] * wr + adjusted[i + 1] * wg + adjusted[i + 2] * wb, settings.contrast);
+};
+
+/**
+ * 256-bin histogram of the luma the threshold sees, transparent pixels left out.
+ */
+export const computeHistogram = (
+  data: Uint8ClampedArray,
+  width: number,
+  height: number,
+  settings: RetroSettings
+): Uint32Array => {
+  const adjusted = preprocessPixels(data, width, height, settings);
+  const bins = new Uint32Array(256);
+  for (let p = 0; p < width * height; p++) {
+    if (data[p * 4 + 3] === 0) continue;
+    bins[Math.max(0, Math.min(255, Math.round(adjustedLuma(adjusted, p, settings))))]++;
+  }
+  return bins;
+};
+
+/**
+ * Everything that went into one art pixel, for debugging why a region comes out noisy.
+ * Returns null outside the image.
+ */
+export const inspectPixel = (
+  analysis: ArtAnalysis,
+  x: number,
+  y: number,
+  sourceW: number,
+  sourceH: number,
+  settings: RetroSettings
+): PixelInspection | null => {
+  const { data, adjusted, image, offsets } = analysis;
+  if (x < 0 || y < 0 || x >= image.width || y >= image.height) return null;
+
+  const p = y * image.width + x;
+  const color = { r: data[p * 4], g: data[p * 4 + 1], b: data[p * 4 + 2] };
+  const index = image.indices[p];
+  return {
+    x,
+    y,
+    sourceX: Math.floor((x * sourceW) / image.width),
+    sourceY: Math.floor((y * sourceH) / image.height),
+    color,
+    alpha: data[p * 4 + 3],
+    luma: adjustedLuma(adjusted, p, settings),
+    offset: offsets[p],
+    index,
+    output: image.palette[index],
+    transparent: index === image.transparentIndex,
+  };
+};
@@ -0,0 +1,55 @@
+import { FileType } from '../types';
+
+export type LiveSourceType = 'camera' | 'screen';
+
+export interface Resolution {
+  label: string;
+  width: number;
+  height: number;
+}
+
+// Ideal sizes, the device picks the closest mode it has
+export const RESOLUTIONS: Resolution[] = [
+  { label: '480p', width: 640, height: 480 },
+  { label: '720p', width: 1280, height: 720 },
+  { label: '1080p', width: 1920, height: 1080 },
+];
+
+export const supportsCamera = () => !!navigator.mediaDevices?.getUserMedia;
+
+export const supportsScreenCapture = () => !!navigator.mediaDevices?.getDisplayMedia;
+
+export const isLiveSource = (type: FileType): type is LiveSourceType => type === 'camera' || type === 'screen';
+
+// Sources that play through the <video> element and need the frame loop
+export const isMotionSource = (type: FileType) => type === 'video' || isLiveSource(type);
+
+// Labels stay empty until the user has granted camera access once
+export const listCameras = async (): Promise<MediaDeviceInfo[]> => {
+  if (!navigator.mediaDevices?.enumerateDevices) return [];
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  return devices.filter((d) => d.kind === 'videoinput');
+};
+
+export const openCamera = (resolution: Resolution, deviceId?: string): Promise<MediaStream> =>
+  navigator.mediaDevices.getUserMedia({
+    video: {
+      deviceId: deviceId ? { exact: deviceId } : undefined,
+      width: { ideal: resolution.width },
+      height: { ideal: resolution.height },
+    },
+    audio: false,
+  });
+
+export const openScreen = (resolution: Resolution): Promise<MediaStream> =>
+  navigator.mediaDevices.getDisplayMedia({
+    video: { width: { ideal: resolution.width }, height: { ideal: resolution.height } },
+    audio: false,
+  });
+
+export const stopStream = (stream: MediaStream) => {
+  stream.getTracks().forEach((track) => track.stop());
+};
+
+// Display name for the info badge
+export const streamLabel = (stream: MediaStream, fallback: string) => stream.getVideoTracks()[0]?.label || fallback;
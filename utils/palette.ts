@@ -0,0 +1,157 @@
+import { ColorSpace } from '../types';
+import { hexToRgb } from './dither';
+
+export interface Rgb {
+  r: number;
+  g: number;
+  b: number;
+}
+
+export const MAX_PALETTE_SIZE = 256;
+
+export interface BuiltinPalette {
+  name: string;
+  colors: string[];
+}
+
+// Classic hardware palettes
+export const BUILTIN_PALETTES: BuiltinPalette[] = [
+  {
+    name: 'Game Boy',
+    colors: ['#0f380f', '#306230', '#8bac0f', '#9bbc0f'],
+  },
+  {
+    // Mode 4, palette 1, high intensity
+    name: 'CGA',
+    colors: ['#000000', '#55ffff', '#ff55ff', '#ffffff'],
+  },
+  {
+    name: 'EGA',
+    colors: [
+      '#000000', '#0000aa', '#00aa00', '#00aaaa', '#aa0000', '#aa00aa', '#aa5500', '#aaaaaa',
+      '#555555', '#5555ff', '#55ff55', '#55ffff', '#ff5555', '#ff55ff', '#ffff55', '#ffffff',
+    ],
+  },
+  {
+    name: 'PICO-8',
+    colors: [
+      '#000000', '#1d2b53', '#7e2553', '#008751', '#ab5236', '#5f574f', '#c2c3c7', '#fff1e8',
+      '#ff004d', '#ffa300', '#ffec27', '#00e436', '#29adff', '#83769c', '#ff77a8', '#ffccaa',
+    ],
+  },
+  {
+    // Pepto's measured palette
+    name: 'C64',
+    colors: [
+      '#000000', '#ffffff', '#68372b', '#70a4b2', '#6f3d86', '#588d43', '#352879', '#b8c76f',
+      '#6f4f25', '#433900', '#9a6759', '#444444', '#6c6c6c', '#9ad284', '#6c5eb5', '#959595',
+    ],
+  },
+  {
+    // The 2C02 PPU colors without duplicates
+    name: 'NES',
+    colors: [
+      '#7c7c7c', '#0000fc', '#0000bc', '#4428bc', '#940084', '#a80020', '#a81000', '#881400',
+      '#503000', '#007800', '#006800', '#005800', '#004058', '#000000', '#bcbcbc', '#0078f8',
+      '#0058f8', '#6844fc', '#d800cc', '#e40058', '#f83800', '#e45c10', '#ac7c00', '#00b800',
+      '#00a800', '#00a844', '#008888', '#f8f8f8', '#3cbcfc', '#6888fc', '#9878f8', '#f878f8',
+      '#f85898', '#f87858', '#fca044', '#f8b800', '#b8f818', '#58d854', '#58f898', '#00e8d8',
+      '#787878', '#fcfcfc', '#a4e4fc', '#b8b8f8', '#d8b8f8', '#f8b8f8', '#f8a4c0', '#f0d0b0',
+      '#fce0a8', '#f8d878', '#d8f878', '#b8f8b8', '#b8f8d8', '#00fcfc', '#f8d8f8',
+    ],
+  },
+];
+
+// sRGB (D65) -> CIELAB
+const srgbToLinear = (c: number): number => {
+  const v = c / 255;
+  return v <= 0.04045 ? v / 12.92 : Math.pow((v + 0.055) / 1.055, 2.4);
+};
+
+const labF = (t: number): number => (t > 0.008856 ? Math.cbrt(t) : 7.787 * t + 16 / 116);
+
+export const rgbToLab = (r: number, g: number, b: number): [number, number, number] => {
+  const lr = srgbToLinear(r);
+  const lg = srgbToLinear(g);
+  const lb = srgbToLinear(b);
+
+  const x = (lr * 0.4124 + lg * 0.3576 + lb * 0.1805) / 0.95047;
+  const y = lr * 0.2126 + lg * 0.7152 + lb * 0.0722;
+  const z = (lr * 0.0193 + lg * 0.1192 + lb * 0.9505) / 1.08883;
+
+  const fx = labF(x);
+  const fy = labF(y);
+  const fz = labF(z);
+  return [116 * fy - 16, 500 * (fx - fy), 200 * (fy - fz)];
+};
+
+// CIELAB (D65) -> sRGB, clamped to the displayable range
+const linearToSrgb = (v: number): number => {
+  const c = v <= 0.0031308 ? v * 12.92 : 1.055 * Math.pow(v, 1 / 2.4) - 0.055;
+  return Math.max(0, Math.min(255, Math.round(c * 255)));
+};
+
+const labFInverse = (t: number): number => (t > 0.206893 ? t * t * t : (t - 16 / 116) / 7.787);
+
+export const labToRgb = (L: number, A: number, B: number): Rgb => {
+  const fy = (L + 16) / 116;
+  const x = labFInverse(fy + A / 500) * 0.95047;
+  const y = labFInverse(fy);
+  const z = labFInverse(fy - B / 200) * 1.08883;
+
+  return {
+    r: linearToSrgb(x * 3.2406 + y * -1.5372 + z * -0.4986),
+    g: linearToSrgb(x * -0.9689 + y * 1.8758 + z * 0.0415),
+    b: linearToSrgb(x * 0.0557 + y * -0.204 + z * 1.057),
+  };
+};
+
+export const parsePalette = (colors: string[]): Rgb[] => colors.map(hexToRgb);
+
+/**
+ * Returns a function mapping an RGB triple to the index of the closest palette entry.
+ * Results are memoized per 24-bit color, flat areas and ordered dither hit the cache a lot.
+ */
+export const createPaletteMatcher = (palette: Rgb[], space: ColorSpace) => {
+  const cache = new Map<number, number>();
+  const labPalette = space === 'lab' ? palette.map((c) => rgbToLab(c.r, c.g, c.b)) : [];
+
+  const distance = (r: number, g: number, b: number, lab: [number, number, number] | null, index: number): number => {
+    if (lab) {
+      const [L, A, B] = labPalette[index];
+      return (lab[0] - L) ** 2 + (lab[1] - A) ** 2 + (lab[2] - B) ** 2;
+    }
+    const c = palette[index];
+    const dr = r - c.r;
+    const dg = g - c.g;
+    const db = b - c.b;
+    if (space === 'weighted-rgb') {
+      // "Redmean" approximation of perceptual distance
+      const rMean = (r + c.r) / 2;
+      return (2 + rMean / 256) * dr * dr + 4 * dg * dg + (2 + (255 - rMean) / 256) * db * db;
+    }
+    return dr * dr + dg * dg + db * db;
+  };
+
+  return (r: number, g: number, b: number): number => {
+    r = Math.max(0, Math.min(255, Math.round(r)));
+    g = Math.max(0, Math.min(255, Math.round(g)));
+    b = Math.max(0, Math.min(255, Math.round(b)));
+    const key = (r << 16) | (g << 8) | b;
+    const hit = cache.get(key);
+    if (hit !== undefined) return hit;
+
+    const lab = space === 'lab' ? rgbToLab(r, g, b) : null;
+    let best = 0;
+    let bestDist = Infinity;
+    for (let i = 0; i < palette.length; i++) {
+      const d = distance(r, g, b, lab, i);
+      if (d < bestDist) {
+        bestDist = d;
+        best = i;
+      }
+    }
+    cache.set(key, best);
+    return best;
+  };
+};
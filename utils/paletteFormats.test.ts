@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { PALETTE_FORMATS, parsePaletteFile, serializePalette } from './paletteFormats';
+
+const PALETTE = { name: 'Test Palette', colors: ['#000000', '#ff8000', '#0f380f', '#ffffff', '#123456'] };
+
+const encode = (text: string) => new TextEncoder().encode(text).buffer;
+
+describe('palette formats', () => {
+  for (const format of PALETTE_FORMATS) {
+    it(`round-trips ${format.label}`, async () => {
+      const blob = serializePalette(PALETTE, format.value);
+      const parsed = parsePaletteFile(`test.${format.extension}`, await blob.arrayBuffer());
+      expect(parsed.colors).toEqual(PALETTE.colors);
+    });
+  }
+
+  it('keeps the palette name where the format has one', async () => {
+    for (const extension of ['gpl', 'json']) {
+      const blob = serializePalette(PALETTE, extension as 'gpl' | 'json');
+      expect(parsePaletteFile(`other.${extension}`, await blob.arrayBuffer()).name).toBe('Test Palette');
+    }
+    expect(parsePaletteFile('fallback.hex', encode('ffffff\n')).name).toBe('fallback');
+  });
+
+  it('reads hand-written files with comments, CRLF and a BOM', () => {
+    const gpl = '\uFEFFGIMP Palette\r\nName: Hand\r\n# comment\r\n255   0   0\tRed\r\n  0 255   0\r\n';
+    expect(parsePaletteFile('x.gpl', encode(gpl))).toEqual({ name: 'Hand', colors: ['#ff0000', '#00ff00'] });
+    expect(parsePaletteFile('x.hex', encode('#AABBCC\n\nddeeff')).colors).toEqual(['#aabbcc', '#ddeeff']);
+  });
+
+  it('reports malformed files with the offending line', () => {
+    expect(() => parsePaletteFile('x.gpl', encode('GIMP Palette\n1 2\n'))).toThrow('Line 2');
+    expect(() => parsePaletteFile('x.pal', encode('JASC-PAL\r\n0100\r\n2\r\n1 2 3\r\n'))).toThrow('Expected 2 colors');
+    expect(() => parsePaletteFile('x.hex', encode('12345\n'))).toThrow('Line 1');
+    expect(() => parsePaletteFile('x.json', encode('{"colors": [1]}'))).toThrow('colors[0]');
+    expect(() => parsePaletteFile('x.ase', new ArrayBuffer(4))).toThrow('too short');
+    expect(() => parsePaletteFile('x.txt', new ArrayBuffer(0))).toThrow('Unsupported');
+  });
+});
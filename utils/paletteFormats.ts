@@ -0,0 +1,290 @@
+import { hexToRgb, rgbToHex } from './dither';
+import { labToRgb, MAX_PALETTE_SIZE } from './palette';
+
+export type PaletteFormat = 'gpl' | 'pal' | 'hex' | 'ase' | 'json';
+
+export interface NamedPalette {
+  name: string;
+  colors: string[]; // Hex with leading #
+}
+
+export const PALETTE_FORMATS: { value: PaletteFormat; label: string; extension: string }[] = [
+  { value: 'gpl', label: 'GIMP (.gpl)', extension: 'gpl' },
+  { value: 'pal', label: 'JASC (.pal)', extension: 'pal' },
+  { value: 'hex', label: 'Plain (.hex)', extension: 'hex' },
+  { value: 'ase', label: 'Adobe (.ase)', extension: 'ase' },
+  { value: 'json', label: 'Lospec (.json)', extension: 'json' },
+];
+
+const HEX_LINE = /^#?([0-9a-f]{6})$/i;
+
+const channel = (value: string, line: number): number => {
+  const n = Number(value);
+  if (!Number.isInteger(n) || n < 0 || n > 255) {
+    throw new Error(`Line ${line}: "${value}" is not a color channel between 0 and 255`);
+  }
+  return n;
+};
+
+const checkColors = (colors: string[]): string[] => {
+  if (colors.length === 0) throw new Error('The file does not contain any colors');
+  if (colors.length > MAX_PALETTE_SIZE) {
+    throw new Error(`The palette has ${colors.length} colors, at most ${MAX_PALETTE_SIZE} are supported`);
+  }
+  return colors;
+};
+
+const baseName = (fileName: string): string => fileName.replace(/\.[^.]+$/, '');
+
+// --- GIMP .gpl ---
+
+const parseGpl = (text: string, fallbackName: string): NamedPalette => {
+  const lines = text.split(/\r?\n/);
+  if (lines[0].trim() !== 'GIMP Palette') {
+    throw new Error('Missing "GIMP Palette" header on the first line');
+  }
+  let name = fallbackName;
+  const colors: string[] = [];
+  lines.slice(1).forEach((raw, i) => {
+    const line = raw.trim();
+    if (!line || line.startsWith('#')) return;
+    const header = /^(Name|Columns):\s*(.*)$/i.exec(line);
+    if (header) {
+      if (header[1].toLowerCase() === 'name' && header[2]) name = header[2];
+      return;
+    }
+    const parts = line.split(/\s+/);
+    if (parts.length < 3) throw new Error(`Line ${i + 2}: expected "R G B [name]", got "${line}"`);
+    colors.push(rgbToHex({ r: channel(parts[0], i + 2), g: channel(parts[1], i + 2), b: channel(parts[2], i + 2) }));
+  });
+  return { name, colors: checkColors(colors) };
+};
+
+const serializeGpl = ({ name, colors }: NamedPalette): string => {
+  const rows = colors.map((hex) => {
+    const { r, g, b } = hexToRgb(hex);
+    return `${String(r).padStart(3)} ${String(g).padStart(3)} ${String(b).padStart(3)}\t${hex.slice(1)}`;
+  });
+  return ['GIMP Palette', `Name: ${name}`, `Columns: ${Math.min(16, colors.length)}`, '#', ...rows, ''].join('\n');
+};
+
+// --- JASC .pal ---
+
+const parsePal = (text: string, name: string): NamedPalette => {
+  const lines = text.split(/\r?\n/).map((l) => l.trim());
+  if (lines[0] !== 'JASC-PAL') throw new Error('Missing "JASC-PAL" header on the first line');
+  if (lines[1] !== '0100') throw new Error(`Line 2: unsupported JASC version "${lines[1]}"`);
+  const count = Number(lines[2]);
+  if (!Number.isInteger(count) || count <= 0) throw new Error(`Line 3: "${lines[2]}" is not a valid color count`);
+
+  const colors: string[] = [];
+  for (let i = 0; i < count; i++) {
+    const lineNo = i + 4;
+    const line = lines[i + 3];
+    if (line === undefined || line === '') {
+      throw new Error(`Expected ${count} colors but the file ends after ${i}`);
+    }
+    const parts = line.split(/\s+/);
+    if (parts.length < 3) throw new Error(`Line ${lineNo}: expected "R G B", got "${line}"`);
+    colors.push(rgbToHex({ r: channel(parts[0], lineNo), g: channel(parts[1], lineNo), b: channel(parts[2], lineNo) }));
+  }
+  return { name, colors: checkColors(colors) };
+};
+
+const serializePal = ({ colors }: NamedPalette): string => {
+  const rows = colors.map((hex) => {
+    const { r, g, b } = hexToRgb(hex);
+    return `${r} ${g} ${b}`;
+  });
+  // JASC readers expect CRLF
+  return ['JASC-PAL', '0100', String(colors.length), ...rows, ''].join('\r\n');
+};
+
+// --- Plain .hex ---
+
+const parseHex = (text: string, name: string): NamedPalette => {
+  const colors: string[] = [];
+  text.split(/\r?\n/).forEach((raw, i) => {
+    const line = raw.trim();
+    if (!line) return;
+    const match = HEX_LINE.exec(line);
+    if (!match) throw new Error(`Line ${i + 1}: "${line}" is not a 6-digit hex color`);
+    colors.push(`#${match[1].toLowerCase()}`);
+  });
+  return { name, colors: checkColors(colors) };
+};
+
+const serializeHex = ({ colors }: NamedPalette): string =>
+  colors.map((hex) => hex.slice(1)).join('\n') + '\n';
+
+// --- Lospec .json ---
+
+const parseLospec = (text: string, fallbackName: string): NamedPalette => {
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    throw new Error('The file is not valid JSON');
+  }
+  const data = json as { name?: unknown; colors?: unknown };
+  if (!data || typeof data !== 'object' || !Array.isArray(data.colors)) {
+    throw new Error('Expected a Lospec palette object with a "colors" array');
+  }
+  const colors = data.colors.map((value, i) => {
+    const match = typeof value === 'string' ? HEX_LINE.exec(value.trim()) : null;
+    if (!match) throw new Error(`colors[${i}]: ${JSON.stringify(value)} is not a 6-digit hex color`);
+    return `#${match[1].toLowerCase()}`;
+  });
+  const name = typeof data.name === 'string' && data.name ? data.name : fallbackName;
+  return { name, colors: checkColors(colors) };
+};
+
+const serializeLospec = ({ name, colors }: NamedPalette): string =>
+  JSON.stringify({ name, author: '', colors: colors.map((hex) => hex.slice(1)) }, null, 2);
+
+// --- Adobe Swatch Exchange .ase ---
+
+const ASE_COLOR_ENTRY = 0x0001;
+
+const parseAse = (buffer: ArrayBuffer, name: string): NamedPalette => {
+  const view = new DataView(buffer);
+  const fail = (message: string): never => {
+    throw new Error(`Invalid ASE file: ${message}`);
+  };
+  if (buffer.byteLength < 12) fail('file is too short');
+  const signature = String.fromCharCode(view.getUint8(0), view.getUint8(1), view.getUint8(2), view.getUint8(3));
+  if (signature !== 'ASEF') fail('missing "ASEF" signature');
+
+  const blockCount = view.getUint32(8);
+  const colors: string[] = [];
+  let offset = 12;
+  for (let block = 0; block < blockCount; block++) {
+    if (offset + 6 > buffer.byteLength) fail(`block ${block + 1} of ${blockCount} is truncated`);
+    const type = view.getUint16(offset);
+    const length = view.getUint32(offset + 2);
+    const start = offset + 6;
+    offset = start + length;
+    if (offset > buffer.byteLength) fail(`block ${block + 1} of ${blockCount} is truncated`);
+    // Group start/end blocks carry no colors
+    if (type !== ASE_COLOR_ENTRY) continue;
+
+    const nameLength = view.getUint16(start);
+    let p = start + 2 + nameLength * 2;
+    if (p + 4 > offset) fail(`color block ${block + 1} is too short`);
+    const model = String.fromCharCode(
+      view.getUint8(p), view.getUint8(p + 1), view.getUint8(p + 2), view.getUint8(p + 3)
+    ).trim();
+    p += 4;
+    const values: number[] = [];
+    const valueCount = model === 'CMYK' ? 4 : model === 'Gray' ? 1 : 3;
+    if (p + valueCount * 4 > offset) fail(`color block ${block + 1} is too short`);
+    for (let i = 0; i < valueCount; i++) values.push(view.getFloat32(p + i * 4));
+
+    switch (model) {
+      case 'RGB':
+        colors.push(rgbToHex({ r: values[0] * 255, g: values[1] * 255, b: values[2] * 255 }));
+        break;
+      case 'Gray':
+        colors.push(rgbToHex({ r: values[0] * 255, g: values[0] * 255, b: values[0] * 255 }));
+        break;
+      case 'CMYK': {
+        const [c, m, y, k] = values;
+        colors.push(rgbToHex({ r: 255 * (1 - c) * (1 - k), g: 255 * (1 - m) * (1 - k), b: 255 * (1 - y) * (1 - k) }));
+        break;
+      }
+      case 'LAB':
+        // L is stored as 0..1
+        colors.push(rgbToHex(labToRgb(values[0] * 100, values[1], values[2])));
+        break;
+      default:
+        fail(`unknown color model "${model}" in block ${block + 1}`);
+    }
+  }
+  return { name, colors: checkColors(colors) };
+};
+
+const serializeAse = ({ colors }: NamedPalette): Uint8Array => {
+  const blocks = colors.map((hex) => {
+    const label = hex.slice(1);
+    // Name is UTF-16BE with a null terminator
+    const nameLength = label.length + 1;
+    const length = 2 + nameLength * 2 + 4 + 12 + 2;
+    const block = new DataView(new ArrayBuffer(6 + length));
+    block.setUint16(0, ASE_COLOR_ENTRY);
+    block.setUint32(2, length);
+    block.setUint16(6, nameLength);
+    for (let i = 0; i < label.length; i++) block.setUint16(8 + i * 2, label.charCodeAt(i));
+    let p = 8 + nameLength * 2;
+    'RGB '.split('').forEach((ch, i) => block.setUint8(p + i, ch.charCodeAt(0)));
+    p += 4;
+    const { r, g, b } = hexToRgb(hex);
+    block.setFloat32(p, r / 255);
+    block.setFloat32(p + 4, g / 255);
+    block.setFloat32(p + 8, b / 255);
+    // Color type 2 = normal
+    block.setUint16(p + 12, 2);
+    return new Uint8Array(block.buffer);
+  });
+
+  const size = 12 + blocks.reduce((sum, b) => sum + b.length, 0);
+  const out = new Uint8Array(size);
+  const header = new DataView(out.buffer);
+  'ASEF'.split('').forEach((ch, i) => header.setUint8(i, ch.charCodeAt(0)));
+  header.setUint16(4, 1);
+  header.setUint16(6, 0);
+  header.setUint32(8, blocks.length);
+  let offset = 12;
+  for (const block of blocks) {
+    out.set(block, offset);
+    offset += block.length;
+  }
+  return out;
+};
+
+// --- Public API ---
+
+export const detectPaletteFormat = (fileName: string): PaletteFormat => {
+  const extension = fileName.split('.').pop()?.toLowerCase();
+  const format = PALETTE_FORMATS.find((f) => f.extension === extension);
+  if (!format) {
+    throw new Error(`Unsupported palette file "${fileName}", expected .gpl, .pal, .hex, .ase or .json`);
+  }
+  return format.value;
+};
+
+/**
+ * Parses a palette file, the format is picked by extension.
+ * Throws an Error with a human readable message for malformed files.
+ */
+export const parsePaletteFile = (fileName: string, data: ArrayBuffer): NamedPalette => {
+  const format = detectPaletteFormat(fileName);
+  const name = baseName(fileName);
+  if (format === 'ase') return parseAse(data, name);
+
+  const text = new TextDecoder().decode(data).replace(/^\uFEFF/, '');
+  switch (format) {
+    case 'gpl':
+      return parseGpl(text, name);
+    case 'pal':
+      return parsePal(text, name);
+    case 'hex':
+      return parseHex(text, name);
+    case 'json':
+      return parseLospec(text, name);
+  }
+};
+
+export const serializePalette = (palette: NamedPalette, format: PaletteFormat): Blob => {
+  switch (format) {
+    case 'gpl':
+      return new Blob([serializeGpl(palette)], { type: 'text/plain' });
+    case 'pal':
+      return new Blob([serializePal(palette)], { type: 'text/plain' });
+    case 'hex':
+      return new Blob([serializeHex(palette)], { type: 'text/plain' });
+    case 'ase':
+      return new Blob([serializeAse(palette)], { type: 'application/octet-stream' });
+    case 'json':
+      return new Blob([serializeLospec(palette)], { type: 'application/json' });
+  }
+};
@@ -0,0 +1,43 @@
+import { NamedPalette } from './paletteFormats';
+
+const STORAGE_KEY = 'retrobit.palettes';
+
+export interface UserPalette extends NamedPalette {
+  id: string;
+}
+
+const isUserPalette = (value: unknown): value is UserPalette => {
+  const p = value as UserPalette;
+  return (
+    !!p &&
+    typeof p.id === 'string' &&
+    typeof p.name === 'string' &&
+    Array.isArray(p.colors) &&
+    p.colors.every((c) => typeof c === 'string' && /^#[0-9a-f]{6}$/i.test(c))
+  );
+};
+
+// Corrupt or foreign entries are dropped instead of breaking the panel
+export const loadUserPalettes = (): UserPalette[] => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    const parsed: unknown = raw ? JSON.parse(raw) : [];
+    return Array.isArray(parsed) ? parsed.filter(isUserPalette) : [];
+  } catch {
+    return [];
+  }
+};
+
+export const saveUserPalettes = (palettes: UserPalette[]): void => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(palettes));
+  } catch (e) {
+    console.error('Failed to save palettes', e);
+  }
+};
+
+export const createUserPalette = (palette: NamedPalette): UserPalette => ({
+  id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+  name: palette.name,
+  colors: [...palette.colors],
+});
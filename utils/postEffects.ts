@@ -0,0 +1,247 @@
+import { PhosphorMask, RetroSettings } from '../types';
+
+// Working canvases, reused between frames and only resized when the output changes
+const scratchCanvases: HTMLCanvasElement[] = [];
+
+const scratch = (slot: number, width: number, height: number) => {
+  let canvas = scratchCanvases[slot];
+  if (!canvas) {
+    canvas = document.createElement('canvas');
+    scratchCanvases[slot] = canvas;
+  }
+  if (canvas.width !== width || canvas.height !== height) {
+    canvas.width = width;
+    canvas.height = height;
+  }
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas 2D context unavailable');
+  ctx.globalCompositeOperation = 'source-over';
+  ctx.globalAlpha = 1;
+  return { canvas, ctx };
+};
+
+// Blurred copy size for bloom, a fraction of the output
+const BLOOM_DOWNSCALE = 8;
+// Chromatic aberration at full strength, as a fraction of the width
+const CHROMATIC_MAX_SHIFT = 0.004;
+// Barrel distortion at full strength
+const CURVATURE_MAX = 0.25;
+// LCD gaps need this many output pixels per art pixel to be visible
+const LCD_MIN_CELL = 3;
+
+export const hasPostEffects = (settings: RetroSettings) =>
+  settings.gridLine ||
+  settings.phosphorMask !== 'none' ||
+  settings.curvature > 0 ||
+  settings.vignette > 0 ||
+  settings.bloom > 0 ||
+  settings.chromatic > 0 ||
+  settings.lcdGrid > 0;
+
+/**
+ * Paints over a copy of the frame with `operation`, then restores the frame's alpha,
+ * so transparent art stays transparent under every effect.
+ */
+const paintOver = (
+  ctx: CanvasRenderingContext2D,
+  operation: GlobalCompositeOperation,
+  paint: (target: CanvasRenderingContext2D, width: number, height: number) => void
+) => {
+  const { width, height } = ctx.canvas;
+  const { canvas, ctx: sctx } = scratch(0, width, height);
+  sctx.clearRect(0, 0, width, height);
+  sctx.drawImage(ctx.canvas, 0, 0);
+  sctx.globalCompositeOperation = operation;
+  paint(sctx, width, height);
+  sctx.globalCompositeOperation = 'destination-in';
+  sctx.globalAlpha = 1;
+  sctx.drawImage(ctx.canvas, 0, 0);
+
+  ctx.globalCompositeOperation = 'copy';
+  ctx.drawImage(canvas, 0, 0);
+  ctx.globalCompositeOperation = 'source-over';
+};
+
+// Dark gaps between art pixels, the screen-door look of handheld LCDs
+const drawLcdGrid = (ctx: CanvasRenderingContext2D, cellW: number, cellH: number, amount: number) => {
+  if (Math.min(cellW, cellH) < LCD_MIN_CELL) return;
+  const gap = Math.max(1, Math.round(Math.min(cellW, cellH) * 0.15));
+  paintOver(ctx, 'source-over', (target, width, height) => {
+    target.fillStyle = `rgba(0,0,0,${amount * 0.6})`;
+    for (let x = cellW; x < width; x += cellW) target.fillRect(Math.round(x) - gap, 0, gap, height);
+    for (let y = cellH; y < height; y += cellH) target.fillRect(0, Math.round(y) - gap, width, gap);
+  });
+};
+
+// Red and blue drift apart sideways, like a badly converged tube
+const drawChromatic = (ctx: CanvasRenderingContext2D, amount: number) => {
+  const { width, height } = ctx.canvas;
+  const shift = Math.round(width * CHROMATIC_MAX_SHIFT * amount);
+  if (shift < 1) return;
+
+  const { canvas: frame, ctx: frameCtx } = scratch(1, width, height);
+  frameCtx.clearRect(0, 0, width, height);
+  frameCtx.drawImage(ctx.canvas, 0, 0);
+  const { canvas: channel, ctx: channelCtx } = scratch(2, width, height);
+
+  ctx.clearRect(0, 0, width, height);
+  ctx.globalCompositeOperation = 'lighter';
+  for (const [color, dx] of [['#ff0000', -shift], ['#00ff00', 0], ['#0000ff', shift]] as const) {
+    channelCtx.globalCompositeOperation = 'copy';
+    channelCtx.drawImage(frame, 0, 0);
+    channelCtx.globalCompositeOperation = 'multiply';
+    channelCtx.fillStyle = color;
+    channelCtx.fillRect(0, 0, width, height);
+    channelCtx.globalCompositeOperation = 'destination-in';
+    channelCtx.drawImage(frame, 0, 0);
+    ctx.drawImage(channel, dx, 0);
+  }
+  ctx.globalCompositeOperation = 'source-over';
+};
+
+// Dark lines every `spacing` rows, half a period thick
+const drawScanlines = (ctx: CanvasRenderingContext2D, intensity: number, spacing: number) => {
+  const thickness = Math.max(1, Math.floor(spacing / 2));
+  paintOver(ctx, 'overlay', (target, width, height) => {
+    target.fillStyle = `rgba(0,0,0,${intensity})`;
+    for (let y = 0; y < height; y += spacing) {
+      target.fillRect(0, y, width, thickness);
+    }
+  });
+};
+
+let maskCache: { key: string; tile: HTMLCanvasElement } | null = null;
+
+/**
+ * One repeat of the phosphor layout, each subpixel a channel at full strength with the
+ * others let through by 1 - intensity. Aperture grille: vertical RGB stripes.
+ * RGB (shadow mask): staggered triads of 2px phosphors, every other pair of rows shifted.
+ */
+const maskTile = (mask: PhosphorMask, intensity: number): HTMLCanvasElement => {
+  const key = `${mask}@${intensity}`;
+  if (maskCache?.key === key) return maskCache.tile;
+
+  const rows =
+    mask === 'aperture'
+      ? [[0, 1, 2]]
+      : [
+          [0, 0, 1, 1, 2, 2],
+          [0, 0, 1, 1, 2, 2],
+          [1, 2, 2, 0, 0, 1],
+          [1, 2, 2, 0, 0, 1],
+        ];
+  const tile = document.createElement('canvas');
+  tile.width = rows[0].length;
+  tile.height = rows.length;
+  const ctx = tile.getContext('2d')!;
+  const image = ctx.createImageData(tile.width, tile.height);
+  const dim = Math.round(255 * (1 - intensity));
+  rows.forEach((row, y) =>
+    row.forEach((channel, x) => {
+      const i = (y * tile.width + x) * 4;
+      for (let c = 0; c < 3; c++) image.data[i + c] = c === channel ? 255 : dim;
+      image.data[i + 3] = 255;
+    })
+  );
+  ctx.putImageData(image, 0, 0);
+  maskCache = { key, tile };
+  return tile;
+};
+
+const drawPhosphorMask = (ctx: CanvasRenderingContext2D, mask: PhosphorMask, intensity: number) => {
+  const pattern = ctx.createPattern(maskTile(mask, intensity), 'repeat');
+  if (!pattern) return;
+  paintOver(ctx, 'multiply', (target, width, height) => {
+    target.fillStyle = pattern;
+    target.fillRect(0, 0, width, height);
+  });
+};
+
+// Soft glow: a heavily shrunk copy stretched back with smoothing, screened on top
+const drawBloom = (ctx: CanvasRenderingContext2D, amount: number) => {
+  const { width, height } = ctx.canvas;
+  const { canvas: small, ctx: smallCtx } = scratch(
+    3,
+    Math.max(1, Math.round(width / BLOOM_DOWNSCALE)),
+    Math.max(1, Math.round(height / BLOOM_DOWNSCALE))
+  );
+  smallCtx.imageSmoothingEnabled = true;
+  smallCtx.imageSmoothingQuality = 'high';
+  smallCtx.clearRect(0, 0, small.width, small.height);
+  smallCtx.drawImage(ctx.canvas, 0, 0, small.width, small.height);
+
+  paintOver(ctx, 'screen', (target) => {
+    target.imageSmoothingEnabled = true;
+    target.globalAlpha = amount;
+    target.drawImage(small, 0, 0, width, height);
+  });
+};
+
+// Source pixel for every output pixel of a curved screen, -1 past the edge. Cached per size and amount.
+let curvatureCache: { key: string; map: Int32Array } | null = null;
+
+const curvatureMap = (width: number, height: number, amount: number): Int32Array => {
+  const key = `${width}x${height}@${amount}`;
+  if (curvatureCache?.key === key) return curvatureCache.map;
+
+  const k = amount * CURVATURE_MAX;
+  const map = new Int32Array(width * height);
+  for (let y = 0; y < height; y++) {
+    const v = ((y + 0.5) / height) * 2 - 1;
+    for (let x = 0; x < width; x++) {
+      const u = ((x + 0.5) / width) * 2 - 1;
+      // Sampling further out towards the edges bulges the picture
+      const f = 1 + k * (u * u + v * v);
+      const sx = Math.floor((((u * f + 1) / 2) * width));
+      const sy = Math.floor((((v * f + 1) / 2) * height));
+      map[y * width + x] = sx < 0 || sx >= width || sy < 0 || sy >= height ? -1 : sy * width + sx;
+    }
+  }
+  curvatureCache = { key, map };
+  return map;
+};
+
+const drawCurvature = (ctx: CanvasRenderingContext2D, amount: number) => {
+  const { width, height } = ctx.canvas;
+  const map = curvatureMap(width, height, amount);
+  const source = ctx.getImageData(0, 0, width, height);
+  const output = ctx.createImageData(width, height);
+  const from = new Uint32Array(source.data.buffer);
+  const to = new Uint32Array(output.data.buffer);
+  for (let i = 0; i < map.length; i++) {
+    if (map[i] >= 0) to[i] = from[map[i]];
+  }
+  ctx.putImageData(output, 0, 0);
+};
+
+// Darkened corners, fading in from a third of the way out
+const drawVignette = (ctx: CanvasRenderingContext2D, amount: number) => {
+  paintOver(ctx, 'source-over', (target, width, height) => {
+    const radius = Math.hypot(width, height) / 2;
+    const gradient = target.createRadialGradient(width / 2, height / 2, radius * 0.35, width / 2, height / 2, radius);
+    gradient.addColorStop(0, 'rgba(0,0,0,0)');
+    gradient.addColorStop(1, `rgba(0,0,0,${amount})`);
+    target.fillStyle = gradient;
+    target.fillRect(0, 0, width, height);
+  });
+};
+
+/**
+ * Runs the enabled display effects over the upscaled frame on `ctx`, in output pixels, so the
+ * preview and exports match. Order follows the light: LCD grid, beam convergence, scanlines,
+ * phosphor mask, glow, glass curvature, vignette. `cellW`/`cellH` are output pixels per art pixel.
+ */
+export const applyPostEffects = (
+  ctx: CanvasRenderingContext2D,
+  settings: RetroSettings,
+  cellW: number,
+  cellH: number
+) => {
+  if (settings.lcdGrid > 0) drawLcdGrid(ctx, cellW, cellH, settings.lcdGrid);
+  if (settings.chromatic > 0) drawChromatic(ctx, settings.chromatic);
+  if (settings.gridLine) drawScanlines(ctx, settings.scanlineIntensity, settings.scanlineSpacing);
+  if (settings.phosphorMask !== 'none') drawPhosphorMask(ctx, settings.phosphorMask, settings.maskIntensity);
+  if (settings.bloom > 0) drawBloom(ctx, settings.bloom);
+  if (settings.curvature > 0) drawCurvature(ctx, settings.curvature);
+  if (settings.vignette > 0) drawVignette(ctx, settings.vignette);
+};
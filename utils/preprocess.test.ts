@@ -0,0 +1,109 @@
+import { describe, expect, it } from 'vitest';
+import { RetroSettings } from '../types';
+import { preprocessPixels } from './preprocess';
+import { DEFAULT_SETTINGS } from './settings';
+
+// RGBA buffer of opaque grays
+const grays = (...values: number[]) => new Uint8ClampedArray(values.flatMap((v) => [v, v, v, 255]));
+
+// Red channel of each pixel, enough for gray output
+const reds = (data: Uint8ClampedArray) => Array.from(data.filter((_, i) => i % 4 === 0));
+
+const run = (data: Uint8ClampedArray, width: number, height: number, overrides: Partial<RetroSettings>) =>
+  preprocessPixels(data, width, height, { ...DEFAULT_SETTINGS, ...overrides });
+
+describe('preprocessPixels', () => {
+  it('hands back the input when every adjustment is neutral', () => {
+    const data = grays(10, 20);
+    expect(run(data, 2, 1, {})).toBe(data);
+  });
+
+  it('shifts brightness by 1.28 levels per step, clamped', () => {
+    // +50 -> +64
+    expect(reds(run(grays(0, 100, 200, 250), 4, 1, { brightness: 50 }))).toEqual([64, 164, 255, 255]);
+    expect(reds(run(grays(0, 100), 2, 1, { brightness: -50 }))).toEqual([0, 36]);
+  });
+
+  it('applies gamma as v^(1/gamma), keeping black and white', () => {
+    // 255 * sqrt(64 / 255) = 127.75
+    expect(reds(run(grays(0, 64, 255), 3, 1, { gamma: 2 }))).toEqual([0, 128, 255]);
+    // 255 * (64 / 255)^2 = 16.06
+    expect(reds(run(grays(0, 64, 255), 3, 1, { gamma: 0.5 }))).toEqual([0, 16, 255]);
+  });
+
+  it('auto levels stretch the opaque range to 0..255', () => {
+    const data = grays(50, 100, 150, 0);
+    data[15] = 0;
+    const out = run(data, 4, 1, { levels: 'auto' });
+    // The transparent black stays out of the histogram, so 50 is the low end
+    expect(reds(out)).toEqual([0, 128, 255, 0]);
+    expect(out[15]).toBe(0);
+  });
+
+  it('levels move all channels together, keeping the hue', () => {
+    const data = new Uint8ClampedArray([100, 100, 100, 255, 200, 200, 200, 255, 180, 150, 120, 255]);
+    const out = run(data, 3, 1, { levels: 'auto' });
+    const delta = out[4] - data[4];
+    expect(out[8] - data[8]).toBeCloseTo(out[9] - data[9], 0);
+    expect(out[9] - data[9]).toBeCloseTo(out[10] - data[10], 0);
+    expect(delta).toBeGreaterThan(0);
+  });
+
+  it('equalizes along the cumulative histogram', () => {
+    // Counts 2, 1, 1: the first bin maps to 0, the rest to (count so far - 2) / 2 * 255
+    expect(reds(run(grays(0, 0, 128, 255), 4, 1, { levels: 'equalize' }))).toEqual([0, 0, 128, 255]);
+    expect(reds(run(grays(10, 10, 20, 30), 4, 1, { levels: 'equalize' }))).toEqual([0, 0, 128, 255]);
+  });
+
+  it('CLAHE stretches each region of the image on its own', () => {
+    // 32x8 makes four 8 pixel tiles across: dark stripes on the left, light ones on the right
+    const width = 32;
+    const height = 8;
+    const values: number[] = [];
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) values.push((x < 16 ? 40 : 200) + (x % 2) * 4);
+    }
+    const out = reds(run(grays(...values), width, height, { levels: 'clahe' }));
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        // Pixels between a dark and a light tile center blend both
+        if (x >= 12 && x < 20) continue;
+        expect(out[y * width + x]).toBe(x % 2 === 0 ? 0 : 255);
+      }
+    }
+  });
+
+  it('CLAHE leaves a flat image flat', () => {
+    expect(reds(run(grays(...new Array(64).fill(90)), 8, 8, { levels: 'clahe' }))).toEqual(new Array(64).fill(90));
+  });
+
+  it('blurs with a normalized Gaussian', () => {
+    // Sigma 1 weights: 0.399, 0.242, 0.054, 0.004
+    expect(reds(run(grays(0, 0, 0, 255, 0, 0, 0), 7, 1, { blur: 1 }))).toEqual([1, 14, 62, 102, 62, 14, 1]);
+    expect(reds(run(grays(...new Array(16).fill(77)), 4, 4, { blur: 2 }))).toEqual(new Array(16).fill(77));
+  });
+
+  it('sharpens an edge with overshoot on both sides and leaves flat areas alone', () => {
+    const out = reds(run(grays(100, 100, 100, 100, 150, 150, 150, 150), 8, 1, { sharpen: 1 }));
+    expect(out[0]).toBe(100);
+    expect(out[7]).toBe(150);
+    expect(out[3]).toBeLessThan(100);
+    expect(out[4]).toBeGreaterThan(150);
+  });
+
+  it('darkens Sobel edges by their strength times the amount', () => {
+    // Across the step the horizontal gradient is 4 * 200, a quarter of that is a full 200
+    const row = [0, 0, 200, 200];
+    const out = reds(run(grays(...row, ...row, ...row), 4, 3, { edges: 0.5 }));
+    expect(out.slice(4, 8)).toEqual([0, 0, 100, 200]);
+    expect(reds(run(grays(...new Array(9).fill(120)), 3, 3, { edges: 1 }))).toEqual(new Array(9).fill(120));
+  });
+
+  it('passes alpha through and leaves the input untouched', () => {
+    const data = new Uint8ClampedArray([10, 20, 30, 7, 40, 50, 60, 200]);
+    const copy = data.slice();
+    const out = run(data, 2, 1, { brightness: 20, blur: 1, edges: 1 });
+    expect([out[3], out[7]]).toEqual([7, 200]);
+    expect(data).toEqual(copy);
+  });
+});
@@ -0,0 +1,318 @@
+import { LevelsMode, LumaMode, RetroSettings } from '../types';
+
+export const LUMA_WEIGHTS: Record<LumaMode, [number, number, number]> = {
+  rec601: [0.299, 0.587, 0.114],
+  rec709: [0.2126, 0.7152, 0.0722],
+  average: [1 / 3, 1 / 3, 1 / 3],
+  red: [1, 0, 0],
+  green: [0, 1, 0],
+  blue: [0, 0, 1],
+};
+
+// Share of pixels clipped at each end by auto levels, so a few specks don't pin the range
+const AUTO_LEVELS_CLIP = 0.005;
+
+// CLAHE: at most this many tiles per axis, each at least MIN_TILE art pixels wide
+const CLAHE_TILES = 8;
+const CLAHE_MIN_TILE = 8;
+// Histogram bins are capped at this multiple of the average bin, the excess is spread evenly
+const CLAHE_CLIP_LIMIT = 2.5;
+
+// Unsharp mask blur radius
+const SHARPEN_SIGMA = 1;
+
+// Sobel magnitude that counts as a full edge
+const EDGE_SCALE = 1 / 4;
+
+export const isNeutralPreprocess = (settings: RetroSettings) =>
+  settings.brightness === 0 &&
+  settings.gamma === 1 &&
+  settings.levels === 'none' &&
+  settings.blur === 0 &&
+  settings.sharpen === 0 &&
+  settings.edges === 0;
+
+// Brightness then gamma, as a lookup table
+const toneCurve = (brightness: number, gamma: number): Float32Array => {
+  const lut = new Float32Array(256);
+  const offset = brightness * 1.28;
+  for (let v = 0; v < 256; v++) {
+    const x = Math.max(0, Math.min(255, v + offset)) / 255;
+    lut[v] = 255 * Math.pow(x, 1 / gamma);
+  }
+  return lut;
+};
+
+const lumaAt = (rgb: Float32Array, p: number, [wr, wg, wb]: [number, number, number]) =>
+  rgb[p * 3] * wr + rgb[p * 3 + 1] * wg + rgb[p * 3 + 2] * wb;
+
+// Luma histogram of the rectangle [x0, x1) x [y0, y1), transparent pixels left out
+const histogramOf = (
+  luma: Float32Array,
+  alpha: Uint8ClampedArray,
+  width: number,
+  x0: number,
+  y0: number,
+  x1: number,
+  y1: number
+) => {
+  const bins = new Uint32Array(256);
+  for (let y = y0; y < y1; y++) {
+    for (let x = x0; x < x1; x++) {
+      const p = y * width + x;
+      if (alpha[p * 4 + 3] === 0) continue;
+      bins[Math.max(0, Math.min(255, Math.round(luma[p])))]++;
+    }
+  }
+  return bins;
+};
+
+// Cumulative histogram mapped onto 0..255
+const equalizeLut = (bins: Uint32Array): Float32Array => {
+  const lut = new Float32Array(256);
+  let total = 0;
+  for (let i = 0; i < 256; i++) total += bins[i];
+  let first = 0;
+  while (first < 256 && bins[first] === 0) first++;
+  if (total === 0 || first === 256) {
+    for (let i = 0; i < 256; i++) lut[i] = i;
+    return lut;
+  }
+  const min = bins[first];
+  let sum = 0;
+  for (let i = 0; i < 256; i++) {
+    sum += bins[i];
+    lut[i] = total === min ? i : (Math.max(0, sum - min) / (total - min)) * 255;
+  }
+  return lut;
+};
+
+const autoLevelsLut = (bins: Uint32Array): Float32Array => {
+  let total = 0;
+  for (let i = 0; i < 256; i++) total += bins[i];
+  const clip = total * AUTO_LEVELS_CLIP;
+  let lo = 0;
+  let hi = 255;
+  for (let sum = 0; lo < 255 && sum + bins[lo] <= clip; lo++) sum += bins[lo];
+  for (let sum = 0; hi > 0 && sum + bins[hi] <= clip; hi--) sum += bins[hi];
+
+  const lut = new Float32Array(256);
+  for (let i = 0; i < 256; i++) lut[i] = hi > lo ? ((i - lo) * 255) / (hi - lo) : i;
+  return lut;
+};
+
+const clipHistogram = (bins: Uint32Array, limit: number) => {
+  let excess = 0;
+  for (let i = 0; i < 256; i++) {
+    if (bins[i] > limit) {
+      excess += bins[i] - limit;
+      bins[i] = limit;
+    }
+  }
+  const share = Math.floor(excess / 256);
+  for (let i = 0; i < 256; i++) bins[i] += share;
+  return bins;
+};
+
+// Contrast limited adaptive equalization: a LUT per tile, blended bilinearly between tile centers
+const claheMap = (luma: Float32Array, alpha: Uint8ClampedArray, width: number, height: number): Float32Array => {
+  const tilesX = Math.max(1, Math.min(CLAHE_TILES, Math.floor(width / CLAHE_MIN_TILE)));
+  const tilesY = Math.max(1, Math.min(CLAHE_TILES, Math.floor(height / CLAHE_MIN_TILE)));
+  const tileW = width / tilesX;
+  const tileH = height / tilesY;
+
+  const luts: Float32Array[] = [];
+  for (let ty = 0; ty < tilesY; ty++) {
+    const y0 = Math.floor(ty * tileH);
+    const y1 = Math.floor((ty + 1) * tileH);
+    for (let tx = 0; tx < tilesX; tx++) {
+      const x0 = Math.floor(tx * tileW);
+      const x1 = Math.floor((tx + 1) * tileW);
+      const bins = histogramOf(luma, alpha, width, x0, y0, x1, y1);
+      const limit = Math.max(1, Math.round((CLAHE_CLIP_LIMIT * (x1 - x0) * (y1 - y0)) / 256));
+      luts.push(equalizeLut(clipHistogram(bins, limit)));
+    }
+  }
+
+  const out = new Float32Array(luma.length);
+  for (let y = 0; y < height; y++) {
+    // Position relative to tile centers
+    const gy = Math.max(0, Math.min(tilesY - 1, (y + 0.5) / tileH - 0.5));
+    const ty0 = Math.floor(gy);
+    const ty1 = Math.min(tilesY - 1, ty0 + 1);
+    const fy = gy - ty0;
+    for (let x = 0; x < width; x++) {
+      const gx = Math.max(0, Math.min(tilesX - 1, (x + 0.5) / tileW - 0.5));
+      const tx0 = Math.floor(gx);
+      const tx1 = Math.min(tilesX - 1, tx0 + 1);
+      const fx = gx - tx0;
+
+      const p = y * width + x;
+      const v = Math.max(0, Math.min(255, Math.round(luma[p])));
+      const top = luts[ty0 * tilesX + tx0][v] * (1 - fx) + luts[ty0 * tilesX + tx1][v] * fx;
+      const bottom = luts[ty1 * tilesX + tx0][v] * (1 - fx) + luts[ty1 * tilesX + tx1][v] * fx;
+      out[p] = top * (1 - fy) + bottom * fy;
+    }
+  }
+  return out;
+};
+
+// Levels work on luma and shift all three channels by the same amount, which keeps the hue
+const applyLevels = (
+  rgb: Float32Array,
+  alpha: Uint8ClampedArray,
+  width: number,
+  height: number,
+  mode: LevelsMode,
+  weights: [number, number, number]
+) => {
+  const count = width * height;
+  const luma = new Float32Array(count);
+  for (let p = 0; p < count; p++) luma[p] = lumaAt(rgb, p, weights);
+
+  let mapped: Float32Array;
+  if (mode === 'clahe') {
+    mapped = claheMap(luma, alpha, width, height);
+  } else {
+    const bins = histogramOf(luma, alpha, width, 0, 0, width, height);
+    const lut = mode === 'auto' ? autoLevelsLut(bins) : equalizeLut(bins);
+    mapped = new Float32Array(count);
+    for (let p = 0; p < count; p++) mapped[p] = lut[Math.max(0, Math.min(255, Math.round(luma[p])))];
+  }
+
+  for (let p = 0; p < count; p++) {
+    const delta = mapped[p] - luma[p];
+    rgb[p * 3] += delta;
+    rgb[p * 3 + 1] += delta;
+    rgb[p * 3 + 2] += delta;
+  }
+};
+
+const gaussianKernel = (sigma: number): Float32Array => {
+  const radius = Math.max(1, Math.ceil(sigma * 3));
+  const kernel = new Float32Array(radius * 2 + 1);
+  let sum = 0;
+  for (let i = -radius; i <= radius; i++) {
+    const w = Math.exp(-(i * i) / (2 * sigma * sigma));
+    kernel[i + radius] = w;
+    sum += w;
+  }
+  for (let i = 0; i < kernel.length; i++) kernel[i] /= sum;
+  return kernel;
+};
+
+// Separable Gaussian over interleaved RGB, edges clamped
+const gaussianBlur = (rgb: Float32Array, width: number, height: number, sigma: number): Float32Array => {
+  const kernel = gaussianKernel(sigma);
+  const radius = (kernel.length - 1) / 2;
+  const tmp = new Float32Array(rgb.length);
+  const out = new Float32Array(rgb.length);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let r = 0;
+      let g = 0;
+      let b = 0;
+      for (let k = -radius; k <= radius; k++) {
+        const i = (y * width + Math.max(0, Math.min(width - 1, x + k))) * 3;
+        const w = kernel[k + radius];
+        r += rgb[i] * w;
+        g += rgb[i + 1] * w;
+        b += rgb[i + 2] * w;
+      }
+      const o = (y * width + x) * 3;
+      tmp[o] = r;
+      tmp[o + 1] = g;
+      tmp[o + 2] = b;
+    }
+  }
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let r = 0;
+      let g = 0;
+      let b = 0;
+      for (let k = -radius; k <= radius; k++) {
+        const i = (Math.max(0, Math.min(height - 1, y + k)) * width + x) * 3;
+        const w = kernel[k + radius];
+        r += tmp[i] * w;
+        g += tmp[i + 1] * w;
+        b += tmp[i + 2] * w;
+      }
+      const o = (y * width + x) * 3;
+      out[o] = r;
+      out[o + 1] = g;
+      out[o + 2] = b;
+    }
+  }
+  return out;
+};
+
+// Sobel gradient magnitude of the luma, subtracted from every channel to draw dark outlines
+const emphasizeEdges = (
+  rgb: Float32Array,
+  width: number,
+  height: number,
+  amount: number,
+  weights: [number, number, number]
+) => {
+  const luma = new Float32Array(width * height);
+  for (let p = 0; p < luma.length; p++) luma[p] = lumaAt(rgb, p, weights);
+  const at = (x: number, y: number) =>
+    luma[Math.max(0, Math.min(height - 1, y)) * width + Math.max(0, Math.min(width - 1, x))];
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const gx =
+        at(x + 1, y - 1) + 2 * at(x + 1, y) + at(x + 1, y + 1) - at(x - 1, y - 1) - 2 * at(x - 1, y) - at(x - 1, y + 1);
+      const gy =
+        at(x - 1, y + 1) + 2 * at(x, y + 1) + at(x + 1, y + 1) - at(x - 1, y - 1) - 2 * at(x, y - 1) - at(x + 1, y - 1);
+      const edge = Math.min(255, Math.hypot(gx, gy) * EDGE_SCALE) * amount;
+      const o = (y * width + x) * 3;
+      rgb[o] -= edge;
+      rgb[o + 1] -= edge;
+      rgb[o + 2] -= edge;
+    }
+  }
+};
+
+/**
+ * Tone and detail adjustments applied before quantizing, in this order:
+ * brightness, gamma, levels, blur, sharpen, edges. Returns the input itself when all are neutral.
+ * Alpha is passed through untouched.
+ */
+export const preprocessPixels = (
+  data: Uint8ClampedArray,
+  width: number,
+  height: number,
+  settings: RetroSettings
+): Uint8ClampedArray => {
+  if (isNeutralPreprocess(settings)) return data;
+
+  const count = width * height;
+  const weights = LUMA_WEIGHTS[settings.lumaMode];
+  const tone = toneCurve(settings.brightness, settings.gamma);
+  let rgb = new Float32Array(count * 3);
+  for (let p = 0; p < count; p++) {
+    rgb[p * 3] = tone[data[p * 4]];
+    rgb[p * 3 + 1] = tone[data[p * 4 + 1]];
+    rgb[p * 3 + 2] = tone[data[p * 4 + 2]];
+  }
+
+  if (settings.levels !== 'none') applyLevels(rgb, data, width, height, settings.levels, weights);
+  if (settings.blur > 0) rgb = gaussianBlur(rgb, width, height, settings.blur);
+  if (settings.sharpen > 0) {
+    const blurred = gaussianBlur(rgb, width, height, SHARPEN_SIGMA);
+    for (let i = 0; i < rgb.length; i++) rgb[i] += (rgb[i] - blurred[i]) * settings.sharpen;
+  }
+  if (settings.edges > 0) emphasizeEdges(rgb, width, height, settings.edges, weights);
+
+  const out = new Uint8ClampedArray(data.length);
+  for (let p = 0; p < count; p++) {
+    out[p * 4] = rgb[p * 3];
+    out[p * 4 + 1] = rgb[p * 3 + 1];
+    out[p * 4 + 2] = rgb[p * 3 + 2];
+    out[p * 4 + 3] = data[p * 4 + 3];
+  }
+  return out;
+};
@@ -0,0 +1,114 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  createPreset,
+  decodeSettingsHash,
+  encodeSettingsHash,
+  loadPresets,
+  parsePresetFile,
+  presetFileName,
+  savePresets,
+} from './presets';
+import { DEFAULT_SETTINGS } from './settings';
+
+// A hash the way encodeSettingsHash builds it, around any payload
+const hashOf = (payload: string, version = 1) => `#v${version}.${Buffer.from(payload).toString('base64url')}`;
+
+describe('settings hash', () => {
+  it('round-trips the defaults', () => {
+    expect(decodeSettingsHash(encodeSettingsHash(DEFAULT_SETTINGS))).toEqual(DEFAULT_SETTINGS);
+  });
+
+  it('round-trips edited settings in a URL-safe hash', () => {
+    const settings = {
+      ...DEFAULT_SETTINGS,
+      pixelSize: 3,
+      ditherMode: 'atkinson' as const,
+      palette: ['#000000', '#ffffff', '#ff00aa'],
+      crop: { x: 0.1, y: 0.2, width: 0.5, height: 0.25 },
+    };
+    const hash = encodeSettingsHash(settings);
+    expect(hash).toMatch(/^#v1\.[A-Za-z0-9_-]+$/);
+    expect(decodeSettingsHash(hash)).toEqual(settings);
+  });
+
+  it('fills keys missing from an older link with defaults', () => {
+    expect(decodeSettingsHash(hashOf(JSON.stringify({ pixelSize: 9 })))).toEqual({ ...DEFAULT_SETTINGS, pixelSize: 9 });
+  });
+
+  it('ignores hashes that carry no settings', () => {
+    for (const hash of ['', '#', '#about', '#v1', '#v1.', '#x1.abc', '#v1.abc+def', 'v1.abc']) {
+      expect(decodeSettingsHash(hash)).toBeNull();
+    }
+  });
+
+  it('refuses links from a newer version', () => {
+    expect(() => decodeSettingsHash(hashOf('{}', 2))).toThrow('newer version');
+  });
+
+  it('reports a payload that is not JSON as damaged', () => {
+    expect(() => decodeSettingsHash('#v1.abc')).toThrow('damaged');
+    expect(() => decodeSettingsHash(hashOf('{"pixelSize": 4'))).toThrow('damaged');
+  });
+
+  it('rejects JSON that is not valid settings', () => {
+    expect(() => decodeSettingsHash(hashOf('[1, 2]'))).toThrow('Settings must be a JSON object');
+    expect(() => decodeSettingsHash(hashOf('{"pixelSize": 0}'))).toThrow('"pixelSize" must be between 1 and 64');
+    expect(() => decodeSettingsHash(hashOf('{"__proto__": {}}'))).toThrow('Unknown setting "__proto__"');
+  });
+});
+
+describe('preset files', () => {
+  it('names the file after the preset', () => {
+    expect(presetFileName('  Game Boy / green ')).toBe('Game-Boy-green.json');
+    expect(presetFileName('***')).toBe('preset.json');
+  });
+
+  it('reads a bare settings object, named after the file', () => {
+    const preset = parsePresetFile('Sharp.JSON', JSON.stringify({ sharpen: 2 }));
+    expect(preset.name).toBe('Sharp');
+    expect(preset.settings).toEqual({ ...DEFAULT_SETTINGS, sharpen: 2 });
+  });
+
+  it('rejects files that are not JSON', () => {
+    expect(() => parsePresetFile('x.json', 'pixelSize: 4')).toThrow('Not a JSON file');
+  });
+});
+
+describe('stored presets', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  // Node has no localStorage, a Map stands in for the browser's
+  const stubStorage = (initial: Record<string, string> = {}) => {
+    const store = new Map(Object.entries(initial));
+    vi.stubGlobal('localStorage', {
+      getItem: (key: string) => store.get(key) ?? null,
+      setItem: (key: string, value: string) => store.set(key, value),
+    });
+  };
+
+  it('saves and loads presets', () => {
+    stubStorage();
+    const presets = [createPreset('One', DEFAULT_SETTINGS), createPreset('Two', { ...DEFAULT_SETTINGS, pixelSize: 2 })];
+    savePresets(presets);
+    expect(loadPresets()).toEqual(presets);
+  });
+
+  it('drops stored entries that are broken instead of failing', () => {
+    stubStorage({
+      'retrobit.presets': JSON.stringify([
+        { id: 'a', name: 'Good', settings: { pixelSize: 4 } },
+        { id: 'b', name: 'Bad', settings: { pixelSize: 'big' } },
+        { name: 'No id', settings: {} },
+        null,
+      ]),
+    });
+    expect(loadPresets()).toEqual([{ id: 'a', name: 'Good', settings: { ...DEFAULT_SETTINGS, pixelSize: 4 } }]);
+  });
+
+  it('treats unreadable storage as empty', () => {
+    stubStorage({ 'retrobit.presets': '{not json' });
+    expect(loadPresets()).toEqual([]);
+  });
+});
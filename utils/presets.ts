@@ -0,0 +1,105 @@
+import { RetroSettings } from '../types';
+import { validateSettings } from './settings';
+
+const STORAGE_KEY = 'retrobit.presets';
+
+// Bump when the hash payload changes shape, links from a newer version are refused
+const HASH_VERSION = 1;
+const HASH_PATTERN = /^#v(\d+)\.([A-Za-z0-9_-]+)$/;
+
+export interface SettingsPreset {
+  id: string;
+  name: string;
+  settings: RetroSettings;
+}
+
+const createId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const createPreset = (name: string, settings: RetroSettings): SettingsPreset => ({
+  id: createId(),
+  name,
+  settings: { ...settings, palette: [...settings.palette] },
+});
+
+// Stored settings are validated like any other input, keys added since they were saved get defaults
+export const loadPresets = (): SettingsPreset[] => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    const parsed: unknown = raw ? JSON.parse(raw) : [];
+    if (!Array.isArray(parsed)) return [];
+    return parsed.flatMap((entry) => {
+      try {
+        if (typeof entry?.id !== 'string' || typeof entry?.name !== 'string') return [];
+        return [{ id: entry.id, name: entry.name, settings: validateSettings(entry.settings) }];
+      } catch {
+        return [];
+      }
+    });
+  } catch {
+    return [];
+  }
+};
+
+export const savePresets = (presets: SettingsPreset[]): void => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(presets));
+  } catch (e) {
+    console.error('Failed to save presets', e);
+  }
+};
+
+/**
+ * Preset files hold a bare settings object, the same format the CLI takes with --preset.
+ * The preset name travels in the file name.
+ */
+export const serializePreset = (settings: RetroSettings): Blob =>
+  new Blob([JSON.stringify(settings, null, 2) + '\n'], { type: 'application/json' });
+
+export const presetFileName = (name: string) =>
+  `${name.trim().replace(/[^\w-]+/g, '-').replace(/^-+|-+$/g, '') || 'preset'}.json`;
+
+export const parsePresetFile = (fileName: string, text: string): SettingsPreset => {
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    throw new Error('Not a JSON file');
+  }
+  return createPreset(fileName.replace(/\.json$/i, ''), validateSettings(json));
+};
+
+const toBase64Url = (text: string) => {
+  const bytes = new TextEncoder().encode(text);
+  let binary = '';
+  for (const byte of bytes) binary += String.fromCharCode(byte);
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (text: string) => {
+  const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'));
+  return new TextDecoder().decode(Uint8Array.from(binary, (c) => c.charCodeAt(0)));
+};
+
+// Full settings, so a link reproduces the look even after the defaults change
+export const encodeSettingsHash = (settings: RetroSettings): string =>
+  `#v${HASH_VERSION}.${toBase64Url(JSON.stringify(settings))}`;
+
+/**
+ * Reads settings from a location hash. Returns null when the hash carries none,
+ * throws when it does but they can't be used.
+ */
+export const decodeSettingsHash = (hash: string): RetroSettings | null => {
+  const match = HASH_PATTERN.exec(hash);
+  if (!match) return null;
+
+  const version = Number(match[1]);
+  if (version > HASH_VERSION) throw new Error('This link was made with a newer version of RetroBit');
+
+  let json: unknown;
+  try {
+    json = JSON.parse(fromBase64Url(match[2]));
+  } catch {
+    throw new Error('The settings in this link are damaged');
+  }
+  return validateSettings(json);
+};
@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { Rgb } from './palette';
+import { extractPalette, QuantizeMethod, samplePixels } from './quantize';
+
+const METHODS: QuantizeMethod[] = ['median-cut', 'k-means', 'octree'];
+
+const RED: Rgb = { r: 200, g: 30, b: 30 };
+const BLUE: Rgb = { r: 20, g: 40, b: 220 };
+const BLACK: Rgb = { r: 0, g: 0, b: 0 };
+
+// `count` copies of a color, a solid block of the image
+const block = (color: Rgb, count: number): Rgb[] => Array.from({ length: count }, () => ({ ...color }));
+
+describe('samplePixels', () => {
+  it('collects opaque pixels from every buffer and skips mostly transparent ones', () => {
+    const a = new Uint8ClampedArray([1, 2, 3, 255, 4, 5, 6, 127]);
+    const b = new Uint8ClampedArray([7, 8, 9, 128]);
+    expect(samplePixels([a, b])).toEqual([
+      { r: 1, g: 2, b: 3 },
+      { r: 7, g: 8, b: 9 },
+    ]);
+  });
+});
+
+describe('extractPalette', () => {
+  for (const method of METHODS) {
+    it(`${method} returns exactly the two colors of two solid blocks, dark first`, () => {
+      const pixels = [...block(RED, 50), ...block(BLUE, 50)];
+      expect(extractPalette(pixels, 2, method)).toEqual([BLUE, RED]);
+    });
+
+    it(`${method} doesn't invent colors when asked for more than there are`, () => {
+      const pixels = [...block(RED, 50), ...block(BLUE, 50)];
+      expect(extractPalette(pixels, 8, method)).toEqual([BLUE, RED]);
+    });
+
+    it(`${method} puts locked colors first and fills the rest`, () => {
+      const pixels = [...block(RED, 40), ...block(BLUE, 40), ...block(BLACK, 40)];
+      expect(extractPalette(pixels, 3, method, [BLACK])).toEqual([BLACK, BLUE, RED]);
+    });
+
+    it(`${method} spends no slot on a color a locked one already covers`, () => {
+      const nearRed = { r: 190, g: 30, b: 30 };
+      const pixels = [...block(RED, 40), ...block(BLUE, 40)];
+      expect(extractPalette(pixels, 2, method, [nearRed])).toEqual([nearRed, BLUE]);
+    });
+  }
+
+  it('median cut splits along the widest channel and averages each half', () => {
+    const pixels = [...block(BLUE, 40), ...block(RED, 20), ...block({ r: 210, g: 30, b: 30 }, 20)];
+    expect(extractPalette(pixels, 2, 'median-cut')).toEqual([BLUE, { r: 205, g: 30, b: 30 }]);
+  });
+
+  it('octree folds the closest colors together first', () => {
+    const pixels = [...block(BLUE, 40), ...block(RED, 20), ...block({ r: 202, g: 30, b: 30 }, 20)];
+    expect(extractPalette(pixels, 2, 'octree')).toEqual([BLUE, { r: 201, g: 30, b: 30 }]);
+  });
+
+  it('keeps every locked color even past the count', () => {
+    expect(extractPalette(block(RED, 10), 1, 'k-means', [BLACK, BLUE])).toEqual([BLACK, BLUE]);
+  });
+
+  it('returns only the locked colors without pixels', () => {
+    expect(extractPalette([], 4, 'median-cut', [BLACK])).toEqual([BLACK]);
+  });
+});
@@ -0,0 +1,254 @@
+import { getLuma } from './convert';
+import { Rgb } from './palette';
+
+export type QuantizeMethod = 'median-cut' | 'k-means' | 'octree';
+
+// Upper bound on pixels fed into the quantizers, larger inputs are sampled with a stride
+const MAX_SAMPLES = 65536;
+
+// K-means is O(samples * k) per iteration, so it gets a smaller sample
+const MAX_KMEANS_SAMPLES = 16384;
+
+// Pixels this close (RGB distance) to a locked color are already covered by it
+const LOCKED_RADIUS = 24;
+
+const distanceSq = (a: Rgb, b: Rgb): number =>
+  (a.r - b.r) ** 2 + (a.g - b.g) ** 2 + (a.b - b.b) ** 2;
+
+// Golden ratio sequence picks: spread like a stride, but never locks onto repeating image structure
+const pickIndices = (length: number, limit: number): number[] => {
+  if (length <= limit) return Array.from({ length }, (_, i) => i);
+  const picks: number[] = [];
+  for (let i = 0; i < limit; i++) {
+    picks.push(Math.floor(((i * 0.6180339887498949) % 1) * length));
+  }
+  return picks;
+};
+
+/**
+ * Collects opaque pixels from one or more RGBA buffers, sampled down to MAX_SAMPLES.
+ */
+export const samplePixels = (buffers: Uint8ClampedArray[]): Rgb[] => {
+  const all = buffers.flatMap((data) => {
+    const pixels: Rgb[] = [];
+    for (let i = 0; i < data.length; i += 4) {
+      if (data[i + 3] < 128) continue;
+      pixels.push({ r: data[i], g: data[i + 1], b: data[i + 2] });
+    }
+    return pixels;
+  });
+  return pickIndices(all.length, MAX_SAMPLES).map((i) => all[i]);
+};
+
+const average = (pixels: Rgb[]): Rgb => {
+  let r = 0;
+  let g = 0;
+  let b = 0;
+  for (const p of pixels) {
+    r += p.r;
+    g += p.g;
+    b += p.b;
+  }
+  const n = Math.max(1, pixels.length);
+  return { r: Math.round(r / n), g: Math.round(g / n), b: Math.round(b / n) };
+};
+
+// Median cut: split the box with the widest channel range at its median until there are k boxes
+const medianCut = (pixels: Rgb[], k: number): Rgb[] => {
+  const channelRange = (box: Rgb[]) => {
+    const min = { r: 255, g: 255, b: 255 };
+    const max = { r: 0, g: 0, b: 0 };
+    for (const p of box) {
+      for (const c of ['r', 'g', 'b'] as const) {
+        if (p[c] < min[c]) min[c] = p[c];
+        if (p[c] > max[c]) max[c] = p[c];
+      }
+    }
+    const ranges = { r: max.r - min.r, g: max.g - min.g, b: max.b - min.b };
+    const channel = (['r', 'g', 'b'] as const).reduce((a, c) => (ranges[c] > ranges[a] ? c : a), 'r');
+    return { channel, range: ranges[channel] };
+  };
+
+  const boxes: Rgb[][] = [pixels];
+  while (boxes.length < k) {
+    // Prefer boxes that are both wide and well populated
+    let target = -1;
+    let bestScore = 0;
+    for (let i = 0; i < boxes.length; i++) {
+      if (boxes[i].length < 2) continue;
+      const score = channelRange(boxes[i]).range * Math.sqrt(boxes[i].length);
+      if (score > bestScore) {
+        bestScore = score;
+        target = i;
+      }
+    }
+    if (target === -1) break;
+
+    const box = boxes[target];
+    const { channel } = channelRange(box);
+    box.sort((a, b) => a[channel] - b[channel]);
+    const mid = box.length >> 1;
+    boxes.splice(target, 1, box.slice(0, mid), box.slice(mid));
+  }
+
+  return boxes.map(average);
+};
+
+// K-means (Lloyd) with maximin seeding, locked centroids never move
+const kMeans = (allPixels: Rgb[], k: number, locked: Rgb[]): Rgb[] => {
+  const pixels = pickIndices(allPixels.length, MAX_KMEANS_SAMPLES).map((i) => allPixels[i]);
+  const centroids: Rgb[] = [...locked];
+  const nearestDistance = pixels.map((p) =>
+    centroids.length > 0 ? Math.min(...centroids.map((c) => distanceSq(p, c))) : Infinity
+  );
+
+  // Seed with the mean, then repeatedly the pixel farthest from every centroid so far
+  if (centroids.length === 0 && pixels.length > 0) {
+    centroids.push(average(pixels));
+    pixels.forEach((p, i) => (nearestDistance[i] = distanceSq(p, centroids[0])));
+  }
+  while (centroids.length < locked.length + k) {
+    let far = -1;
+    for (let i = 0; i < pixels.length; i++) {
+      if (far === -1 || nearestDistance[i] > nearestDistance[far]) far = i;
+    }
+    if (far === -1 || nearestDistance[far] === 0) break;
+    const seed = { ...pixels[far] };
+    centroids.push(seed);
+    pixels.forEach((p, i) => (nearestDistance[i] = Math.min(nearestDistance[i], distanceSq(p, seed))));
+  }
+
+  const assignment = new Int32Array(pixels.length);
+  let members: Rgb[][] = [];
+  for (let iteration = 0; iteration < 16; iteration++) {
+    let moved = false;
+    pixels.forEach((p, i) => {
+      let best = 0;
+      let bestDist = Infinity;
+      centroids.forEach((c, j) => {
+        const d = distanceSq(p, c);
+        if (d < bestDist) {
+          bestDist = d;
+          best = j;
+        }
+      });
+      if (assignment[i] !== best) moved = true;
+      assignment[i] = best;
+    });
+
+    members = centroids.map(() => []);
+    pixels.forEach((p, i) => members[assignment[i]].push(p));
+    for (let j = locked.length; j < centroids.length; j++) {
+      if (members[j].length > 0) centroids[j] = average(members[j]);
+    }
+    if (!moved && iteration > 0) break;
+  }
+
+  // A seed left without pixels (like the mean of two solid colors) isn't a color of the image
+  return centroids.slice(locked.length).filter((_, j) => members[locked.length + j].length > 0);
+};
+
+interface OctreeNode {
+  r: number;
+  g: number;
+  b: number;
+  count: number;
+  children: (OctreeNode | null)[] | null;
+}
+
+// Octree: insert every pixel to depth 8, then fold the least populated deepest nodes until k leaves remain
+const octree = (pixels: Rgb[], k: number): Rgb[] => {
+  const MAX_DEPTH = 8;
+  const levels: OctreeNode[][] = Array.from({ length: MAX_DEPTH }, () => []);
+  const createNode = (level: number): OctreeNode => {
+    const node: OctreeNode = { r: 0, g: 0, b: 0, count: 0, children: level < MAX_DEPTH ? new Array(8).fill(null) : null };
+    if (level < MAX_DEPTH) levels[level].push(node);
+    return node;
+  };
+
+  const root = createNode(0);
+  for (const p of pixels) {
+    let node = root;
+    for (let level = 0; level < MAX_DEPTH; level++) {
+      const shift = 7 - level;
+      const index = (((p.r >> shift) & 1) << 2) | (((p.g >> shift) & 1) << 1) | ((p.b >> shift) & 1);
+      node.children![index] ??= createNode(level + 1);
+      node = node.children![index]!;
+    }
+    node.r += p.r;
+    node.g += p.g;
+    node.b += p.b;
+    node.count++;
+  }
+
+  const countLeaves = (node: OctreeNode): number =>
+    node.children ? node.children.reduce((sum, child) => sum + (child ? countLeaves(child) : 0), 0) : 1;
+  let leafCount = countLeaves(root);
+
+  // Fold: a reduced node absorbs its children's sums and becomes a leaf
+  for (let level = MAX_DEPTH - 1; level >= 0 && leafCount > k; level--) {
+    const candidates = levels[level]
+      .filter((node) => node.children)
+      .map((node) => {
+        let count = 0;
+        node.children!.forEach((child) => child && (count += child.count));
+        return { node, count };
+      })
+      .sort((a, b) => a.count - b.count);
+
+    for (const { node } of candidates) {
+      if (leafCount <= k) break;
+      let childLeaves = 0;
+      node.children!.forEach((child) => {
+        if (!child) return;
+        node.r += child.r;
+        node.g += child.g;
+        node.b += child.b;
+        node.count += child.count;
+        childLeaves++;
+      });
+      node.children = null;
+      leafCount -= childLeaves - 1;
+    }
+  }
+
+  const result: Rgb[] = [];
+  const collect = (node: OctreeNode) => {
+    if (!node.children) {
+      if (node.count > 0) {
+        result.push({ r: Math.round(node.r / node.count), g: Math.round(node.g / node.count), b: Math.round(node.b / node.count) });
+      }
+      return;
+    }
+    node.children.forEach((child) => child && collect(child));
+  };
+  collect(root);
+  return result;
+};
+
+/**
+ * Reduces sampled pixels to at most `count` colors (octree folds whole subtrees, so it can land below). Locked colors are kept as-is and come first,
+ * the method only fills the remaining slots with colors the locked ones don't already cover.
+ */
+export const extractPalette = (
+  pixels: Rgb[],
+  count: number,
+  method: QuantizeMethod,
+  locked: Rgb[] = []
+): Rgb[] => {
+  const free = Math.max(0, count - locked.length);
+  if (free === 0 || pixels.length === 0) return locked.slice(0, Math.max(count, locked.length));
+
+  let generated: Rgb[];
+  if (method === 'k-means') {
+    generated = kMeans(pixels, free, locked);
+  } else {
+    const uncovered = pixels.filter((p) => locked.every((c) => distanceSq(p, c) > LOCKED_RADIUS * LOCKED_RADIUS));
+    const input = uncovered.length > 0 ? uncovered : pixels;
+    generated = method === 'median-cut' ? medianCut(input, free) : octree(input, free);
+  }
+
+  // Dark to light reads better in the swatch grid
+  generated.sort((a, b) => getLuma(a.r, a.g, a.b) - getLuma(b.r, b.g, b.b));
+  return [...locked, ...generated];
+};
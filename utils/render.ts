@@ -0,0 +1,170 @@
+import { RetroSettings } from '../types';
+import { convertPixels, IndexedImage, quantizePixels } from './convert';
+import { CROP_RATIOS, CROP_RESOLUTIONS, getCropRegion, orientPixels } from './crop';
+import { applyPostEffects, hasPostEffects } from './postEffects';
+import { resamplePixels } from './resample';
+import { TemporalHistory } from './temporal';
+
+export type FrameSource = HTMLVideoElement | HTMLImageElement;
+
+// How many units wide and tall one art pixel is drawn, e.g. { x: 2, y: 1 } for '2:1'
+export const getPixelAspect = (settings: RetroSettings) => {
+  const [x, y] = settings.pixelAspect.split(':').map(Number);
+  return { x, y };
+};
+
+/**
+ * Width:height the crop is held to in source pixels. A console resolution drawn with
+ * non-square art pixels covers a wider or taller area than its pixel count suggests.
+ */
+export const getCropRatio = (settings: RetroSettings) => {
+  const resolution = CROP_RESOLUTIONS[settings.cropAspect];
+  if (!resolution) return CROP_RATIOS[settings.cropAspect];
+  const aspect = getPixelAspect(settings);
+  return (resolution.width * aspect.x) / (resolution.height * aspect.y);
+};
+
+// Part of the rotated and flipped source that gets converted, in its pixels
+export const getSourceRegion = (sourceW: number, sourceH: number, settings: RetroSettings) =>
+  getCropRegion(sourceW, sourceH, settings, getCropRatio(settings));
+
+/**
+ * Art resolution: one art pixel per `pixelSize` pixels of the cropped source, times the pixel
+ * aspect, or the exact screen of a console crop preset.
+ * Derived from the source only, so preview and exports agree regardless of window size.
+ */
+export const getArtSize = (sourceW: number, sourceH: number, settings: RetroSettings) => {
+  const resolution = CROP_RESOLUTIONS[settings.cropAspect];
+  if (resolution) return { ...resolution };
+  const region = getSourceRegion(sourceW, sourceH, settings);
+  const factor = Math.max(1, settings.pixelSize);
+  const aspect = getPixelAspect(settings);
+  return {
+    width: Math.max(1, Math.floor(region.width / (factor * aspect.x))),
+    height: Math.max(1, Math.floor(region.height / (factor * aspect.y))),
+  };
+};
+
+export const loadImage = (url: string): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const image = new Image();
+    image.crossOrigin = 'anonymous';
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error('Failed to load image'));
+    image.src = url;
+  });
+
+export const getSourceSize = (source: FrameSource) =>
+  source instanceof HTMLVideoElement
+    ? { width: source.videoWidth, height: source.videoHeight }
+    : { width: source.naturalWidth, height: source.naturalHeight };
+
+// Scale an art-resolution frame up with nearest-neighbor, then the display effects when given settings
+export const drawUpscaled = (
+  ctx: CanvasRenderingContext2D,
+  image: HTMLCanvasElement | ImageBitmap,
+  width: number,
+  height: number,
+  effects: RetroSettings | null
+) => {
+  ctx.imageSmoothingEnabled = false;
+  // Transparent art pixels must not show the previous frame
+  ctx.clearRect(0, 0, ctx.canvas.width, ctx.canvas.height);
+  ctx.drawImage(image, 0, 0, width, height);
+  if (effects && hasPostEffects(effects)) applyPostEffects(ctx, effects, width / image.width, height / image.height);
+};
+
+// Full resolution frames are read back here before shrinking, reused between calls
+let sourceCanvas: HTMLCanvasElement | null = null;
+
+/**
+ * Reads the current frame of `source` at full resolution, rotates and crops it, and shrinks
+ * it to art resolution with the settings' downscale filter. `canvas` is sized to the art, ready for the result.
+ */
+export const readArtPixels = (
+  source: FrameSource,
+  settings: RetroSettings,
+  canvas: HTMLCanvasElement
+): ImageData => {
+  const { width: sourceW, height: sourceH } = getSourceSize(source);
+  const { width, height } = getArtSize(sourceW, sourceH, settings);
+  if (canvas.width !== width || canvas.height !== height) {
+    canvas.width = width;
+    canvas.height = height;
+  }
+
+  sourceCanvas ??= document.createElement('canvas');
+  if (sourceCanvas.width !== sourceW || sourceCanvas.height !== sourceH) {
+    sourceCanvas.width = sourceW;
+    sourceCanvas.height = sourceH;
+  }
+  const ctx = sourceCanvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error('Canvas 2D context unavailable');
+  // Transparent sources must not keep the previous frame
+  ctx.clearRect(0, 0, sourceW, sourceH);
+  ctx.drawImage(source, 0, 0);
+
+  const full = ctx.getImageData(0, 0, sourceW, sourceH);
+  const region = getSourceRegion(sourceW, sourceH, settings);
+  const frame = orientPixels(full.data, sourceW, sourceH, settings, region);
+  const pixels = resamplePixels(frame, region.width, region.height, width, height, settings.downscale);
+  return new ImageData(pixels, width, height);
+};
+
+/**
+ * Converts the current frame of `source` at art resolution onto `canvas` (created if omitted).
+ * Pass a `history` when rendering consecutive video frames.
+ */
+export const renderArt = (
+  source: FrameSource,
+  settings: RetroSettings,
+  canvas: HTMLCanvasElement = document.createElement('canvas'),
+  history: TemporalHistory | null = null
+): HTMLCanvasElement => {
+  const imgData = readArtPixels(source, settings, canvas);
+  convertPixels(imgData.data, imgData.width, imgData.height, settings, imgData.data, history);
+  canvas.getContext('2d')!.putImageData(imgData, 0, 0);
+  return canvas;
+};
+
+/**
+ * Quantizes the current frame of `source` at art resolution without rendering it back to RGBA.
+ */
+export const renderArtIndexed = (source: FrameSource, settings: RetroSettings): IndexedImage => {
+  const imgData = readArtPixels(source, settings, document.createElement('canvas'));
+  return quantizePixels(imgData.data, imgData.width, imgData.height, settings);
+};
+
+export type ExportScale = { mode: 'multiple'; factor: number } | { mode: 'width'; width: number };
+
+export interface ExportOptions {
+  scale: ExportScale;
+  effects: boolean; // CRT / LCD display effects from the settings
+}
+
+// Output size with non-square art pixels stretched, `aspect` as from getPixelAspect
+export const getExportSize = (artW: number, artH: number, scale: ExportScale, aspect = { x: 1, y: 1 }) => {
+  if (scale.mode === 'multiple') {
+    return { width: artW * aspect.x * scale.factor, height: artH * aspect.y * scale.factor };
+  }
+  const width = Math.max(1, Math.round(scale.width));
+  return { width, height: Math.max(1, Math.round((artH * aspect.y * width) / (artW * aspect.x))) };
+};
+
+/**
+ * Renders a still for download: art resolution, scaled by an integer multiple or to an exact width.
+ */
+export const renderExport = (source: FrameSource, settings: RetroSettings, options: ExportOptions): HTMLCanvasElement => {
+  const art = renderArt(source, settings);
+  const { width, height } = getExportSize(art.width, art.height, options.scale, getPixelAspect(settings));
+  const effects = options.effects && hasPostEffects(settings) ? settings : null;
+  if (width === art.width && height === art.height && !effects) return art;
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas 2D context unavailable');
+  drawUpscaled(ctx, art, width, height, effects);
+  return canvas;
+};
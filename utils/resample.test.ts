@@ -0,0 +1,104 @@
+import { describe, expect, it } from 'vitest';
+import { DownscaleMode } from '../types';
+import { resamplePixels } from './resample';
+import { createScratchBuffers } from './scratch';
+
+// RGBA buffer of opaque grays
+const grays = (...values: number[]) => new Uint8ClampedArray(values.flatMap((v) => [v, v, v, 255]));
+
+// Red channel of each pixel, enough for gray output
+const reds = (data: Uint8ClampedArray) => Array.from(data.filter((_, i) => i % 4 === 0));
+
+const pixels = (data: Uint8ClampedArray) => Array.from({ length: data.length / 4 }, (_, p) => Array.from(data.slice(p * 4, p * 4 + 4)));
+
+const MODES: DownscaleMode[] = ['area', 'nearest', 'bilinear', 'lanczos', 'dominant'];
+
+describe('resamplePixels', () => {
+  for (const mode of MODES) {
+    it(`${mode} keeps a flat color flat`, () => {
+      const data = new Uint8ClampedArray(new Array(48).fill([30, 120, 210, 255]).flat());
+      expect(pixels(resamplePixels(data, 4, 3, 2, 2, mode))).toEqual(new Array(4).fill([30, 120, 210, 255]));
+    });
+  }
+
+  for (const mode of ['area', 'nearest', 'bilinear', 'lanczos'] as const) {
+    it(`${mode} returns the input at the same size`, () => {
+      const data = grays(0, 50, 100, 150, 200, 250);
+      expect(resamplePixels(data, 3, 2, 3, 2, mode)).toEqual(data);
+    });
+  }
+
+  it('area averages the source cells under each target cell', () => {
+    expect(reds(resamplePixels(grays(10, 20, 30, 40), 4, 1, 2, 1, 'area'))).toEqual([15, 35]);
+    expect(reds(resamplePixels(grays(10, 20, 30, 40), 1, 4, 1, 2, 'area'))).toEqual([15, 35]);
+    expect(reds(resamplePixels(grays(0, 0, 100, 200), 4, 1, 1, 1, 'area'))).toEqual([75]);
+  });
+
+  it('area counts a partly covered cell by its covered share', () => {
+    // 3 -> 2: (10 + 20 / 2) / 1.5 and (20 / 2 + 30) / 1.5
+    expect(reds(resamplePixels(grays(10, 20, 30), 3, 1, 2, 1, 'area'))).toEqual([13, 27]);
+  });
+
+  it('nearest picks the source cell under each target center', () => {
+    expect(reds(resamplePixels(grays(10, 20, 30, 40), 4, 1, 2, 1, 'nearest'))).toEqual([20, 40]);
+  });
+
+  it('bilinear only blends the two cells around the center', () => {
+    expect(reds(resamplePixels(grays(10, 20, 30, 40), 4, 1, 2, 1, 'bilinear'))).toEqual([15, 35]);
+    expect(reds(resamplePixels(grays(0, 0, 100, 200), 4, 1, 1, 1, 'bilinear'))).toEqual([50]);
+  });
+
+  it('lanczos averages out single pixel stripes that nearest aliases', () => {
+    const stripes = grays(...Array.from({ length: 32 }, (_, x) => (x % 2) * 255));
+    expect(reds(resamplePixels(stripes, 32, 1, 16, 1, 'nearest'))).toEqual(new Array(16).fill(255));
+    // Away from the edges the kernel sees as many dark as light pixels at each distance
+    const smooth = reds(resamplePixels(stripes, 32, 1, 16, 1, 'lanczos')).slice(4, 12);
+    for (const v of smooth) expect(Math.abs(v - 127.5)).toBeLessThanOrEqual(0.5);
+  });
+
+  it('lanczos rings past a hard edge but stays in range', () => {
+    const step = grays(...Array.from({ length: 24 }, (_, x) => (x < 12 ? 40 : 215)));
+    const out = reds(resamplePixels(step, 24, 1, 8, 1, 'lanczos'));
+    expect(out[0]).toBe(40);
+    expect(out[7]).toBe(215);
+    expect(Math.min(...out)).toBeLessThan(40);
+    expect(Math.max(...out)).toBeGreaterThan(215);
+  });
+
+  it('averages color by alpha, so transparent pixels do not darken', () => {
+    const data = new Uint8ClampedArray([255, 0, 0, 255, 0, 255, 0, 0]);
+    expect(pixels(resamplePixels(data, 2, 1, 1, 1, 'area'))).toEqual([[255, 0, 0, 128]]);
+  });
+
+  it('writes fully transparent cells as transparent black', () => {
+    const data = new Uint8ClampedArray([90, 90, 90, 0, 200, 10, 10, 0]);
+    for (const mode of MODES) expect(pixels(resamplePixels(data, 2, 1, 1, 1, mode))).toEqual([[0, 0, 0, 0]]);
+  });
+
+  it('dominant keeps the most common color, averaged over its close shades', () => {
+    // Two reds in one 5 bit bucket outvote a blue and a green
+    const data = new Uint8ClampedArray([200, 0, 0, 255, 0, 0, 255, 255, 0, 255, 0, 255, 202, 0, 0, 255]);
+    expect(pixels(resamplePixels(data, 2, 2, 1, 1, 'dominant'))).toEqual([[201, 0, 0, 255]]);
+  });
+
+  it('dominant breaks ties in favor of the top left color', () => {
+    expect(reds(resamplePixels(grays(10, 250, 250, 10), 2, 2, 1, 1, 'dominant'))).toEqual([10]);
+  });
+
+  it('dominant turns a mostly transparent cell transparent', () => {
+    const data = new Uint8ClampedArray([255, 0, 0, 255, 0, 0, 0, 0, 0, 0, 0, 100, 0, 0, 0, 0]);
+    expect(pixels(resamplePixels(data, 2, 2, 1, 1, 'dominant'))).toEqual([[0, 0, 0, 0]]);
+  });
+
+  it('gives the same result with reused scratch buffers', () => {
+    const first = grays(...Array.from({ length: 64 }, (_, i) => (i * 37) % 256));
+    const second = grays(...Array.from({ length: 64 }, (_, i) => (i * 91) % 256));
+    for (const mode of MODES) {
+      const scratch = createScratchBuffers();
+      const a = resamplePixels(first, 8, 8, 3, 3, mode, scratch).slice();
+      const b = resamplePixels(second, 8, 8, 3, 3, mode, scratch);
+      expect(a).toEqual(resamplePixels(first, 8, 8, 3, 3, mode));
+      expect(b).toEqual(resamplePixels(second, 8, 8, 3, 3, mode));
+    }
+  });
+});
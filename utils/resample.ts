@@ -0,0 +1,251 @@
+import { DownscaleMode } from '../types';
+import { ScratchBuffers, takeScratch } from './scratch';
+
+// Source cells feeding one target cell along an axis, weights sum to 1
+interface Span {
+  start: number;
+  weights: number[];
+}
+
+// Lanczos lobes, 3 keeps fine detail without much ringing
+const LANCZOS_LOBES = 3;
+
+const sinc = (x: number) => (x === 0 ? 1 : Math.sin(Math.PI * x) / (Math.PI * x));
+
+const lanczos = (x: number) => (Math.abs(x) < LANCZOS_LOBES ? sinc(x) * sinc(x / LANCZOS_LOBES) : 0);
+
+// Per-axis weights for an area-average resize: each target cell covers `ratio` source cells,
+// partially covered edge cells count with their covered fraction
+const areaSpans = (source: number, target: number): Span[] => {
+  const ratio = source / target;
+  const spans: Span[] = [];
+  for (let t = 0; t < target; t++) {
+    const from = t * ratio;
+    const to = from + ratio;
+    const start = Math.floor(from);
+    const weights: number[] = [];
+    for (let s = start; s < Math.min(source, Math.ceil(to)); s++) {
+      weights.push((Math.min(to, s + 1) - Math.max(from, s)) / ratio);
+    }
+    spans.push({ start, weights });
+  }
+  return spans;
+};
+
+// The source cell under each target cell's center
+const nearestSpans = (source: number, target: number): Span[] => {
+  const ratio = source / target;
+  const spans: Span[] = [];
+  for (let t = 0; t < target; t++) {
+    spans.push({ start: Math.min(source - 1, Math.floor((t + 0.5) * ratio)), weights: [1] });
+  }
+  return spans;
+};
+
+/**
+ * Weights of a kernel centered on each target cell, in source cell units.
+ * `stretch` widens the kernel when shrinking so it still covers the whole cell.
+ * Taps past the edge are folded onto the edge cell.
+ */
+const kernelSpans = (
+  source: number,
+  target: number,
+  kernel: (x: number) => number,
+  radius: number,
+  stretch: boolean
+): Span[] => {
+  const ratio = source / target;
+  const scale = stretch ? Math.max(1, ratio) : 1;
+  const reach = radius * scale;
+  const spans: Span[] = [];
+  for (let t = 0; t < target; t++) {
+    const center = (t + 0.5) * ratio - 0.5;
+    const first = Math.max(0, Math.ceil(center - reach));
+    const last = Math.min(source - 1, Math.floor(center + reach));
+    const weights = new Array<number>(last - first + 1).fill(0);
+    let sum = 0;
+    for (let s = Math.ceil(center - reach); s <= Math.floor(center + reach); s++) {
+      const w = kernel((s - center) / scale);
+      weights[Math.min(last, Math.max(first, s)) - first] += w;
+      sum += w;
+    }
+    spans.push({ start: first, weights: weights.map((w) => w / sum) });
+  }
+  return spans;
+};
+
+const spansFor = (mode: DownscaleMode, source: number, target: number): Span[] => {
+  switch (mode) {
+    case 'nearest':
+      return nearestSpans(source, target);
+    case 'bilinear':
+      // Tent under the cell center only, what a GPU does without mipmaps
+      return kernelSpans(source, target, (x) => Math.max(0, 1 - Math.abs(x)), 1, false);
+    case 'lanczos':
+      return kernelSpans(source, target, lanczos, LANCZOS_LOBES, true);
+    default:
+      return areaSpans(source, target);
+  }
+};
+
+/**
+ * Separable resize of an RGBA buffer with per-axis spans.
+ * Color is averaged premultiplied, so transparent pixels don't darken the edges.
+ */
+const resampleSeparable = (
+  data: Uint8ClampedArray,
+  width: number,
+  height: number,
+  xSpans: Span[],
+  ySpans: Span[],
+  scratch: ScratchBuffers | null
+): Uint8ClampedArray => {
+  const targetW = xSpans.length;
+  const targetH = ySpans.length;
+
+  // Horizontal pass into premultiplied floats
+  const rows = takeScratch(scratch, 'resample-rows', Float32Array, targetW * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let tx = 0; tx < targetW; tx++) {
+      const { start, weights } = xSpans[tx];
+      let r = 0;
+      let g = 0;
+      let b = 0;
+      let a = 0;
+      for (let k = 0; k < weights.length; k++) {
+        const i = (y * width + start + k) * 4;
+        const w = weights[k] * (data[i + 3] / 255);
+        r += data[i] * w;
+        g += data[i + 1] * w;
+        b += data[i + 2] * w;
+        a += w;
+      }
+      const o = (y * targetW + tx) * 4;
+      rows[o] = r;
+      rows[o + 1] = g;
+      rows[o + 2] = b;
+      rows[o + 3] = a;
+    }
+  }
+
+  // Vertical pass, then un-premultiply
+  const out = takeScratch(scratch, 'resample', Uint8ClampedArray, targetW * targetH * 4);
+  for (let ty = 0; ty < targetH; ty++) {
+    const { start, weights } = ySpans[ty];
+    for (let tx = 0; tx < targetW; tx++) {
+      let r = 0;
+      let g = 0;
+      let b = 0;
+      let a = 0;
+      for (let k = 0; k < weights.length; k++) {
+        const i = ((start + k) * targetW + tx) * 4;
+        r += rows[i] * weights[k];
+        g += rows[i + 1] * weights[k];
+        b += rows[i + 2] * weights[k];
+        a += rows[i + 3] * weights[k];
+      }
+      const o = (ty * targetW + tx) * 4;
+      // Lanczos lobes can overshoot, clamped by the array
+      out[o] = a > 0 ? r / a : 0;
+      out[o + 1] = a > 0 ? g / a : 0;
+      out[o + 2] = a > 0 ? b / a : 0;
+      out[o + 3] = a * 255;
+    }
+  }
+  return out;
+};
+
+// Colors are bucketed at 5 bits per channel, close shades count as the same color
+const BUCKET_SHIFT = 3;
+// Below half alpha a source pixel votes for transparent, in the slot after the 2^15 colors
+const TRANSPARENT_BUCKET = 1 << 15;
+
+/**
+ * Picks the most frequent color in each target cell instead of mixing them, so outlines and
+ * flat areas keep their exact colors. The winner is the average of its bucket's pixels.
+ */
+const downscaleDominant = (
+  data: Uint8ClampedArray,
+  width: number,
+  height: number,
+  targetW: number,
+  targetH: number,
+  scratch: ScratchBuffers | null
+): Uint8ClampedArray => {
+  const out = takeScratch(scratch, 'resample', Uint8ClampedArray, targetW * targetH * 4);
+  // Both are all zeros again after every cell, so they can be handed to the next frame as they are
+  const counts = takeScratch(scratch, 'dominant-counts', Uint32Array, TRANSPARENT_BUCKET + 1);
+  const sums = takeScratch(scratch, 'dominant-sums', Uint32Array, TRANSPARENT_BUCKET * 3);
+  // Buckets touched by the current cell, cleared again before the next one
+  const touched: number[] = [];
+
+  for (let ty = 0; ty < targetH; ty++) {
+    const y0 = Math.floor((ty * height) / targetH);
+    const y1 = Math.max(y0 + 1, Math.floor(((ty + 1) * height) / targetH));
+    for (let tx = 0; tx < targetW; tx++) {
+      const x0 = Math.floor((tx * width) / targetW);
+      const x1 = Math.max(x0 + 1, Math.floor(((tx + 1) * width) / targetW));
+
+      for (let y = y0; y < y1; y++) {
+        for (let x = x0; x < x1; x++) {
+          const i = (y * width + x) * 4;
+          const key =
+            data[i + 3] < 128
+              ? TRANSPARENT_BUCKET
+              : ((data[i] >> BUCKET_SHIFT) << 10) | ((data[i + 1] >> BUCKET_SHIFT) << 5) | (data[i + 2] >> BUCKET_SHIFT);
+          if (++counts[key] === 1) touched.push(key);
+          if (key !== TRANSPARENT_BUCKET) {
+            sums[key * 3] += data[i];
+            sums[key * 3 + 1] += data[i + 1];
+            sums[key * 3 + 2] += data[i + 2];
+          }
+        }
+      }
+
+      // Ties go to the color seen first, scanning from the top left
+      let best = TRANSPARENT_BUCKET;
+      let bestCount = 0;
+      for (const key of touched) {
+        if (counts[key] > bestCount) {
+          best = key;
+          bestCount = counts[key];
+        }
+      }
+
+      const o = (ty * targetW + tx) * 4;
+      if (best !== TRANSPARENT_BUCKET) {
+        out[o] = sums[best * 3] / bestCount;
+        out[o + 1] = sums[best * 3 + 1] / bestCount;
+        out[o + 2] = sums[best * 3 + 2] / bestCount;
+        out[o + 3] = 255;
+      } else {
+        out.fill(0, o, o + 4);
+      }
+
+      for (const key of touched) {
+        counts[key] = 0;
+        if (key !== TRANSPARENT_BUCKET) sums.fill(0, key * 3, key * 3 + 3);
+      }
+      touched.length = 0;
+    }
+  }
+  return out;
+};
+
+/**
+ * Shrinks an RGBA buffer to art resolution with the chosen filter.
+ * Done in script rather than by the canvas, so every browser and the CLI agree pixel for pixel.
+ * With `scratch` the result and working buffers are reused, the result only until the next call.
+ */
+export const resamplePixels = (
+  data: Uint8ClampedArray,
+  width: number,
+  height: number,
+  targetW: number,
+  targetH: number,
+  mode: DownscaleMode,
+  scratch: ScratchBuffers | null = null
+): Uint8ClampedArray => {
+  if (mode === 'dominant') return downscaleDominant(data, width, height, targetW, targetH, scratch);
+  return resampleSeparable(data, width, height, spansFor(mode, width, targetW), spansFor(mode, height, targetH), scratch);
+};
@@ -0,0 +1,48 @@
+import { UploadedFile } from '../types';
+import { FrameSource, getSourceSize, loadImage } from './render';
+import { loadVideo, releaseVideo, seekVideo } from './videoFrames';
+
+// Sources are sampled small, palette extraction doesn't need full resolution
+const SAMPLE_SIZE = 256;
+
+const drawToPixels = (source: CanvasImageSource, width: number, height: number): Uint8ClampedArray => {
+  const scale = Math.min(1, SAMPLE_SIZE / Math.max(width, height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(width * scale));
+  canvas.height = Math.max(1, Math.round(height * scale));
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error('Canvas 2D context unavailable');
+  ctx.drawImage(source, 0, 0, canvas.width, canvas.height);
+  return ctx.getImageData(0, 0, canvas.width, canvas.height).data;
+};
+
+// The frame currently showing, for live sources that can't be reopened or seeked
+export const sampleFramePixels = (source: FrameSource): Uint8ClampedArray => {
+  const { width, height } = getSourceSize(source);
+  return drawToPixels(source, width, height);
+};
+
+/**
+ * Reads pixels from the uploaded file on a detached element, so playback in the preview
+ * isn't disturbed. Videos are sampled at `frames` evenly spaced timestamps.
+ */
+export const sampleSourcePixels = async (file: UploadedFile, frames = 8): Promise<Uint8ClampedArray[]> => {
+  if (file.type === 'image') {
+    const image = await loadImage(file.url);
+    return [drawToPixels(image, image.naturalWidth, image.naturalHeight)];
+  }
+
+  const video = await loadVideo(file.url);
+  try {
+    const buffers: Uint8ClampedArray[] = [];
+    const duration = Number.isFinite(video.duration) ? video.duration : 0;
+    for (let i = 0; i < frames; i++) {
+      // Frame centers, avoids the black first frame many clips start with
+      await seekVideo(video, (duration * (i + 0.5)) / frames);
+      buffers.push(drawToPixels(video, video.videoWidth, video.videoHeight));
+    }
+    return buffers;
+  } finally {
+    releaseVideo(video);
+  }
+};
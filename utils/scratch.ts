@@ -0,0 +1,25 @@
+// Typed arrays kept between frames by name, so the preview can convert frame after frame
+// without allocating its per-pixel buffers again. A size change replaces the buffer.
+export type ScratchBuffers = Map<string, Uint8Array | Uint8ClampedArray | Uint32Array | Float32Array>;
+
+export const createScratchBuffers = (): ScratchBuffers => new Map();
+
+type TypedArrayOf<T> = { new (length: number): T };
+
+/**
+ * The buffer stored under `name` when it has `length` elements, otherwise a fresh one that
+ * replaces it. Reused contents are whatever the previous frame left, callers overwrite them.
+ * Without `scratch` this is a plain allocation.
+ */
+export const takeScratch = <T extends Uint8Array | Uint8ClampedArray | Uint32Array | Float32Array>(
+  scratch: ScratchBuffers | null,
+  name: string,
+  type: TypedArrayOf<T>,
+  length: number
+): T => {
+  const cached = scratch?.get(name);
+  if (cached instanceof type && cached.length === length) return cached;
+  const fresh = new type(length);
+  scratch?.set(name, fresh);
+  return fresh;
+};
@@ -0,0 +1,22 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_SETTINGS, validateSettings } from './settings';
+
+describe('validateSettings', () => {
+  it('fills missing keys from the base', () => {
+    expect(validateSettings({ pixelSize: 3 })).toEqual({ ...DEFAULT_SETTINGS, pixelSize: 3 });
+  });
+
+  it('lists every problem at once', () => {
+    expect(() => validateSettings({ pixelSize: 0, colorDark: 'red', nope: 1 })).toThrow(
+      'Invalid settings:\n  "pixelSize" must be between 1 and 64\n  "colorDark" must be a #rrggbb color\n  Unknown setting "nope"'
+    );
+  });
+
+  it('reports keys inherited from Object as unknown', () => {
+    // JSON.parse makes '__proto__' an own key, like a crafted preset file or share link would
+    const input = JSON.parse('{"__proto__": {"pixelSize": 2}, "constructor": 1, "toString": "x"}');
+    expect(() => validateSettings(input)).toThrow(
+      'Invalid settings:\n  Unknown setting "__proto__"\n  Unknown setting "constructor"\n  Unknown setting "toString"'
+    );
+  });
+});
@@ -0,0 +1,201 @@
+import {
+  AlphaMode,
+  ColorSpace,
+  CropAspect,
+  DitherMode,
+  DownscaleMode,
+  LevelsMode,
+  LumaMode,
+  PaletteMode,
+  PhosphorMask,
+  PixelAspect,
+  RetroSettings,
+  Rotation,
+  TemporalMode,
+} from '../types';
+import { MAX_PALETTE_SIZE } from './palette';
+
+export const DEFAULT_SETTINGS: RetroSettings = {
+  rotation: 0,
+  flipH: false,
+  flipV: false,
+  crop: null,
+  cropAspect: 'free',
+  pixelSize: 6,
+  pixelAspect: '1:1',
+  downscale: 'area',
+  threshold: 110,
+  ditherMode: 'bayer4',
+  ditherAmount: 0.25,
+  serpentine: true,
+  ditherScale: 1,
+  halftoneAngle: 45,
+  animateNoise: false,
+  temporal: 'off',
+  temporalBand: 16,
+  contrast: 1.1,
+  brightness: 0,
+  gamma: 1,
+  levels: 'none',
+  blur: 0,
+  sharpen: 0,
+  edges: 0,
+  lumaMode: 'rec601',
+  colorDark: '#1a1a14', // Rich Black
+  colorLight: '#e6e0d4', // Bone/Beige
+  paletteMode: 'duotone',
+  palette: ['#0f380f', '#306230', '#8bac0f', '#9bbc0f'], // Game Boy
+  colorSpace: 'lab',
+  invert: false,
+  alphaMode: 'opaque',
+  alphaThreshold: 128,
+  transparentColor: null,
+  gridLine: false,
+  scanlineIntensity: 0.3,
+  scanlineSpacing: 2,
+  phosphorMask: 'none',
+  maskIntensity: 0.5,
+  curvature: 0,
+  vignette: 0,
+  bloom: 0,
+  chromatic: 0,
+  lcdGrid: 0,
+};
+
+const DITHER_MODES: DitherMode[] = [
+  'bayer2',
+  'bayer4',
+  'bayer8',
+  'bayer16',
+  'blue-noise',
+  'halftone',
+  'lines-horizontal',
+  'lines-diagonal',
+  'floyd-steinberg',
+  'atkinson',
+  'jarvis',
+  'stucki',
+  'sierra',
+];
+const PALETTE_MODES: PaletteMode[] = ['duotone', 'palette'];
+const COLOR_SPACES: ColorSpace[] = ['rgb', 'weighted-rgb', 'lab'];
+const ALPHA_MODES: AlphaMode[] = ['opaque', 'threshold', 'dither'];
+const LEVELS_MODES: LevelsMode[] = ['none', 'auto', 'equalize', 'clahe'];
+const LUMA_MODES: LumaMode[] = ['rec601', 'rec709', 'average', 'red', 'green', 'blue'];
+const DOWNSCALE_MODES: DownscaleMode[] = ['nearest', 'area', 'bilinear', 'lanczos', 'dominant'];
+const PIXEL_ASPECTS: PixelAspect[] = ['1:1', '2:1', '1:2'];
+const TEMPORAL_MODES: TemporalMode[] = ['off', 'hysteresis', 'motion'];
+const PHOSPHOR_MASKS: PhosphorMask[] = ['none', 'rgb', 'aperture'];
+const ROTATIONS: Rotation[] = [0, 90, 180, 270];
+const CROP_ASPECTS: CropAspect[] = ['free', '1:1', '4:3', '16:9', 'gameboy', 'nes'];
+
+const HEX_PATTERN = /^#[0-9a-f]{6}$/i;
+
+type Check = (value: unknown) => string | null;
+
+const number = (min: number, max: number, integer = false): Check => (value) => {
+  if (typeof value !== 'number' || !Number.isFinite(value)) return 'must be a number';
+  if (integer && !Number.isInteger(value)) return 'must be a whole number';
+  if (value < min || value > max) return `must be between ${min} and ${max}`;
+  return null;
+};
+
+const oneOf = (options: readonly string[]): Check => (value) =>
+  typeof value === 'string' && options.includes(value) ? null : `must be one of ${options.join(', ')}`;
+
+const boolean: Check = (value) => (typeof value === 'boolean' ? null : 'must be true or false');
+
+const hex: Check = (value) => (typeof value === 'string' && HEX_PATTERN.test(value) ? null : 'must be a #rrggbb color');
+
+// Fractions of the frame, with some slack for rounding in hand-edited files
+const cropRect: Check = (value) => {
+  if (value === null) return null;
+  if (typeof value !== 'object' || Array.isArray(value)) return 'must be null or { x, y, width, height }';
+  const { x, y, width, height } = value as Record<string, unknown>;
+  for (const [name, part] of Object.entries({ x, y, width, height })) {
+    const problem = number(0, 1)(part);
+    if (problem) return `${name} ${problem}`;
+  }
+  const rect = value as { x: number; y: number; width: number; height: number };
+  if (rect.width === 0 || rect.height === 0) return 'must not be empty';
+  if (rect.x + rect.width > 1.001 || rect.y + rect.height > 1.001) return 'must lie inside the frame';
+  return null;
+};
+
+const CHECKS: Record<keyof RetroSettings, Check> = {
+  rotation: (value) => (ROTATIONS.includes(value as Rotation) ? null : `must be one of ${ROTATIONS.join(', ')}`),
+  flipH: boolean,
+  flipV: boolean,
+  crop: cropRect,
+  cropAspect: oneOf(CROP_ASPECTS),
+  pixelSize: number(1, 64, true),
+  pixelAspect: oneOf(PIXEL_ASPECTS),
+  downscale: oneOf(DOWNSCALE_MODES),
+  threshold: number(0, 255),
+  ditherMode: oneOf(DITHER_MODES),
+  ditherAmount: number(0, 1),
+  serpentine: boolean,
+  ditherScale: number(1, 8, true),
+  halftoneAngle: number(0, 90),
+  animateNoise: boolean,
+  temporal: oneOf(TEMPORAL_MODES),
+  temporalBand: number(0, 64),
+  contrast: number(0.1, 3),
+  brightness: number(-100, 100),
+  gamma: number(0.2, 5),
+  levels: oneOf(LEVELS_MODES),
+  blur: number(0, 8),
+  sharpen: number(0, 4),
+  edges: number(0, 1),
+  lumaMode: oneOf(LUMA_MODES),
+  paletteMode: oneOf(PALETTE_MODES),
+  colorDark: hex,
+  colorLight: hex,
+  palette: (value) => {
+    if (!Array.isArray(value)) return 'must be an array of #rrggbb colors';
+    if (value.length < 1 || value.length > MAX_PALETTE_SIZE) return `must have 1 to ${MAX_PALETTE_SIZE} colors`;
+    const bad = value.findIndex((c) => hex(c) !== null);
+    return bad >= 0 ? `entry ${bad} must be a #rrggbb color` : null;
+  },
+  colorSpace: oneOf(COLOR_SPACES),
+  invert: boolean,
+  alphaMode: oneOf(ALPHA_MODES),
+  alphaThreshold: number(1, 255),
+  transparentColor: (value) => (value === null ? null : hex(value)),
+  gridLine: boolean,
+  scanlineIntensity: number(0, 1),
+  scanlineSpacing: number(2, 8, true),
+  phosphorMask: oneOf(PHOSPHOR_MASKS),
+  maskIntensity: number(0, 1),
+  curvature: number(0, 1),
+  vignette: number(0, 1),
+  bloom: number(0, 1),
+  chromatic: number(0, 1),
+  lcdGrid: number(0, 1),
+};
+
+/**
+ * Checks a partial settings object (e.g. a parsed preset file) and fills the gaps from `base`.
+ * Throws one Error listing every problem, so a broken preset can be fixed in one go.
+ */
+export const validateSettings = (input: unknown, base: RetroSettings = DEFAULT_SETTINGS): RetroSettings => {
+  if (typeof input !== 'object' || input === null || Array.isArray(input)) {
+    throw new Error('Settings must be a JSON object');
+  }
+
+  const problems: string[] = [];
+  for (const [key, value] of Object.entries(input)) {
+    // Own keys only, so '__proto__' or 'constructor' can't pick up Object's built-ins
+    const check = Object.hasOwn(CHECKS, key) ? CHECKS[key as keyof RetroSettings] : null;
+    if (!check) {
+      problems.push(`Unknown setting "${key}"`);
+      continue;
+    }
+    const problem = check(value);
+    if (problem) problems.push(`"${key}" ${problem}`);
+  }
+  if (problems.length > 0) {
+    throw new Error(`Invalid settings:\n  ${problems.join('\n  ')}`);
+  }
+  return { ...base, ...(input as Partial<RetroSettings>) };
+};
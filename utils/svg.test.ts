@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { IndexedImage } from './convert';
+import { indexedToSvg } from './svg';
+
+const image = (width: number, height: number, indices: number[], transparentIndex: number | null = null): IndexedImage => ({
+  width,
+  height,
+  indices: new Uint8Array(indices),
+  palette: [
+    { r: 0, g: 0, b: 0 },
+    { r: 255, g: 0, b: 0 },
+    { r: 0, g: 0, b: 255 },
+  ],
+  transparentIndex,
+});
+
+const paths = (svg: string) => svg.split('\n').filter((line) => line.includes('<path'));
+
+describe('indexedToSvg', () => {
+  it('merges same-colored pixels into one path per color', () => {
+    // A 2x2 black block with a red pixel beside it and a blue one below that
+    const svg = indexedToSvg(image(3, 2, [0, 0, 1, 0, 0, 2]));
+    expect(paths(svg)).toEqual([
+      '  <path fill="#000000" d="M0 0h2v2h-2z"/>',
+      '  <path fill="#ff0000" d="M2 0h1v1h-1z"/>',
+      '  <path fill="#0000ff" d="M2 1h1v1h-1z"/>',
+    ]);
+  });
+
+  it('keeps separate areas of one color as subpaths of the same path', () => {
+    const svg = indexedToSvg(image(3, 1, [1, 0, 1]));
+    expect(paths(svg)).toEqual([
+      '  <path fill="#000000" d="M1 0h1v1h-1z"/>',
+      '  <path fill="#ff0000" d="M0 0h1v1h-1zM2 0h1v1h-1z"/>',
+    ]);
+  });
+
+  it('only stacks runs that line up exactly', () => {
+    const svg = indexedToSvg(image(3, 2, [0, 0, 0, 0, 0, 1]));
+    expect(paths(svg)[0]).toBe('  <path fill="#000000" d="M0 0h3v1h-3zM0 1h2v1h-2z"/>');
+  });
+
+  it('leaves transparent pixels out', () => {
+    const svg = indexedToSvg(image(2, 2, [2, 0, 2, 2], 2));
+    expect(paths(svg)).toEqual(['  <path fill="#000000" d="M1 0h1v1h-1z"/>']);
+    expect(svg).not.toContain('#0000ff');
+  });
+
+  it('scales the document size but keeps the viewBox at art resolution', () => {
+    const svg = indexedToSvg(image(3, 2, [0, 0, 0, 0, 0, 0]), { scale: 4, aspect: { x: 2, y: 1 } });
+    expect(svg).toContain('width="24" height="8" viewBox="0 0 3 2"');
+  });
+});
@@ -0,0 +1,76 @@
+import { IndexedImage } from './convert';
+import { rgbToHex } from './dither';
+
+export interface SvgOptions {
+  // Size of one art pixel in the width/height attributes, the viewBox stays at art resolution
+  scale?: number;
+  // Units per art pixel on each axis for non-square pixels, as from getPixelAspect
+  aspect?: { x: number; y: number };
+}
+
+interface Rect {
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+}
+
+// Horizontal runs per row, each stacked onto an identical run directly above it
+const mergeRects = (image: IndexedImage): Map<number, Rect[]> => {
+  const { width, height, indices } = image;
+  const rects = new Map<number, Rect[]>();
+  let open = new Map<string, Rect>();
+
+  for (let y = 0; y < height; y++) {
+    const next = new Map<string, Rect>();
+    let x = 0;
+    while (x < width) {
+      const color = indices[y * width + x];
+      let end = x + 1;
+      while (end < width && indices[y * width + end] === color) end++;
+
+      const key = `${x},${end - x},${color}`;
+      const above = open.get(key);
+      if (above) {
+        above.h++;
+        next.set(key, above);
+      } else {
+        const rect = { x, y, w: end - x, h: 1 };
+        if (!rects.has(color)) rects.set(color, []);
+        rects.get(color)!.push(rect);
+        next.set(key, rect);
+      }
+      x = end;
+    }
+    open = next;
+  }
+  return rects;
+};
+
+/**
+ * Traces an indexed image into an SVG with one merged `<path>` per palette color.
+ * Pixels stay crisp at any size thanks to integer coordinates and crispEdges.
+ */
+export const indexedToSvg = (image: IndexedImage, options: SvgOptions = {}): string => {
+  const scale = options.scale ?? 1;
+  const aspect = options.aspect ?? { x: 1, y: 1 };
+  const rects = mergeRects(image);
+
+  const paths: string[] = [];
+  image.palette.forEach((color, index) => {
+    const list = rects.get(index);
+    // The transparent slot is simply left out of the drawing
+    if (!list || index === image.transparentIndex) return;
+    const d = list.map((r) => `M${r.x} ${r.y}h${r.w}v${r.h}h-${r.w}z`).join('');
+    paths.push(`  <path fill="${rgbToHex(color)}" d="${d}"/>`);
+  });
+
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${image.width * aspect.x * scale}" ` +
+      `height="${image.height * aspect.y * scale}" viewBox="0 0 ${image.width} ${image.height}" ` +
+      `preserveAspectRatio="none" shape-rendering="crispEdges">`,
+    ...paths,
+    '</svg>',
+    '',
+  ].join('\n');
+};
@@ -0,0 +1,169 @@
+import { describe, expect, it } from 'vitest';
+import { RetroSettings } from '../types';
+import { quantizePixels } from './convert';
+import { Rgb } from './palette';
+import { DEFAULT_SETTINGS } from './settings';
+import {
+  beginTemporalFrame,
+  createTemporalHistory,
+  endTemporalFrame,
+  holdBias,
+  holdIndex,
+  TemporalFrame,
+  TemporalHistory,
+} from './temporal';
+
+// Plain threshold on a black/white pair, so the held index can be worked out by hand
+const settingsFor = (overrides: Partial<RetroSettings>): RetroSettings => ({
+  ...DEFAULT_SETTINGS,
+  contrast: 1,
+  threshold: 128,
+  ditherAmount: 0,
+  colorDark: '#000000',
+  colorLight: '#ffffff',
+  temporal: 'hysteresis',
+  temporalBand: 16,
+  ...overrides,
+});
+
+const grays = (...values: number[]) => new Uint8ClampedArray(values.flatMap((v) => [v, v, v, 255]));
+
+const frameOf = (previous: number[], valid: number[] | null = null, band = 16): TemporalFrame => ({
+  frame: 1,
+  previous: new Uint8Array(previous),
+  valid: valid && new Uint8Array(valid),
+  band,
+});
+
+const PALETTE: Rgb[] = [
+  { r: 0, g: 0, b: 0 },
+  { r: 100, g: 100, b: 100 },
+  { r: 255, g: 255, b: 255 },
+];
+
+describe('holdBias', () => {
+  it('makes a light pixel need to drop a band below the threshold, and a dark one rise a band above', () => {
+    const frame = frameOf([1, 0, 255]);
+    expect(holdBias(frame, 0)).toBe(-16);
+    expect(holdBias(frame, 1)).toBe(16);
+    // Transparent last frame
+    expect(holdBias(frame, 2)).toBe(0);
+  });
+
+  it('holds nothing without a previous frame or where motion lost track', () => {
+    expect(holdBias(null, 0)).toBe(0);
+    expect(holdBias({ frame: 0, previous: null, valid: null, band: 16 }, 0)).toBe(0);
+    expect(holdBias(frameOf([1, 1], [0, 1]), 0)).toBe(0);
+    expect(holdBias(frameOf([1, 1], [0, 1]), 1)).toBe(-16);
+  });
+});
+
+describe('holdIndex', () => {
+  it('keeps last frame color while it is within the band of the best match', () => {
+    // Gray 60: black is 103.9 away, the mid gray 69.3, so holding black costs 34.6
+    expect(holdIndex(frameOf([0], null, 40), 0, PALETTE, 60, 60, 60, 1)).toBe(0);
+    expect(holdIndex(frameOf([0], null, 30), 0, PALETTE, 60, 60, 60, 1)).toBe(1);
+  });
+
+  it('takes the best match without usable history', () => {
+    expect(holdIndex(null, 0, PALETTE, 60, 60, 60, 1)).toBe(1);
+    expect(holdIndex(frameOf([0], [0], 255), 0, PALETTE, 60, 60, 60, 1)).toBe(1);
+    // An index past the palette, from a transparent pixel or a shorter palette
+    expect(holdIndex(frameOf([7], null, 255), 0, PALETTE, 60, 60, 60, 1)).toBe(1);
+  });
+});
+
+describe('beginTemporalFrame', () => {
+  it('hands the last output to the next frame and counts frames', () => {
+    const history = createTemporalHistory();
+    const settings = settingsFor({});
+    const data = grays(1, 2, 3, 4);
+    const first = beginTemporalFrame(history, data, 2, 2, settings);
+    expect(first).toEqual({ frame: 0, previous: null, valid: null, band: 16 });
+
+    const indices = new Uint8Array([0, 1, 1, 0]);
+    endTemporalFrame(history, indices);
+    const second = beginTemporalFrame(history, data, 2, 2, settings);
+    expect(second.frame).toBe(1);
+    expect(second.previous).toBe(indices);
+  });
+
+  it('starts over when the settings or the size change', () => {
+    const history = createTemporalHistory();
+    const data = grays(1, 2, 3, 4);
+    beginTemporalFrame(history, data, 2, 2, settingsFor({}));
+    endTemporalFrame(history, new Uint8Array(4));
+
+    const edited = beginTemporalFrame(history, data, 2, 2, settingsFor({ threshold: 100 }));
+    expect(edited).toMatchObject({ frame: 0, previous: null });
+    endTemporalFrame(history, new Uint8Array(4));
+
+    const resized = beginTemporalFrame(history, data, 4, 1, settingsFor({ threshold: 100 }));
+    expect(resized).toMatchObject({ frame: 0, previous: null });
+  });
+
+  it('still counts frames for animated noise when holding is off', () => {
+    const history = createTemporalHistory();
+    const settings = settingsFor({ temporal: 'off' });
+    beginTemporalFrame(history, grays(1), 1, 1, settings);
+    endTemporalFrame(history, new Uint8Array(1));
+    expect(beginTemporalFrame(history, grays(1), 1, 1, settings)).toEqual({
+      frame: 1,
+      previous: null,
+      valid: null,
+      band: 16,
+    });
+  });
+
+  it('carries the previous output along with moving content', () => {
+    const size = 16;
+    // Texture without repeats, so only the true shift matches
+    const texture = (x: number, y: number) => ((x * 73 + y * 151 + x * y * 31) % 251) + 2;
+    const at = (shift: number) =>
+      grays(...Array.from({ length: size * size }, (_, p) => texture((p % size) - shift, Math.floor(p / size))));
+
+    const history = createTemporalHistory();
+    const settings = settingsFor({ temporal: 'motion' });
+    beginTemporalFrame(history, at(0), size, size, settings);
+    const indices = Uint8Array.from({ length: size * size }, (_, p) => p % 2);
+    endTemporalFrame(history, indices);
+
+    // Everything moves 2 pixels right
+    const { previous, valid } = beginTemporalFrame(history, at(2), size, size, settings);
+    for (let y = 0; y < size; y++) {
+      for (let x = 0; x < size; x++) {
+        const p = y * size + x;
+        // The two columns that came into view have nothing to carry
+        expect(valid![p]).toBe(x < 2 ? 0 : 1);
+        if (x >= 2) expect(previous![p]).toBe(indices[p - 2]);
+      }
+    }
+  });
+
+  it('drops blocks that match nothing in the previous frame', () => {
+    const history = createTemporalHistory();
+    const settings = settingsFor({ temporal: 'motion' });
+    beginTemporalFrame(history, grays(...new Array(64).fill(20)), 8, 8, settings);
+    endTemporalFrame(history, new Uint8Array(64).fill(1));
+    const { valid } = beginTemporalFrame(history, grays(...new Array(64).fill(200)), 8, 8, settings);
+    expect(Array.from(valid!)).toEqual(new Array(64).fill(0));
+  });
+});
+
+describe('hysteresis through quantizePixels', () => {
+  const run = (history: TemporalHistory | null, level: number) =>
+    quantizePixels(grays(level), 1, 1, settingsFor({}), null, history).indices[0];
+
+  it('holds a pixel until it crosses the band on the far side of the threshold', () => {
+    const history = createTemporalHistory();
+    expect(run(history, 130)).toBe(1);
+    // 120 and 113 are dark without history, but still within 16 of the threshold
+    expect(run(null, 120)).toBe(0);
+    expect(run(history, 120)).toBe(1);
+    expect(run(history, 113)).toBe(1);
+    expect(run(history, 112)).toBe(0);
+    // Back up it has to pass 144
+    expect(run(history, 140)).toBe(0);
+    expect(run(history, 145)).toBe(1);
+  });
+});
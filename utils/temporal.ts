@@ -0,0 +1,204 @@
+import { RetroSettings } from '../types';
+import { LUMA_WEIGHTS } from './preprocess';
+import { Rgb } from './palette';
+
+/**
+ * State carried from one video frame to the next, so static areas keep their dither pattern
+ * instead of boiling. One per clip or preview, reset whenever the settings or size change.
+ */
+export interface TemporalHistory {
+  key: string; // Settings the state was built with
+  width: number;
+  height: number;
+  frame: number; // Frames converted since the last reset, drives animated noise
+  indices: Uint8Array | null; // Previous output
+  luma: Float32Array | null; // Previous pre-processed luma, motion mode only
+}
+
+/**
+ * What the quantizers need from the history for one frame.
+ * `previous[p]` is the index pixel p had last frame; `valid`, when set, marks which of them
+ * can be trusted (motion mode drops blocks it couldn't track).
+ */
+export interface TemporalFrame {
+  frame: number;
+  previous: Uint8Array | null;
+  valid: Uint8Array | null;
+  band: number;
+}
+
+// Motion search: block size and reach in art pixels
+const MOTION_BLOCK = 8;
+const MOTION_SEARCH = 4;
+// Mean luma difference per pixel above which a block counts as new content
+const MOTION_MAX_ERROR = 24;
+// A moved match must beat standing still by this much per pixel, keeps noise from jittering vectors
+const MOTION_STILL_BIAS = 1;
+
+export const createTemporalHistory = (): TemporalHistory => ({
+  key: '',
+  width: 0,
+  height: 0,
+  frame: 0,
+  indices: null,
+  luma: null,
+});
+
+const lumaOf = (data: Uint8ClampedArray, width: number, height: number, settings: RetroSettings) => {
+  const [wr, wg, wb] = LUMA_WEIGHTS[settings.lumaMode];
+  const luma = new Float32Array(width * height);
+  for (let p = 0; p < luma.length; p++) {
+    luma[p] = data[p * 4] * wr + data[p * 4 + 1] * wg + data[p * 4 + 2] * wb;
+  }
+  return luma;
+};
+
+/**
+ * Mean absolute difference of a block against the previous frame moved by (dx, dy), over the
+ * part of the block that stays inside the frame. Gives up with Infinity once it can't beat `limit`.
+ */
+const blockError = (
+  prev: Float32Array,
+  luma: Float32Array,
+  width: number,
+  height: number,
+  bx: number,
+  by: number,
+  dx: number,
+  dy: number,
+  limit: number
+) => {
+  const x0 = Math.max(bx, -dx);
+  const x1 = Math.min(bx + MOTION_BLOCK, width, width - dx);
+  const y0 = Math.max(by, -dy);
+  const y1 = Math.min(by + MOTION_BLOCK, height, height - dy);
+  if (x1 <= x0 || y1 <= y0) return Infinity;
+
+  const count = (x1 - x0) * (y1 - y0);
+  const cap = limit * count;
+  const shift = dy * width + dx;
+  let sum = 0;
+  for (let y = y0; y < y1; y++) {
+    for (let p = y * width + x0, end = y * width + x1; p < end; p++) {
+      sum += Math.abs(luma[p] - prev[p + shift]);
+    }
+    if (sum >= cap) return Infinity;
+  }
+  return sum / count;
+};
+
+/**
+ * Block matching against the previous frame: every block takes the state of the area it came
+ * from, so panning and moving subjects carry their pattern along instead of re-dithering.
+ */
+const compensateMotion = (history: TemporalHistory, luma: Float32Array, width: number, height: number) => {
+  const prev = history.luma!;
+  const indices = history.indices!;
+  const previous = new Uint8Array(width * height);
+  const valid = new Uint8Array(width * height);
+
+  for (let by = 0; by < height; by += MOTION_BLOCK) {
+    for (let bx = 0; bx < width; bx += MOTION_BLOCK) {
+      let best = {
+        dx: 0,
+        dy: 0,
+        error: blockError(prev, luma, width, height, bx, by, 0, 0, Infinity) - MOTION_STILL_BIAS,
+      };
+      for (let dy = -MOTION_SEARCH; dy <= MOTION_SEARCH; dy++) {
+        for (let dx = -MOTION_SEARCH; dx <= MOTION_SEARCH; dx++) {
+          if (dx === 0 && dy === 0) continue;
+          const error = blockError(prev, luma, width, height, bx, by, dx, dy, best.error);
+          if (error < best.error) best = { dx, dy, error };
+        }
+      }
+      if (best.error > MOTION_MAX_ERROR) continue;
+
+      for (let y = by; y < Math.min(height, by + MOTION_BLOCK); y++) {
+        const sy = y + best.dy;
+        if (sy < 0 || sy >= height) continue;
+        for (let x = bx; x < Math.min(width, bx + MOTION_BLOCK); x++) {
+          const sx = x + best.dx;
+          if (sx < 0 || sx >= width) continue;
+          previous[y * width + x] = indices[sy * width + sx];
+          valid[y * width + x] = 1;
+        }
+      }
+    }
+  }
+  return { previous, valid };
+};
+
+/**
+ * Prepares the history for a new frame of pre-processed pixels and returns what the
+ * quantizers need. Any settings or size change starts over, so edits show in full.
+ */
+export const beginTemporalFrame = (
+  history: TemporalHistory,
+  data: Uint8ClampedArray,
+  width: number,
+  height: number,
+  settings: RetroSettings
+): TemporalFrame => {
+  const key = JSON.stringify(settings);
+  if (history.key !== key || history.width !== width || history.height !== height) {
+    Object.assign(history, createTemporalHistory(), { key, width, height });
+  } else {
+    history.frame++;
+  }
+
+  const frame: TemporalFrame = { frame: history.frame, previous: null, valid: null, band: settings.temporalBand };
+  if (settings.temporal === 'off') {
+    history.luma = null;
+    return frame;
+  }
+
+  if (settings.temporal === 'motion') {
+    const luma = lumaOf(data, width, height, settings);
+    if (history.indices && history.luma) Object.assign(frame, compensateMotion(history, luma, width, height));
+    history.luma = luma;
+  } else {
+    frame.previous = history.indices;
+  }
+  return frame;
+};
+
+// Remembers the finished frame for the next one
+export const endTemporalFrame = (history: TemporalHistory, indices: Uint8Array) => {
+  history.indices = indices;
+};
+
+/**
+ * Duotone hysteresis: a pixel that was light only turns dark once it drops `band` below the
+ * threshold, and the other way round. Returns the shift to apply to the threshold.
+ */
+export const holdBias = (temporal: TemporalFrame | null, p: number): number => {
+  if (!temporal?.previous || (temporal.valid && !temporal.valid[p])) return 0;
+  const previous = temporal.previous[p];
+  // Anything else was a transparent pixel, nothing to hold
+  if (previous === 1) return -temporal.band;
+  if (previous === 0) return temporal.band;
+  return 0;
+};
+
+/**
+ * Palette hysteresis: keeps last frame's color while it is within `band` (RGB distance)
+ * of the best match.
+ */
+export const holdIndex = (
+  temporal: TemporalFrame | null,
+  p: number,
+  palette: Rgb[],
+  r: number,
+  g: number,
+  b: number,
+  index: number
+): number => {
+  if (!temporal?.previous || (temporal.valid && !temporal.valid[p])) return index;
+  const previous = temporal.previous[p];
+  if (previous === index || previous >= palette.length) return index;
+  const held = palette[previous];
+  const best = palette[index];
+  const heldDistance = Math.hypot(r - held.r, g - held.g, b - held.b);
+  const bestDistance = Math.hypot(r - best.r, g - best.g, b - best.b);
+  return heldDistance - bestDistance <= temporal.band ? previous : index;
+};
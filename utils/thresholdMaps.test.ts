@@ -0,0 +1,149 @@
+import { describe, expect, it } from 'vitest';
+import { OrderedDitherMode, RetroSettings } from '../types';
+import { DEFAULT_SETTINGS } from './settings';
+import { generateBayerMatrix, generateBlueNoise, getThresholdMap } from './thresholdMaps';
+
+const mapFor = (ditherMode: OrderedDitherMode, overrides: Partial<RetroSettings> = {}) =>
+  getThresholdMap({ ...DEFAULT_SETTINGS, ditherMode, ...overrides });
+
+const range = (n: number) => Array.from({ length: n }, (_, i) => i);
+
+// Map values over one size x size tile, scaled to whole ranks
+const tileRanks = (map: (x: number, y: number) => number, size: number) =>
+  range(size * size).map((p) => Math.round(map(p % size, Math.floor(p / size)) * size * size));
+
+describe('generateBayerMatrix', () => {
+  it('starts from the 2x2 base', () => {
+    expect(generateBayerMatrix(2)).toEqual([
+      [0, 2],
+      [3, 1],
+    ]);
+  });
+
+  it('builds 4x4 as [[4M, 4M + 2], [4M + 3, 4M + 1]]', () => {
+    expect(generateBayerMatrix(4)).toEqual([
+      [0, 8, 2, 10],
+      [12, 4, 14, 6],
+      [3, 11, 1, 9],
+      [15, 7, 13, 5],
+    ]);
+  });
+
+  it('holds every index once', () => {
+    for (const size of [2, 4, 8, 16]) {
+      expect(generateBayerMatrix(size).flat().sort((a, b) => a - b)).toEqual(range(size * size));
+    }
+  });
+
+  it('rejects sizes that are not a power of two', () => {
+    expect(() => generateBayerMatrix(6)).toThrow('power of two');
+    expect(() => generateBayerMatrix(1)).toThrow('power of two');
+  });
+});
+
+describe('generateBlueNoise', () => {
+  it('ranks every cell once', () => {
+    const ranks = Array.from(generateBlueNoise(16)).sort((a, b) => a - b);
+    expect(ranks).toEqual(range(256));
+  });
+
+  it('is the same on every run for a seed', () => {
+    expect(generateBlueNoise(8, 7)).toEqual(generateBlueNoise(8, 7));
+  });
+
+  it('spreads the lowest ranks out instead of clumping them', () => {
+    // The first 10% of a blue noise ramp never sit side by side
+    const size = 16;
+    const ranks = generateBlueNoise(size);
+    for (let p = 0; p < ranks.length; p++) {
+      if (ranks[p] >= 25) continue;
+      const right = ranks[p % size === size - 1 ? p - size + 1 : p + 1];
+      const below = ranks[(p + size) % ranks.length];
+      expect(right >= 25 && below >= 25).toBe(true);
+    }
+  });
+});
+
+describe('getThresholdMap', () => {
+  const BAYER = [
+    ['bayer2', 2],
+    ['bayer4', 4],
+    ['bayer8', 8],
+    ['bayer16', 16],
+  ] as const;
+
+  for (const [mode, size] of BAYER) {
+    it(`${mode} covers 0 to ${size * size - 1} over ${size * size} once per tile`, () => {
+      const map = mapFor(mode);
+      expect(tileRanks(map, size).sort((a, b) => a - b)).toEqual(range(size * size));
+      expect(map(0, 0)).toBe(0);
+    });
+
+    it(`${mode} repeats every ${size} pixels, also left of and above the origin`, () => {
+      const map = mapFor(mode);
+      for (const [x, y] of [[0, 0], [1, size - 1], [size - 1, 2]]) {
+        expect(map(x + size, y)).toBe(map(x, y));
+        expect(map(x, y + size)).toBe(map(x, y));
+        expect(map(x - size, y - 3 * size)).toBe(map(x, y));
+      }
+    });
+  }
+
+  it('blue-noise covers one rank per cell of its 64x64 tile and repeats after it', () => {
+    const map = mapFor('blue-noise');
+    expect(tileRanks(map, 64).sort((a, b) => a - b)).toEqual(range(64 * 64));
+    expect(map(70, -3)).toBe(map(6, 61));
+  });
+
+  it('halftone stays in 0..1 and repeats every 6 pixels on an upright screen', () => {
+    for (const halftoneAngle of [0, 90]) {
+      const map = mapFor('halftone', { halftoneAngle });
+      for (let y = 0; y < 6; y++) {
+        for (let x = 0; x < 6; x++) {
+          expect(map(x, y)).toBeGreaterThanOrEqual(0);
+          expect(map(x, y)).toBeLessThanOrEqual(1);
+          expect(map(x + 6, y - 12)).toBeCloseTo(map(x, y), 10);
+        }
+      }
+    }
+  });
+
+  it('halftone runs from 1 on the cell corners to 0 in the cell middle', () => {
+    // Pixel centers are sampled, so the 6 pixel cell corners sit at -0.5 + 6k
+    const map = mapFor('halftone', { halftoneAngle: 0 });
+    expect(map(5.5, 5.5)).toBeCloseTo(1, 10);
+    expect(map(2.5, 2.5)).toBeCloseTo(0, 10);
+  });
+
+  it('horizontal lines only follow y, with a 4 pixel period', () => {
+    const map = mapFor('lines-horizontal');
+    expect(range(4).map((y) => map(0, y))).toEqual([0.75, 0.25, 0.25, 0.75]);
+    expect(map(17, 5)).toBe(map(0, 1));
+  });
+
+  it('diagonal lines are constant along each anti-diagonal', () => {
+    const map = mapFor('lines-diagonal');
+    for (let x = 0; x < 8; x++) {
+      expect(map(x + 1, 3 - 1)).toBe(map(x, 3));
+      expect(map(x + 4, 3)).toBe(map(x, 3));
+    }
+  });
+
+  it('stretches the map over ditherScale pixels', () => {
+    const base = mapFor('bayer4');
+    const scaled = mapFor('bayer4', { ditherScale: 3 });
+    for (let y = 0; y < 12; y++) {
+      for (let x = 0; x < 12; x++) {
+        expect(scaled(x, y)).toBe(base(Math.floor(x / 3), Math.floor(y / 3)));
+      }
+    }
+  });
+
+  it('moves animated blue noise to a new offset each frame, but not on the first', () => {
+    const settings = { ...DEFAULT_SETTINGS, ditherMode: 'blue-noise' as const, animateNoise: true };
+    const still = getThresholdMap(settings);
+    expect(getThresholdMap(settings, 0)(5, 9)).toBe(still(5, 9));
+    const moved = range(64).some((x) => getThresholdMap(settings, 1)(x, 0) !== still(x, 0));
+    expect(moved).toBe(true);
+  });
+});
@@ -0,0 +1,246 @@
+import { OrderedDitherMode, RetroSettings } from '../types';
+
+// A threshold map returns a value in 0..1 for every art pixel
+export type ThresholdMap = (x: number, y: number) => number;
+
+// Base cell size (in art pixels) of the procedural screens, before ditherScale
+const HALFTONE_CELL = 6;
+const LINE_PERIOD = 4;
+const BLUE_NOISE_SIZE = 64;
+
+const mod = (n: number, m: number): number => ((n % m) + m) % m;
+
+/**
+ * Recursive Bayer index matrix of any power-of-two size:
+ * M(2n) = [[4M, 4M + 2], [4M + 3, 4M + 1]]
+ */
+export const generateBayerMatrix = (size: number): number[][] => {
+  if (size < 2 || (size & (size - 1)) !== 0) {
+    throw new Error(`Bayer matrix size must be a power of two, got ${size}`);
+  }
+  let matrix = [[0, 2], [3, 1]];
+  while (matrix.length < size) {
+    const n = matrix.length;
+    const next: number[][] = [];
+    for (let y = 0; y < n * 2; y++) {
+      next.push(new Array(n * 2).fill(0));
+    }
+    for (let y = 0; y < n; y++) {
+      for (let x = 0; x < n; x++) {
+        const v = matrix[y][x] * 4;
+        next[y][x] = v;
+        next[y][x + n] = v + 2;
+        next[y + n][x] = v + 3;
+        next[y + n][x + n] = v + 1;
+      }
+    }
+    matrix = next;
+  }
+  return matrix;
+};
+
+// Small deterministic PRNG so the blue noise texture is identical on every run
+const mulberry32 = (seed: number) => () => {
+  seed |= 0;
+  seed = (seed + 0x6d2b79f5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+/**
+ * Blue noise rank matrix (0..size²-1) using Ulichney's void-and-cluster method.
+ * Energy is a toroidal Gaussian blur of the binary pattern, kept up to date incrementally.
+ */
+export const generateBlueNoise = (size: number, seed = 1): Uint16Array => {
+  const n = size * size;
+  const sigma = 1.5;
+
+  // Gaussian weight by toroidal offset
+  const kernel = new Float32Array(n);
+  for (let dy = 0; dy < size; dy++) {
+    for (let dx = 0; dx < size; dx++) {
+      const tx = Math.min(dx, size - dx);
+      const ty = Math.min(dy, size - dy);
+      kernel[dy * size + dx] = Math.exp(-(tx * tx + ty * ty) / (2 * sigma * sigma));
+    }
+  }
+
+  const splat = (energy: Float32Array, p: number, sign: number) => {
+    const px = p % size;
+    const py = (p / size) | 0;
+    for (let y = 0; y < size; y++) {
+      const ky = mod(y - py, size) * size;
+      for (let x = 0; x < size; x++) {
+        energy[y * size + x] += sign * kernel[ky + mod(x - px, size)];
+      }
+    }
+  };
+
+  const computeEnergy = (pattern: Uint8Array, value: number): Float32Array => {
+    const energy = new Float32Array(n);
+    for (let p = 0; p < n; p++) {
+      if (pattern[p] === value) splat(energy, p, 1);
+    }
+    return energy;
+  };
+
+  // Tightest cluster = highest energy among `value` pixels, largest void = lowest energy among the rest
+  const findExtreme = (pattern: Uint8Array, energy: Float32Array, value: number, highest: boolean): number => {
+    let best = -1;
+    let bestEnergy = highest ? -Infinity : Infinity;
+    for (let p = 0; p < n; p++) {
+      if (pattern[p] !== value) continue;
+      if (highest ? energy[p] > bestEnergy : energy[p] < bestEnergy) {
+        bestEnergy = energy[p];
+        best = p;
+      }
+    }
+    return best;
+  };
+
+  // 1. Random initial pattern with ~10% minority pixels
+  const random = mulberry32(seed);
+  const initial = new Uint8Array(n);
+  const ones = Math.max(1, Math.floor(n / 10));
+  for (let placed = 0; placed < ones; ) {
+    const p = Math.floor(random() * n);
+    if (!initial[p]) {
+      initial[p] = 1;
+      placed++;
+    }
+  }
+
+  // 2. Relax: move tightest clusters into largest voids until stable
+  let energy = computeEnergy(initial, 1);
+  for (let i = 0; i < n * 4; i++) {
+    const cluster = findExtreme(initial, energy, 1, true);
+    initial[cluster] = 0;
+    splat(energy, cluster, -1);
+    const voidP = findExtreme(initial, energy, 0, false);
+    initial[voidP] = 1;
+    splat(energy, voidP, 1);
+    if (voidP === cluster) break;
+  }
+
+  const ranks = new Uint16Array(n);
+
+  // 3. Phase 1: rank the initial pattern by removing tightest clusters
+  const pattern = new Uint8Array(initial);
+  energy = computeEnergy(pattern, 1);
+  for (let rank = ones - 1; rank >= 0; rank--) {
+    const cluster = findExtreme(pattern, energy, 1, true);
+    pattern[cluster] = 0;
+    splat(energy, cluster, -1);
+    ranks[cluster] = rank;
+  }
+
+  // 4. Phase 2: fill largest voids up to half
+  pattern.set(initial);
+  energy = computeEnergy(pattern, 1);
+  let rank = ones;
+  for (; rank < n / 2; rank++) {
+    const voidP = findExtreme(pattern, energy, 0, false);
+    pattern[voidP] = 1;
+    splat(energy, voidP, 1);
+    ranks[voidP] = rank;
+  }
+
+  // 5. Phase 3: zeros are now the minority, fill their tightest clusters
+  energy = computeEnergy(pattern, 0);
+  for (; rank < n; rank++) {
+    const cluster = findExtreme(pattern, energy, 0, true);
+    pattern[cluster] = 1;
+    splat(energy, cluster, -1);
+    ranks[cluster] = rank;
+  }
+
+  return ranks;
+};
+
+const bayerCache = new Map<number, Float32Array>();
+let blueNoiseCache: Float32Array | null = null;
+
+const getBayerTile = (size: number): Float32Array => {
+  let tile = bayerCache.get(size);
+  if (!tile) {
+    const matrix = generateBayerMatrix(size);
+    tile = new Float32Array(size * size);
+    for (let y = 0; y < size; y++) {
+      for (let x = 0; x < size; x++) {
+        tile[y * size + x] = matrix[y][x] / (size * size);
+      }
+    }
+    bayerCache.set(size, tile);
+  }
+  return tile;
+};
+
+const getBlueNoiseTile = (): Float32Array => {
+  if (!blueNoiseCache) {
+    const ranks = generateBlueNoise(BLUE_NOISE_SIZE);
+    blueNoiseCache = new Float32Array(ranks.length);
+    for (let p = 0; p < ranks.length; p++) {
+      blueNoiseCache[p] = ranks[p] / ranks.length;
+    }
+  }
+  return blueNoiseCache;
+};
+
+const tiled = (tile: Float32Array, size: number): ThresholdMap => (x, y) =>
+  tile[mod(y, size) * size + mod(x, size)];
+
+// Triangle wave 0..1..0 over one period, so lines thicken symmetrically
+const triangle = (t: number): number => Math.abs(mod(t, 1) * 2 - 1);
+
+const createBaseMap = (mode: OrderedDitherMode, angle: number): ThresholdMap => {
+  switch (mode) {
+    case 'bayer2':
+      return tiled(getBayerTile(2), 2);
+    case 'bayer4':
+      return tiled(getBayerTile(4), 4);
+    case 'bayer8':
+      return tiled(getBayerTile(8), 8);
+    case 'bayer16':
+      return tiled(getBayerTile(16), 16);
+    case 'blue-noise':
+      return tiled(getBlueNoiseTile(), BLUE_NOISE_SIZE);
+    case 'halftone': {
+      // Clustered round dots on a screen rotated by `angle`
+      const rad = (angle * Math.PI) / 180;
+      const cos = Math.cos(rad);
+      const sin = Math.sin(rad);
+      return (x, y) => {
+        const u = ((x + 0.5) * cos + (y + 0.5) * sin) / HALFTONE_CELL;
+        const v = (-(x + 0.5) * sin + (y + 0.5) * cos) / HALFTONE_CELL;
+        return 0.5 + 0.25 * (Math.cos(2 * Math.PI * u) + Math.cos(2 * Math.PI * v));
+      };
+    }
+    case 'lines-horizontal':
+      return (_x, y) => triangle((y + 0.5) / LINE_PERIOD);
+    case 'lines-diagonal':
+      return (x, y) => triangle((x + y + 0.5) / LINE_PERIOD);
+  }
+};
+
+// R2 low-discrepancy steps, consecutive frames land far apart on the noise tile
+const R2_X = 0.7548776662466927;
+const R2_Y = 0.5698402909980532;
+
+/**
+ * Builds the threshold map for the current settings.
+ * ditherScale stretches the map over N art pixels, independent of pixelSize.
+ * With animated noise, each video `frame` reads the blue noise tile at a new offset.
+ */
+export const getThresholdMap = (settings: RetroSettings, frame = 0): ThresholdMap => {
+  let base = createBaseMap(settings.ditherMode as OrderedDitherMode, settings.halftoneAngle);
+  if (settings.ditherMode === 'blue-noise' && settings.animateNoise && frame > 0) {
+    const shifted = base;
+    const dx = Math.floor(mod(frame * R2_X, 1) * BLUE_NOISE_SIZE);
+    const dy = Math.floor(mod(frame * R2_Y, 1) * BLUE_NOISE_SIZE);
+    base = (x, y) => shifted(x + dx, y + dy);
+  }
+  const scale = Math.max(1, Math.round(settings.ditherScale));
+  if (scale === 1) return base;
+  return (x, y) => base(Math.floor(x / scale), Math.floor(y / scale));
+};
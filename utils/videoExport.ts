@@ -0,0 +1,164 @@
+import { RetroSettings } from '../types';
+import { decodeAudio, EncodedAudio, encodeAudioRange, supportsAudioExport } from './audioExport';
+import { convertPixels } from './convert';
+import { drawUpscaled, getPixelAspect, readArtPixels } from './render';
+import { createTemporalHistory } from './temporal';
+import { forEachVideoFrame } from './videoFrames';
+import { muxWebm, WebmFrame } from './webm';
+
+export interface VideoExportOptions {
+  start: number; // Seconds
+  end: number; // Seconds
+  fps: number;
+  scale: number; // Integer multiple of the art resolution
+  effects: boolean; // CRT / LCD display effects from the settings
+  bitrate: number; // Bits per second
+  audio: boolean; // Carry the source audio over
+}
+
+// Tried in order, the first one the browser can encode wins
+const WEBM_CODECS = [
+  { codec: 'vp09.00.10.08', codecId: 'V_VP9' },
+  { codec: 'vp8', codecId: 'V_VP8' },
+];
+
+// One keyframe every two seconds keeps the file seekable
+const KEYFRAME_INTERVAL_S = 2;
+
+// Frames allowed to wait in the encoder before we stop feeding it
+const MAX_ENCODE_QUEUE = 4;
+
+export const supportsVideoExport = () => typeof VideoEncoder !== 'undefined' && typeof VideoFrame !== 'undefined';
+
+const pickCodec = async (config: Omit<VideoEncoderConfig, 'codec'>) => {
+  for (const { codec, codecId } of WEBM_CODECS) {
+    const support = await VideoEncoder.isConfigSupported({ ...config, codec });
+    if (support.supported) return { config: { ...config, codec }, codecId };
+  }
+  throw new Error('No supported WebM video codec');
+};
+
+/**
+ * Waits for the encoder to take a frame off its queue. Rejects as soon as the encoder fails
+ * (`failed` carries its error) or the render is cancelled, which may never dequeue again.
+ */
+const waitForDequeue = (encoder: VideoEncoder, failed: AbortSignal, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    const settle = (error?: unknown) => {
+      encoder.removeEventListener('dequeue', onDequeue);
+      failed.removeEventListener('abort', onFailed);
+      signal?.removeEventListener('abort', onCancel);
+      if (error === undefined) resolve();
+      else reject(error);
+    };
+    const onDequeue = () => settle();
+    const onFailed = () => settle(failed.reason);
+    const onCancel = () => settle(new DOMException('Render cancelled', 'AbortError'));
+
+    if (failed.aborted) return onFailed();
+    if (signal?.aborted) return onCancel();
+    encoder.addEventListener('dequeue', onDequeue);
+    failed.addEventListener('abort', onFailed);
+    signal?.addEventListener('abort', onCancel);
+  });
+
+/**
+ * Renders the video between start and end offline: every frame is seeked, converted and
+ * encoded with WebCodecs at a fixed timestamp, so the result has the same length and timing
+ * on every machine no matter how fast it converts. Source audio, if requested, is cut to the
+ * same range and muxed as Opus.
+ */
+export const renderVideo = async (
+  url: string,
+  settings: RetroSettings,
+  options: VideoExportOptions,
+  onProgress?: (done: number, total: number) => void,
+  signal?: AbortSignal
+): Promise<Blob> => {
+  const artCanvas = document.createElement('canvas');
+  const outCanvas = document.createElement('canvas');
+  const frameUs = 1e6 / options.fps;
+  const aspect = getPixelAspect(settings);
+  const history = createTemporalHistory();
+  const keyInterval = Math.max(1, Math.round(options.fps * KEYFRAME_INTERVAL_S));
+
+  const frames: WebmFrame[] = [];
+  // Created with the first frame, once the output size is known. Kept in an object so the
+  // type survives being assigned inside the frame callback.
+  const encoding: { encoder: VideoEncoder | null } = { encoder: null };
+  // Aborted with the encoder's error, wakes a frame waiting for the queue to drain
+  const failed = new AbortController();
+  let codecId = '';
+  let size = { width: 0, height: 0 };
+
+  // Audio uses the same start as the video timestamps, which keeps both in sync
+  let audio: EncodedAudio | undefined;
+  if (options.audio && supportsAudioExport()) {
+    const buffer = await decodeAudio(url);
+    if (buffer) audio = await encodeAudioRange(buffer, options.start, options.end);
+  }
+
+  try {
+    await forEachVideoFrame(
+      url,
+      { start: options.start, end: options.end, fps: options.fps, signal, onProgress },
+      async (video, index) => {
+        if (failed.signal.aborted) throw failed.signal.reason;
+
+        const pixels = readArtPixels(video, settings, artCanvas);
+        convertPixels(pixels.data, pixels.width, pixels.height, settings, pixels.data, history);
+        artCanvas.getContext('2d')!.putImageData(pixels, 0, 0);
+        const fullW = pixels.width * aspect.x * options.scale;
+        const fullH = pixels.height * aspect.y * options.scale;
+
+        let encoder = encoding.encoder;
+        if (!encoder) {
+          // 4:2:0 video needs even dimensions, an odd last row or column is cropped
+          size = { width: Math.max(2, fullW & ~1), height: Math.max(2, fullH & ~1) };
+          outCanvas.width = size.width;
+          outCanvas.height = size.height;
+          const picked = await pickCodec({ ...size, bitrate: options.bitrate, framerate: options.fps });
+          codecId = picked.codecId;
+          encoder = new VideoEncoder({
+            output: (chunk) => {
+              const data = new Uint8Array(chunk.byteLength);
+              chunk.copyTo(data);
+              frames.push({ data, timestampUs: chunk.timestamp, keyframe: chunk.type === 'key' });
+            },
+            error: (e) => failed.abort(e),
+          });
+          encoder.configure(picked.config);
+          encoding.encoder = encoder;
+        }
+
+        const ctx = outCanvas.getContext('2d');
+        if (!ctx) throw new Error('Canvas 2D context unavailable');
+        drawUpscaled(ctx, artCanvas, fullW, fullH, options.effects ? settings : null);
+
+        const frame = new VideoFrame(outCanvas, {
+          timestamp: Math.round(index * frameUs),
+          duration: Math.round(frameUs),
+        });
+        encoder.encode(frame, { keyFrame: index % keyInterval === 0 });
+        frame.close();
+
+        while (encoder.encodeQueueSize > MAX_ENCODE_QUEUE) await waitForDequeue(encoder, failed.signal, signal);
+      }
+    );
+
+    if (!encoding.encoder) throw new Error('No frames to encode');
+    await encoding.encoder.flush();
+  } finally {
+    const { encoder } = encoding;
+    if (encoder && encoder.state !== 'closed') encoder.close();
+  }
+  if (failed.signal.aborted) throw failed.signal.reason;
+
+  const data = muxWebm({
+    video: { codecId, ...size, frameDurationNs: 1e9 / options.fps },
+    frames,
+    durationMs: (options.end - options.start) * 1000,
+    audio,
+  });
+  return new Blob([data], { type: 'video/webm' });
+};
@@ -0,0 +1,116 @@
+// Detached <video> helpers for offline, frame-by-frame processing
+
+export const loadVideo = (url: string): Promise<HTMLVideoElement> =>
+  new Promise((resolve, reject) => {
+    const video = document.createElement('video');
+    video.muted = true;
+    video.playsInline = true;
+    video.crossOrigin = 'anonymous';
+    video.preload = 'auto';
+    video.onloadeddata = () => resolve(video);
+    video.onerror = () => reject(new Error('Failed to load video'));
+    video.src = url;
+  });
+
+// A seek that hasn't finished by then is treated as stuck
+const SEEK_TIMEOUT_MS = 10000;
+
+export const seekVideo = (video: HTMLVideoElement, time: number): Promise<void> =>
+  new Promise((resolve, reject) => {
+    const settle = (error?: Error) => {
+      clearTimeout(timer);
+      video.onseeked = null;
+      video.onerror = null;
+      if (error) reject(error);
+      else resolve();
+    };
+    const timer = setTimeout(() => settle(new Error(`Seeking to ${time.toFixed(2)}s timed out`)), SEEK_TIMEOUT_MS);
+    video.onseeked = () => settle();
+    video.onerror = () => settle(new Error(`Failed to seek to ${time.toFixed(2)}s`));
+    video.currentTime = time;
+  });
+
+export const releaseVideo = (video: HTMLVideoElement) => {
+  video.removeAttribute('src');
+  video.load();
+};
+
+export interface FrameStepOptions {
+  start: number; // Seconds
+  end: number; // Seconds, exclusive
+  fps: number;
+  signal?: AbortSignal;
+  onProgress?: (done: number, total: number) => void;
+}
+
+/**
+ * Seeks a fresh copy of the video to the middle of every frame between start and end and calls
+ * `onFrame` once the frame is decoded. Independent of playback speed, so results are repeatable.
+ */
+export const forEachVideoFrame = async (
+  url: string,
+  options: FrameStepOptions,
+  onFrame: (video: HTMLVideoElement, index: number, time: number) => void | Promise<void>
+): Promise<void> => {
+  const video = await loadVideo(url);
+  try {
+    const total = Math.max(1, Math.round((options.end - options.start) * options.fps));
+    for (let i = 0; i < total; i++) {
+      if (options.signal?.aborted) throw new DOMException('Render cancelled', 'AbortError');
+      // Middle of the frame's slot, a seek to its exact start can land on the previous frame
+      const time = options.start + (i + 0.5) / options.fps;
+      await seekVideo(video, time);
+      await onFrame(video, i, time);
+      options.onProgress?.(i + 1, total);
+    }
+  } finally {
+    releaseVideo(video);
+  }
+};
+
+// Frame rates snapped to when the measured rate is within 3%
+const COMMON_FRAME_RATES = [23.976, 24, 25, 29.97, 30, 50, 59.94, 60];
+
+/**
+ * Estimates the source frame rate by playing a muted copy briefly and timing the decoded
+ * frames' media times. Resolves to null when it can't be measured: no `requestVideoFrameCallback`,
+ * playback refused, or a clip too short to show two frames. Callers ask the user instead.
+ */
+export const detectFrameRate = async (url: string): Promise<number | null> => {
+  const video = await loadVideo(url);
+  if (!('requestVideoFrameCallback' in video)) {
+    releaseVideo(video);
+    return null;
+  }
+
+  try {
+    const times = await new Promise<number[]>((resolve) => {
+      const collected: number[] = [];
+      const finish = () => {
+        clearTimeout(timer);
+        resolve(collected);
+      };
+      const timer = setTimeout(finish, 1500);
+      const onFrame: VideoFrameRequestCallback = (_now, metadata) => {
+        collected.push(metadata.mediaTime);
+        if (collected.length >= 12) finish();
+        else video.requestVideoFrameCallback(onFrame);
+      };
+      video.requestVideoFrameCallback(onFrame);
+      // Clips shorter than the sample window are measured on the frames they have
+      video.onended = finish;
+      video.play().catch(finish);
+    });
+
+    // Dropped frames only make gaps longer, so the shortest gap is the frame interval
+    const gaps = times.slice(1).map((t, i) => t - times[i]).filter((gap) => gap > 0);
+    if (gaps.length === 0) return null;
+    const rate = 1 / Math.min(...gaps);
+    const common = COMMON_FRAME_RATES.find((r) => Math.abs(r - rate) / r < 0.03);
+    return common ?? Math.round(rate * 100) / 100;
+  } finally {
+    video.onended = null;
+    video.pause();
+    releaseVideo(video);
+  }
+};
@@ -0,0 +1,110 @@
+import { describe, expect, it } from 'vitest';
+import { muxWebm, WebmFrame } from './webm';
+
+interface Element {
+  id: number;
+  offset: number; // Start of the element in its parent's data
+  data: Uint8Array;
+}
+
+// Minimal EBML reader: IDs keep their marker bits, sizes drop them
+const readVint = (bytes: Uint8Array, offset: number, keepMarker: boolean) => {
+  const first = bytes[offset];
+  let length = 1;
+  while (length <= 8 && !(first & (0x80 >> (length - 1)))) length++;
+  let value = keepMarker ? first : first & (0xff >> length);
+  for (let i = 1; i < length; i++) value = value * 256 + bytes[offset + i];
+  return { value, length };
+};
+
+const readElements = (bytes: Uint8Array): Element[] => {
+  const elements: Element[] = [];
+  for (let offset = 0; offset < bytes.length; ) {
+    const id = readVint(bytes, offset, true);
+    const size = readVint(bytes, offset + id.length, false);
+    const start = offset + id.length + size.length;
+    elements.push({ id: id.value, offset, data: bytes.subarray(start, start + size.value) });
+    offset = start + size.value;
+  }
+  return elements;
+};
+
+const child = (parent: Uint8Array, id: number) => readElements(parent).find((e) => e.id === id)!.data;
+const children = (parent: Uint8Array, id: number) => readElements(parent).filter((e) => e.id === id).map((e) => e.data);
+const uint = (data: Uint8Array) => data.reduce((value, byte) => value * 256 + byte, 0);
+const text = (data: Uint8Array) => new TextDecoder().decode(data);
+
+const frame = (timestampUs: number, keyframe: boolean, fill: number, size = 10): WebmFrame => ({
+  data: new Uint8Array(size).fill(fill),
+  timestampUs,
+  keyframe,
+});
+
+describe('muxWebm', () => {
+  it('round-trips tracks, timestamps and payloads', () => {
+    const video = [frame(0, true, 1), frame(33_333, false, 2, 300), frame(66_667, false, 3), frame(100_000, true, 4)];
+    const audio = [frame(0, true, 9), frame(20_000, true, 8), frame(80_000, true, 7)];
+    const bytes = muxWebm({
+      video: { codecId: 'V_VP9', width: 320, height: 240, frameDurationNs: 33_333_333 },
+      frames: video,
+      durationMs: 133,
+      audio: { track: { codecId: 'A_OPUS', sampleRate: 48000, channels: 2, codecPrivate: new Uint8Array([5, 6]) }, frames: audio },
+    });
+
+    const [header, segment] = readElements(bytes);
+    expect(header.id).toBe(0x1a45dfa3);
+    expect(text(child(header.data, 0x4282))).toBe('webm');
+    expect(segment.id).toBe(0x18538067);
+
+    const info = child(segment.data, 0x1549a966);
+    expect(new DataView(child(info, 0x4489).slice().buffer).getFloat64(0)).toBe(133);
+
+    const entries = children(child(segment.data, 0x1654ae6b), 0xae);
+    expect(entries.map((entry) => text(child(entry, 0x86)))).toEqual(['V_VP9', 'A_OPUS']);
+    const videoSettings = child(entries[0], 0xe0);
+    expect([uint(child(videoSettings, 0xb0)), uint(child(videoSettings, 0xba))]).toEqual([320, 240]);
+    expect(Array.from(child(entries[1], 0x63a2))).toEqual([5, 6]);
+
+    // Every block back with its absolute time, track and payload
+    const clusters = children(segment.data, 0x1f43b675);
+    const blocks = clusters.flatMap((cluster) => {
+      const start = uint(child(cluster, 0xe7));
+      return children(cluster, 0xa3).map((block) => {
+        const view = new DataView(block.slice().buffer);
+        return {
+          track: block[0] & 0x7f,
+          timeMs: start + view.getInt16(1),
+          keyframe: (block[3] & 0x80) !== 0,
+          data: block.subarray(4),
+        };
+      });
+    });
+    const expected = [
+      ...video.map((f) => ({ track: 1, f })),
+      ...audio.map((f) => ({ track: 2, f })),
+    ].sort((a, b) => a.f.timestampUs - b.f.timestampUs || a.track - b.track);
+    expect(blocks).toEqual(
+      expected.map(({ track, f }) => ({ track, timeMs: Math.round(f.timestampUs / 1000), keyframe: f.keyframe, data: f.data }))
+    );
+
+    // A cluster per video keyframe, each with a cue pointing at it
+    expect(clusters).toHaveLength(2);
+    const cues = children(child(segment.data, 0x1c53bb6b), 0xbb);
+    const clusterOffsets = readElements(segment.data)
+      .filter((element) => element.id === 0x1f43b675)
+      .map((element) => element.offset);
+    expect(cues.map((cue) => uint(child(child(cue, 0xb7), 0xf1)))).toEqual(clusterOffsets);
+    expect(cues.map((cue) => uint(child(cue, 0xb3)))).toEqual([0, 100]);
+  });
+
+  it('opens a new cluster before relative timecodes overflow', () => {
+    const frames = [frame(0, true, 1), frame(20_000_000, false, 2), frame(40_000_000, false, 3)];
+    const bytes = muxWebm({ video: { codecId: 'V_VP8', width: 2, height: 2 }, frames, durationMs: 40000 });
+    const segment = readElements(bytes)[1];
+    expect(children(segment.data, 0x1f43b675).map((cluster) => uint(child(cluster, 0xe7)))).toEqual([0, 40000]);
+  });
+
+  it('refuses an empty video', () => {
+    expect(() => muxWebm({ video: { codecId: 'V_VP9', width: 1, height: 1 }, frames: [], durationMs: 0 })).toThrow('No frames');
+  });
+});
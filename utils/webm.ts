@@ -0,0 +1,217 @@
+import { concatBytes } from './bytes';
+
+// Matroska element IDs used by the muxer, marker bits included
+const ID = {
+  EBML: 0x1a45dfa3,
+  EBMLVersion: 0x4286,
+  EBMLReadVersion: 0x42f7,
+  EBMLMaxIDLength: 0x42f2,
+  EBMLMaxSizeLength: 0x42f3,
+  DocType: 0x4282,
+  DocTypeVersion: 0x4287,
+  DocTypeReadVersion: 0x4285,
+  Segment: 0x18538067,
+  Info: 0x1549a966,
+  TimecodeScale: 0x2ad7b1,
+  MuxingApp: 0x4d80,
+  WritingApp: 0x5741,
+  Duration: 0x4489,
+  Tracks: 0x1654ae6b,
+  TrackEntry: 0xae,
+  TrackNumber: 0xd7,
+  TrackUID: 0x73c5,
+  TrackType: 0x83,
+  FlagLacing: 0x9c,
+  DefaultDuration: 0x23e383,
+  CodecID: 0x86,
+  CodecPrivate: 0x63a2,
+  Video: 0xe0,
+  PixelWidth: 0xb0,
+  PixelHeight: 0xba,
+  Audio: 0xe1,
+  SamplingFrequency: 0xb5,
+  Channels: 0x9f,
+  Cluster: 0x1f43b675,
+  Timecode: 0xe7,
+  SimpleBlock: 0xa3,
+  Cues: 0x1c53bb6b,
+  CuePoint: 0xbb,
+  CueTime: 0xb3,
+  CueTrackPositions: 0xb7,
+  CueTrack: 0xf7,
+  CueClusterPosition: 0xf1,
+};
+
+export interface WebmVideoTrack {
+  codecId: string; // e.g. 'V_VP9'
+  width: number;
+  height: number;
+  frameDurationNs?: number;
+}
+
+export interface WebmAudioTrack {
+  codecId: string; // e.g. 'A_OPUS'
+  sampleRate: number;
+  channels: number;
+  codecPrivate?: Uint8Array;
+}
+
+export interface WebmFrame {
+  data: Uint8Array;
+  timestampUs: number;
+  keyframe: boolean;
+}
+
+const uintBytes = (value: number, minLength = 1): Uint8Array => {
+  const bytes: number[] = [];
+  let v = value;
+  do {
+    bytes.unshift(v % 256);
+    v = Math.floor(v / 256);
+  } while (v > 0 || bytes.length < minLength);
+  return new Uint8Array(bytes);
+};
+
+// EBML variable-length size: a length marker bit followed by the value
+const vintBytes = (value: number): Uint8Array => {
+  let length = 1;
+  while (length < 8 && value >= 2 ** (7 * length) - 1) length++;
+  const bytes = uintBytes(value, length);
+  bytes[0] |= 1 << (8 - length);
+  return bytes;
+};
+
+const element = (id: number, ...children: Uint8Array[]): Uint8Array => {
+  const body = concatBytes(children);
+  return concatBytes([uintBytes(id), vintBytes(body.length), body]);
+};
+
+const uintElement = (id: number, value: number) => element(id, uintBytes(value));
+
+const floatElement = (id: number, value: number) => {
+  const bytes = new Uint8Array(8);
+  new DataView(bytes.buffer).setFloat64(0, value);
+  return element(id, bytes);
+};
+
+const stringElement = (id: number, value: string) => element(id, new TextEncoder().encode(value));
+
+// Cluster-relative timecodes are signed 16 bit
+const MAX_CLUSTER_SPAN_MS = 30000;
+
+export interface WebmInput {
+  video: WebmVideoTrack;
+  frames: WebmFrame[];
+  durationMs: number;
+  audio?: { track: WebmAudioTrack; frames: WebmFrame[] };
+}
+
+const simpleBlock = (trackNumber: number, relativeMs: number, frame: WebmFrame): Uint8Array => {
+  const header = new Uint8Array(4);
+  header[0] = 0x80 | trackNumber;
+  new DataView(header.buffer).setInt16(1, relativeMs);
+  header[3] = frame.keyframe ? 0x80 : 0;
+  return element(ID.SimpleBlock, header, frame.data);
+};
+
+/**
+ * Muxes already-encoded frames (video, optionally audio) into a WebM file held in memory.
+ * Clusters start at video keyframes, and a cue per cluster keeps the result seekable.
+ */
+export const muxWebm = ({ video, frames, durationMs, audio }: WebmInput): Uint8Array => {
+  if (frames.length === 0) throw new Error('No frames to mux');
+
+  const header = element(
+    ID.EBML,
+    uintElement(ID.EBMLVersion, 1),
+    uintElement(ID.EBMLReadVersion, 1),
+    uintElement(ID.EBMLMaxIDLength, 4),
+    uintElement(ID.EBMLMaxSizeLength, 8),
+    stringElement(ID.DocType, 'webm'),
+    uintElement(ID.DocTypeVersion, 4),
+    uintElement(ID.DocTypeReadVersion, 2)
+  );
+
+  const info = element(
+    ID.Info,
+    uintElement(ID.TimecodeScale, 1000000), // Timecodes in milliseconds
+    stringElement(ID.MuxingApp, 'RetroBit'),
+    stringElement(ID.WritingApp, 'RetroBit'),
+    floatElement(ID.Duration, durationMs)
+  );
+
+  const videoEntry = element(
+    ID.TrackEntry,
+    uintElement(ID.TrackNumber, 1),
+    uintElement(ID.TrackUID, 1),
+    uintElement(ID.TrackType, 1),
+    uintElement(ID.FlagLacing, 0),
+    ...(video.frameDurationNs ? [uintElement(ID.DefaultDuration, Math.round(video.frameDurationNs))] : []),
+    stringElement(ID.CodecID, video.codecId),
+    element(ID.Video, uintElement(ID.PixelWidth, video.width), uintElement(ID.PixelHeight, video.height))
+  );
+  const audioEntry = audio
+    ? [
+        element(
+          ID.TrackEntry,
+          uintElement(ID.TrackNumber, 2),
+          uintElement(ID.TrackUID, 2),
+          uintElement(ID.TrackType, 2),
+          uintElement(ID.FlagLacing, 0),
+          stringElement(ID.CodecID, audio.track.codecId),
+          ...(audio.track.codecPrivate ? [element(ID.CodecPrivate, audio.track.codecPrivate)] : []),
+          element(
+            ID.Audio,
+            floatElement(ID.SamplingFrequency, audio.track.sampleRate),
+            uintElement(ID.Channels, audio.track.channels)
+          )
+        ),
+      ]
+    : [];
+  const tracks = element(ID.Tracks, videoEntry, ...audioEntry);
+
+  // Interleave both tracks by time, video first on ties so clusters open on a keyframe
+  const blocks = [
+    ...frames.map((frame) => ({ track: 1, frame })),
+    ...(audio?.frames ?? []).map((frame) => ({ track: 2, frame })),
+  ].sort((a, b) => a.frame.timestampUs - b.frame.timestampUs || a.track - b.track);
+
+  const clusters: Uint8Array[] = [];
+  const cues: { timeMs: number; position: number }[] = [];
+  let position = info.length + tracks.length;
+  let clusterStart = -1;
+  let clusterBlocks: Uint8Array[] = [];
+
+  const closeCluster = () => {
+    if (clusterBlocks.length === 0) return;
+    const cluster = element(ID.Cluster, uintElement(ID.Timecode, clusterStart), ...clusterBlocks);
+    cues.push({ timeMs: clusterStart, position });
+    position += cluster.length;
+    clusters.push(cluster);
+    clusterBlocks = [];
+  };
+
+  for (const { track, frame } of blocks) {
+    const timeMs = Math.round(frame.timestampUs / 1000);
+    const videoKeyframe = track === 1 && frame.keyframe;
+    if (clusterStart < 0 || videoKeyframe || timeMs - clusterStart > MAX_CLUSTER_SPAN_MS) {
+      closeCluster();
+      clusterStart = timeMs;
+    }
+    clusterBlocks.push(simpleBlock(track, timeMs - clusterStart, frame));
+  }
+  closeCluster();
+
+  const cueElement = element(
+    ID.Cues,
+    ...cues.map((cue) =>
+      element(
+        ID.CuePoint,
+        uintElement(ID.CueTime, cue.timeMs),
+        element(ID.CueTrackPositions, uintElement(ID.CueTrack, 1), uintElement(ID.CueClusterPosition, cue.position))
+      )
+    )
+  );
+
+  return concatBytes([header, element(ID.Segment, info, tracks, ...clusters, cueElement)]);
+};
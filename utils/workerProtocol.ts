@@ -0,0 +1,20 @@
+import { RetroSettings } from '../types';
+import { CropRegion } from './crop';
+
+// Main thread -> worker: one source frame to convert at width x height art pixels
+export interface FrameRequest {
+  id: number;
+  bitmap: ImageBitmap;
+  width: number;
+  height: number;
+  settings: RetroSettings;
+  region: CropRegion; // Part of the rotated source to convert, from getSourceRegion
+  continuous: boolean; // Next frame of a video or live source, converted against the previous one
+  source: number; // Changes with every new file or stream, starts the temporal history over
+  histogram: boolean; // Also send back the threshold histogram of the art pixels
+}
+
+// Worker -> main thread
+export type FrameResponse =
+  | { type: 'result'; id: number; bitmap: ImageBitmap; histogram: Uint32Array | null; processingMs: number }
+  | { type: 'error'; id: number; message: string };
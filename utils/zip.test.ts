@@ -0,0 +1,26 @@
+import { unzipSync } from 'fflate';
+import { describe, expect, it } from 'vitest';
+import { createZip } from './zip';
+
+describe('createZip', () => {
+  it('round-trips entries through an independent unzipper', async () => {
+    const entries = [
+      { name: 'a.png', data: new Uint8Array([1, 2, 3]) },
+      { name: 'nested/ünïcode.png', data: new Uint8Array(70000).map((_, i) => i % 251) },
+      { name: 'empty.png', data: new Uint8Array(0) },
+    ];
+    const blob = createZip(entries, new Date(2024, 5, 15, 13, 45, 30));
+    expect(blob.type).toBe('application/zip');
+
+    const files = unzipSync(new Uint8Array(await blob.arrayBuffer()));
+    expect(Object.keys(files)).toEqual(entries.map((entry) => entry.name));
+    for (const entry of entries) expect(files[entry.name]).toEqual(entry.data);
+  });
+
+  it('stores the modification time in DOS format', async () => {
+    const bytes = new Uint8Array(await createZip([{ name: 'x', data: new Uint8Array([0]) }], new Date(2024, 5, 15, 13, 45, 30)).arrayBuffer());
+    const view = new DataView(bytes.buffer);
+    expect(view.getUint16(10, true)).toBe((13 << 11) | (45 << 5) | 15);
+    expect(view.getUint16(12, true)).toBe(((2024 - 1980) << 9) | (6 << 5) | 15);
+  });
+});
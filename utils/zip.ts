@@ -0,0 +1,75 @@
+import { concatBytes } from './bytes';
+import { crc32 } from './crc32';
+
+export interface ZipEntry {
+  name: string; // Path inside the archive, '/' separated
+  data: Uint8Array;
+}
+
+// MS-DOS date and time fields, two-second resolution
+const dosDateTime = (date: Date) => ({
+  time: (date.getHours() << 11) | (date.getMinutes() << 5) | (date.getSeconds() >> 1),
+  date: ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+});
+
+/**
+ * Builds a zip archive in memory. Entries are stored uncompressed: the outputs are PNGs,
+ * which deflate would not shrink any further.
+ */
+export const createZip = (entries: ZipEntry[], modified = new Date()): Blob => {
+  const encoder = new TextEncoder();
+  const { time, date } = dosDateTime(modified);
+  const local: Uint8Array[] = [];
+  const central: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = encoder.encode(entry.name);
+    const crc = crc32(entry.data);
+
+    const header = new Uint8Array(30 + name.length);
+    const h = new DataView(header.buffer);
+    h.setUint32(0, 0x04034b50, true);
+    h.setUint16(4, 20, true); // Version needed
+    h.setUint16(6, 0x0800, true); // UTF-8 names
+    h.setUint16(8, 0, true); // Stored
+    h.setUint16(10, time, true);
+    h.setUint16(12, date, true);
+    h.setUint32(14, crc, true);
+    h.setUint32(18, entry.data.length, true);
+    h.setUint32(22, entry.data.length, true);
+    h.setUint16(26, name.length, true);
+    header.set(name, 30);
+    local.push(header, entry.data);
+
+    const record = new Uint8Array(46 + name.length);
+    const c = new DataView(record.buffer);
+    c.setUint32(0, 0x02014b50, true);
+    c.setUint16(4, 20, true); // Version made by
+    c.setUint16(6, 20, true); // Version needed
+    c.setUint16(8, 0x0800, true);
+    c.setUint16(10, 0, true);
+    c.setUint16(12, time, true);
+    c.setUint16(14, date, true);
+    c.setUint32(16, crc, true);
+    c.setUint32(20, entry.data.length, true);
+    c.setUint32(24, entry.data.length, true);
+    c.setUint16(28, name.length, true);
+    c.setUint32(42, offset, true); // Local header offset
+    record.set(name, 46);
+    central.push(record);
+
+    offset += header.length + entry.data.length;
+  }
+
+  const directory = concatBytes(central);
+  const end = new Uint8Array(22);
+  const e = new DataView(end.buffer);
+  e.setUint32(0, 0x06054b50, true);
+  e.setUint16(8, entries.length, true);
+  e.setUint16(10, entries.length, true);
+  e.setUint32(12, directory.length, true);
+  e.setUint32(16, offset, true);
+
+  return new Blob([...local, directory, end], { type: 'application/zip' });
+};